@@ -3,6 +3,14 @@ import { Home } from './pages/Home';
 import { EntropyStochasticProcess } from './pages/EntropyStochasticProcess';
 import { SamplingRateExercise } from './pages/SamplingRateExercise';
 import { OhmsLaw } from './pages/OhmsLaw';
+import { ApproximateEntropy } from './pages/ApproximateEntropy';
+import { IntensityTransformations } from './pages/IntensityTransformations';
+import { HistogramEqualization } from './pages/HistogramEqualization';
+import { HistogramMatching } from './pages/HistogramMatching';
+import { ImageArithmetic } from './pages/ImageArithmetic';
+import { ImageEntropy } from './pages/ImageEntropy';
+import { AnomalyDetection } from './pages/AnomalyDetection';
+import { ContextualAnomalies } from './pages/ContextualAnomalies';
 import './App.css';
 
 function App() {
@@ -12,6 +20,14 @@ function App() {
       <Route path="/entropy-stochastic-process" element={<EntropyStochasticProcess />} />
       <Route path="/sampling-rate-exercise" element={<SamplingRateExercise />} />
       <Route path="/ohms-law" element={<OhmsLaw />} />
+      <Route path="/approximate-entropy" element={<ApproximateEntropy />} />
+      <Route path="/intensity-transformations" element={<IntensityTransformations />} />
+      <Route path="/histogram-equalization" element={<HistogramEqualization />} />
+      <Route path="/histogram-matching" element={<HistogramMatching />} />
+      <Route path="/image-arithmetic" element={<ImageArithmetic />} />
+      <Route path="/image-entropy" element={<ImageEntropy />} />
+      <Route path="/anomaly-detection" element={<AnomalyDetection />} />
+      <Route path="/contextual-anomalies" element={<ContextualAnomalies />} />
     </Routes>
   );
 }
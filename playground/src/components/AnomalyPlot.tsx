@@ -0,0 +1,185 @@
+import { Stage, Layer, Line, Circle, Rect, Text } from 'react-konva';
+import type { SignalPoint } from '../utils/entropyCalculator';
+import type { SignalHighlight } from './SignalVisualization';
+
+interface AnomalyPlotProps {
+  signal: SignalPoint[];
+  lower: number[];     // Lower limit at every sample; constant for a global detector
+  upper: number[];
+  center?: number[];
+  flagged: number[];   // Positions of the detected samples
+  truth?: number[];    // Positions of the injected anomalies
+  regions?: SignalHighlight[];  // Shaded spans, e.g. injected segments
+  width: number;
+  height: number;
+  padding?: number;
+}
+
+/**
+ * Signal inside its threshold band, with detected samples in red, injected spikes circled and injected segments
+ * shaded
+ */
+export function AnomalyPlot({
+  signal,
+  lower,
+  upper,
+  center,
+  flagged,
+  truth = [],
+  regions = [],
+  width,
+  height,
+  padding = 40
+}: AnomalyPlotProps) {
+  const plotWidth = width - 2 * padding;
+  const plotHeight = height - 2 * padding;
+
+  const maxIndex = Math.max(1, ...signal.map(p => p.index));
+  let minValue = Infinity;
+  let maxValue = -Infinity;
+  [signal.map(p => p.value), lower, upper].forEach(series =>
+    series.forEach(v => {
+      minValue = Math.min(minValue, v);
+      maxValue = Math.max(maxValue, v);
+    })
+  );
+  if (!Number.isFinite(minValue)) [minValue, maxValue] = [-1, 1];
+  const margin = 0.05 * (maxValue - minValue || 1);
+  minValue -= margin;
+  maxValue += margin;
+
+  // Scale functions
+  const scaleX = (index: number) => padding + (index / maxIndex) * plotWidth;
+  const scaleY = (value: number) => padding + plotHeight - ((value - minValue) / (maxValue - minValue)) * plotHeight;
+
+  const upperPoints = signal.flatMap((p, i) => [scaleX(p.index), scaleY(upper[i])]);
+  const lowerPoints = signal.flatMap((p, i) => [scaleX(p.index), scaleY(lower[i])]);
+  const bandPoints = [...upperPoints];
+  for (let i = signal.length - 1; i >= 0; i--) {
+    bandPoints.push(scaleX(signal[i].index), scaleY(lower[i]));
+  }
+  const flaggedSet = new Set(flagged);
+
+  const xLabels = [0, 1, 2, 3, 4].map(i => {
+    const index = Math.round((i / 4) * maxIndex);
+    return (
+      <Text
+        key={`x-label-${i}`}
+        x={scaleX(index) - 15}
+        y={padding + plotHeight + 10}
+        width={30}
+        text={index.toString()}
+        fontSize={12}
+        fill="#374151"
+        align="center"
+      />
+    );
+  });
+
+  const yLabels = [0, 1, 2, 3, 4].map(i => {
+    const value = minValue + (i / 4) * (maxValue - minValue);
+    return (
+      <Text
+        key={`y-label-${i}`}
+        x={padding - 40}
+        y={scaleY(value) - 6}
+        width={34}
+        text={value.toFixed(1)}
+        fontSize={12}
+        fill="#374151"
+        align="right"
+      />
+    );
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <Stage width={width} height={height}>
+        <Layer>
+          {regions.map((region, i) => signal[region.start] && (
+            <Rect
+              key={`region-${i}`}
+              x={scaleX(signal[region.start].index - 0.5)}
+              y={padding}
+              width={scaleX(region.length) - scaleX(0)}
+              height={plotHeight}
+              fill={region.color}
+              opacity={0.15}
+            />
+          ))}
+
+          {/* Threshold band */}
+          {signal.length > 1 && (
+            <>
+              <Line points={bandPoints} closed fill="#dbeafe" opacity={0.6} />
+              <Line points={upperPoints} stroke="#3b82f6" strokeWidth={1.5} dash={[6, 4]} />
+              <Line points={lowerPoints} stroke="#3b82f6" strokeWidth={1.5} dash={[6, 4]} />
+              {center && (
+                <Line
+                  points={signal.flatMap((p, i) => [scaleX(p.index), scaleY(center[i])])}
+                  stroke="#9ca3af"
+                  strokeWidth={1}
+                />
+              )}
+            </>
+          )}
+
+          {/* Axes */}
+          <Line
+            points={[padding, padding + plotHeight, padding + plotWidth, padding + plotHeight]}
+            stroke="#374151"
+            strokeWidth={2}
+          />
+          <Line
+            points={[padding, padding, padding, padding + plotHeight]}
+            stroke="#374151"
+            strokeWidth={2}
+          />
+          {xLabels}
+          {yLabels}
+          <Text
+            x={padding + plotWidth / 2 - 60}
+            y={height - 20}
+            text="Sample index i"
+            fontSize={14}
+            fill="#374151"
+            fontStyle="bold"
+          />
+
+          {/* Signal */}
+          {signal.length > 1 && (
+            <Line
+              points={signal.flatMap(p => [scaleX(p.index), scaleY(p.value)])}
+              stroke="#6b7280"
+              strokeWidth={1}
+            />
+          )}
+          {signal.map((p, i) => (
+            <Circle
+              key={`point-${i}`}
+              x={scaleX(p.index)}
+              y={scaleY(p.value)}
+              radius={flaggedSet.has(i) ? 4.5 : 2}
+              fill={flaggedSet.has(i) ? '#dc2626' : '#374151'}
+            />
+          ))}
+          {truth.map(i => signal[i] && (
+            <Circle
+              key={`truth-${i}`}
+              x={scaleX(signal[i].index)}
+              y={scaleY(signal[i].value)}
+              radius={8}
+              stroke="#f59e0b"
+              strokeWidth={2}
+            />
+          ))}
+
+          {/* Legend */}
+          <Text x={padding + 10} y={padding - 30} text="● Detected" fontSize={12} fill="#dc2626" fontStyle="bold" />
+          <Text x={padding + 100} y={padding - 30} text="○ Injected" fontSize={12} fill="#f59e0b" fontStyle="bold" />
+          <Text x={padding + 190} y={padding - 30} text="┅ Limits" fontSize={12} fill="#3b82f6" fontStyle="bold" />
+        </Layer>
+      </Stage>
+    </div>
+  );
+}
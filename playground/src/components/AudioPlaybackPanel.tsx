@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+import { useAudioPlayer } from '../hooks/useAudioPlayer';
+import {
+  AUDIO_RATES,
+  AUDIO_SOURCE_LABELS,
+  AUDIO_SOURCES,
+  encodeWav,
+  renderOffline,
+  renderSource,
+  renderSweep,
+  sweepRateAt,
+  type AudioSource,
+  type SamplingChain,
+} from '../utils/audio';
+
+export interface AudioSettings {
+  audioRate: number;
+  duration: number;               // Seconds of each rendered signal
+  sweep: [number, number];        // Sampling rates at the start and end of the sweep
+  sweepDuration: number;
+}
+
+interface AudioPlaybackPanelProps {
+  settings: AudioSettings;
+  onChange: (changes: Partial<AudioSettings>) => void;
+  chain: SamplingChain;
+  nyquistRate: number;
+  onSamplingRateChange: (samplingRate: number) => void;
+}
+
+const SWEEP_ID = 'sweep';
+const RATE_MIN = 100;
+const RATE_MAX = 1000;
+const RATE_STEP = 10;
+
+const snapRate = (rate: number) =>
+  Math.min(RATE_MAX, Math.max(RATE_MIN, Math.round(rate / RATE_STEP) * RATE_STEP));
+
+export function AudioPlaybackPanel({
+  settings,
+  onChange,
+  chain,
+  nyquistRate,
+  onSamplingRateChange,
+}: AudioPlaybackPanelProps) {
+  const { playing, play, stop } = useAudioPlayer();
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [fromRate, toRate] = settings.sweep;
+  const renderOptions = { audioRate: settings.audioRate, duration: settings.duration };
+
+  const playSource = (source: AudioSource) => {
+    play(renderSource(source, chain, renderOptions), settings.audioRate, source);
+  };
+
+  // The page's f_s follows the sweep, so the plots show the rate being heard
+  const playSweep = () => {
+    const samples = renderSweep(chain, settings.sweep, {
+      audioRate: settings.audioRate,
+      duration: settings.sweepDuration,
+    });
+    let lastRate = NaN;
+    play(samples, settings.audioRate, SWEEP_ID, (elapsed) => {
+      const rate = snapRate(sweepRateAt(elapsed, settings.sweep, settings.sweepDuration));
+      if (rate === lastRate) return;
+      lastRate = rate;
+      onSamplingRateChange(rate);
+    });
+  };
+
+  // Exports go through an OfflineAudioContext, so the file holds exactly what would be played
+  const downloadWav = async (id: string, filename: string, samples: Float32Array) => {
+    setExporting(id);
+    setExportError(null);
+    try {
+      const buffer = await renderOffline(samples, settings.audioRate);
+      const blob = encodeWav(buffer.getChannelData(0), buffer.sampleRate);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setExportError(`Could not export ${filename}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const setSweepBound = (index: 0 | 1, value: number) => {
+    const sweep: [number, number] = [...settings.sweep];
+    sweep[index] = value;
+    onChange({ sweep });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-2xl font-semibold mb-2 text-gray-800">Listen</h2>
+      <p className="text-gray-600 mb-4">
+        Every signal is rendered at the audio rate with its DC offset removed and its peak normalized. An aliased
+        component is heard at its folded frequency <InlineMath math="|f - k f_s|" />; the held samples also add the
+        buzz of the staircase images around multiples of <InlineMath math="f_s" />.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Playback rate</span>
+          <select
+            value={settings.audioRate}
+            onChange={(e) => onChange({ audioRate: parseInt(e.target.value) })}
+            className="mt-1 block w-full rounded-lg border border-gray-300 p-2"
+          >
+            {AUDIO_RATES.map(rate => (
+              <option key={rate} value={rate}>{rate} Hz</option>
+            ))}
+          </select>
+        </label>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Duration: {settings.duration} s
+          </label>
+          <input
+            type="range"
+            min={1}
+            max={5}
+            value={settings.duration}
+            onChange={(e) => onChange({ duration: parseInt(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {AUDIO_SOURCES.map(source => (
+          <div key={source} className="bg-gray-50 rounded-lg p-4 text-center">
+            <div className="font-semibold text-gray-800 mb-3">{AUDIO_SOURCE_LABELS[source]}</div>
+            <div className="flex justify-center gap-2">
+              <button
+                onClick={() => (playing === source ? stop() : playSource(source))}
+                className={`px-4 py-2 rounded-lg text-white transition-colors ${
+                  playing === source ? 'bg-red-500 hover:bg-red-600' : 'bg-blue-500 hover:bg-blue-600'
+                }`}
+              >
+                {playing === source ? 'Stop' : 'Play'}
+              </button>
+              <button
+                onClick={() => void downloadWav(
+                  source,
+                  `${source}-fs${chain.samplingRate}.wav`,
+                  renderSource(source, chain, renderOptions)
+                )}
+                disabled={exporting !== null}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+              >
+                {exporting === source ? 'Rendering…' : 'WAV'}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      {chain.reconstruction.method === 'zoh' && (
+        <p className="text-sm text-gray-600 mt-2">
+          With zero-order hold selected, the reconstructed signal is the held signal.
+        </p>
+      )}
+
+      <h3 className="text-lg font-semibold text-gray-800 mt-6 mb-2">Sampling-rate sweep</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Plays the held samples while <InlineMath math="f_s" /> slides linearly between the two rates; the slider
+        above follows the sweep. Listen for the components folding back as <InlineMath math="f_s" /> drops below the
+        Nyquist rate of {nyquistRate} Hz.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {([0, 1] as const).map(index => (
+          <div key={index}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {index === 0 ? 'From' : 'To'}: {settings.sweep[index]} Hz
+            </label>
+            <input
+              type="range"
+              min={RATE_MIN}
+              max={RATE_MAX}
+              step={RATE_STEP}
+              value={settings.sweep[index]}
+              onChange={(e) => setSweepBound(index, parseInt(e.target.value))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Sweep length: {settings.sweepDuration} s
+          </label>
+          <input
+            type="range"
+            min={2}
+            max={20}
+            value={settings.sweepDuration}
+            onChange={(e) => onChange({ sweepDuration: parseInt(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mt-4">
+        <button
+          onClick={() => (playing === SWEEP_ID ? stop() : playSweep())}
+          className={`px-4 py-2 rounded-lg text-white transition-colors disabled:opacity-50 ${
+            playing === SWEEP_ID ? 'bg-red-500 hover:bg-red-600' : 'bg-blue-500 hover:bg-blue-600'
+          }`}
+        >
+          {playing === SWEEP_ID ? 'Stop sweep' : 'Play sweep'}
+        </button>
+        <button
+          onClick={() => onChange({ sweep: [snapRate(nyquistRate / 2), snapRate(nyquistRate * 1.5)] })}
+          className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+        >
+          Around the Nyquist rate
+        </button>
+        <button
+          onClick={() => void downloadWav(SWEEP_ID, `sweep-${fromRate}-${toRate}.wav`, renderSweep(chain, settings.sweep, {
+            audioRate: settings.audioRate,
+            duration: settings.sweepDuration,
+          }))}
+          disabled={exporting !== null}
+          className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          {exporting === SWEEP_ID ? 'Rendering…' : 'Sweep WAV'}
+        </button>
+      </div>
+      {exportError && <p className="mt-3 text-sm text-red-700">{exportError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+import {
+  bandOfSignal,
+  foldBand,
+  undersamplingRanges,
+  type SignalBand,
+} from '../utils/bandpass';
+import { MAX_COMPONENT_FREQUENCY, type SignalDefinition } from '../utils/samplingCalculator';
+
+interface BandpassPanelProps {
+  enabled: boolean;
+  band: SignalBand;
+  onChange: (changes: Partial<SignalBand> & { enabled?: boolean }) => void;
+  onLoadExample: () => void;
+  signal: SignalDefinition;
+  samplingRate: number;
+}
+
+const formatRate = (f: number) => parseFloat(f.toFixed(1)).toString();
+
+export function BandpassPanel({
+  enabled,
+  band,
+  onChange,
+  onLoadExample,
+  signal,
+  samplingRate,
+}: BandpassPanelProps) {
+  const bandwidth = band.high - band.low;
+  const ranges = undersamplingRanges(band);
+  const folded = foldBand(band, samplingRate);
+  const outside = signal.components.filter(
+    c => c.amplitude !== 0 && (c.frequency < band.low || c.frequency > band.high)
+  );
+
+  // Keep f_L below f_H while either slider moves
+  const setEdge = (edge: keyof SignalBand, value: number) => {
+    if (edge === 'low' ? value < band.high : value > band.low) onChange({ [edge]: value });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-2xl font-semibold text-gray-800">Bandpass Sampling</h2>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onChange({ enabled: e.target.checked })}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+          />
+          <span className="text-gray-700">Treat the signal as bandpass</span>
+        </label>
+      </div>
+      <p className="text-gray-600 mb-4">
+        A signal confined to <InlineMath math="[f_L, f_H]" /> only needs its replicas not to overlap, which
+        can happen well below <InlineMath math="2f_H" />:{' '}
+        <InlineMath math="\frac{2f_H}{n} \le f_s \le \frac{2f_L}{n-1}" /> for{' '}
+        <InlineMath math="n = 1, \dots, \lfloor f_H / B \rfloor" />, with <InlineMath math="B = f_H - f_L" />.
+      </p>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {(['low', 'high'] as const).map(edge => (
+              <div key={edge}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {edge === 'low' ? 'f_L' : 'f_H'}: {band[edge]} Hz
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_COMPONENT_FREQUENCY}
+                  step={5}
+                  value={band[edge]}
+                  onChange={(e) => setEdge(edge, parseInt(e.target.value))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+            ))}
+            <div className="flex flex-wrap items-start gap-2">
+              <button
+                onClick={() => {
+                  const fitted = bandOfSignal(signal);
+                  if (fitted.high > fitted.low) onChange(fitted);
+                }}
+                className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                Fit band to signal
+              </button>
+              <button
+                onClick={onLoadExample}
+                className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Load bandpass example
+              </button>
+            </div>
+          </div>
+
+          {outside.length > 0 && (
+            <p className="mt-3 text-sm text-red-700">
+              {outside.length} component{outside.length > 1 ? 's lie' : ' lies'} outside the band; the bandpass
+              rule only holds for the components inside it.
+            </p>
+          )}
+
+          <table className="w-full text-sm mt-6">
+            <thead>
+              <tr className="text-gray-600 border-b border-gray-200">
+                <th className="text-left py-2">n</th>
+                <th className="text-left py-2">Valid sampling rates</th>
+                <th className="text-left py-2">Band lands in</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ranges.map(r => {
+                const current = samplingRate >= r.min && samplingRate <= r.max;
+                return (
+                  <tr key={r.n} className={`border-b border-gray-100 ${current ? 'bg-green-50 font-semibold' : ''}`}>
+                    <td className="py-2">{r.n}</td>
+                    <td className="py-2">
+                      {r.max === Infinity
+                        ? `f_s ≥ ${formatRate(r.min)} Hz (baseband)`
+                        : `${formatRate(r.min)} Hz ≤ f_s ≤ ${formatRate(r.max)} Hz`}
+                    </td>
+                    <td className="py-2">
+                      Nyquist zone {r.n} ({r.n % 2 === 0 ? 'inverted' : 'upright'})
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-sm text-gray-600 mt-2">
+            Bandwidth <InlineMath math={`B = ${bandwidth} \\text{ Hz}`} />, so no rate below{' '}
+            <InlineMath math={`2B = ${2 * bandwidth} \\text{ Hz}`} /> can work. Rates on a range edge put a band
+            edge exactly on a multiple of <InlineMath math="f_s/2" />.
+          </p>
+
+          <div className={`mt-4 p-3 rounded-lg border-l-4 ${
+            folded.valid ? 'bg-violet-50 border-violet-500' : 'bg-red-50 border-red-500'
+          }`}>
+            {folded.valid ? (
+              <p className="text-gray-800">
+                At <InlineMath math={`f_s = ${samplingRate} \\text{ Hz}`} /> the band sits in Nyquist zone{' '}
+                {folded.zone + 1} and folds onto{' '}
+                <InlineMath math={`[${formatRate(folded.low)}, ${formatRate(folded.high)}] \\text{ Hz}`} />
+                {folded.inverted ? ', mirrored: f_L and f_H swap places.' : ', in its original orientation.'}
+              </p>
+            ) : (
+              <p className="text-red-700 font-semibold">
+                At f_s = {samplingRate} Hz the band straddles a multiple of f_s/2 and folds onto itself.
+              </p>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 mt-3">
+            The reconstruction methods below are low-pass: from valid bandpass samples they rebuild the folded
+            copy of the band, not the original. Recovering the band itself needs a bandpass interpolation kernel
+            (or shifting the folded band back up by the right multiple of <InlineMath math="f_s/2" />).
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { Stage, Layer, Line, Circle, Text } from 'react-konva';
+import type { BlockEntropy } from '../utils/entropyCalculator';
+
+interface BlockEntropyPlotProps {
+  blockEntropies: BlockEntropy[];
+  width: number;
+  height: number;
+  padding?: number;
+}
+
+export function BlockEntropyPlot({
+  blockEntropies,
+  width,
+  height,
+  padding = 50
+}: BlockEntropyPlotProps) {
+  const plotWidth = width - 2 * padding;
+  const plotHeight = height - 2 * padding;
+
+  const maxM = Math.max(blockEntropies.length, 1);
+  // Saturation bound: m-words can never have more than log₂(N - m + 1) bits
+  const saturation = blockEntropies.map(b => Math.log2(b.numWords));
+  const maxValue = Math.max(1, ...blockEntropies.map(b => b.entropy), ...saturation);
+
+  // Scale functions
+  const scaleX = (m: number) => padding + (maxM === 1 ? 0.5 : (m - 1) / (maxM - 1)) * plotWidth;
+  const scaleY = (value: number) => padding + plotHeight - (Math.max(0, value) / maxValue) * plotHeight;
+
+  const toPath = (values: number[]) =>
+    values.flatMap((value, i) => [scaleX(blockEntropies[i].m), scaleY(value)]);
+
+  // Grid lines
+  const gridLines: React.ReactElement[] = [];
+  for (let i = 0; i <= 4; i++) {
+    const y = padding + (i / 4) * plotHeight;
+    gridLines.push(
+      <Line
+        key={`h-${i}`}
+        points={[padding, y, padding + plotWidth, y]}
+        stroke="#e5e7eb"
+        strokeWidth={1}
+        dash={[5, 5]}
+      />
+    );
+  }
+
+  const yLabels = [0, 1, 2, 3, 4].map(i => {
+    const value = (i / 4) * maxValue;
+    return (
+      <Text
+        key={`y-label-${i}`}
+        x={padding - 40}
+        y={scaleY(value) - 6}
+        width={32}
+        text={value.toFixed(1)}
+        fontSize={12}
+        fill="#374151"
+        align="right"
+      />
+    );
+  });
+
+  const xLabels = blockEntropies.map(b => (
+    <Text
+      key={`x-label-${b.m}`}
+      x={scaleX(b.m) - 4}
+      y={padding + plotHeight + 10}
+      text={b.m.toString()}
+      fontSize={12}
+      fill="#374151"
+    />
+  ));
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <Stage width={width} height={height}>
+        <Layer>
+          {/* Grid */}
+          {gridLines}
+
+          {/* Axes */}
+          <Line
+            points={[padding, padding + plotHeight, padding + plotWidth, padding + plotHeight]}
+            stroke="#374151"
+            strokeWidth={2}
+          />
+          <Line
+            points={[padding, padding, padding, padding + plotHeight]}
+            stroke="#374151"
+            strokeWidth={2}
+          />
+
+          {/* Axis labels */}
+          {xLabels}
+          {yLabels}
+
+          {/* Axis titles */}
+          <Text
+            x={padding + plotWidth / 2 - 50}
+            y={height - 20}
+            text="Word length m"
+            fontSize={14}
+            fill="#374151"
+            fontStyle="bold"
+          />
+          <Text
+            x={8}
+            y={padding + plotHeight / 2 + 30}
+            text="Bits"
+            fontSize={14}
+            fill="#374151"
+            fontStyle="bold"
+            rotation={-90}
+          />
+
+          {/* Saturation bound */}
+          {blockEntropies.length > 1 && (
+            <Line
+              points={toPath(saturation)}
+              stroke="#9ca3af"
+              strokeWidth={1}
+              dash={[4, 4]}
+            />
+          )}
+
+          {/* Conditional entropy h_m */}
+          {blockEntropies.length > 1 && (
+            <Line
+              points={toPath(blockEntropies.map(b => b.conditionalEntropy))}
+              stroke="#10b981"
+              strokeWidth={2}
+              dash={[8, 4]}
+            />
+          )}
+
+          {/* Block entropy H_m */}
+          {blockEntropies.length > 1 && (
+            <Line
+              points={toPath(blockEntropies.map(b => b.entropy))}
+              stroke="#3b82f6"
+              strokeWidth={2}
+            />
+          )}
+
+          {blockEntropies.map(b => (
+            <Circle
+              key={`H-${b.m}`}
+              x={scaleX(b.m)}
+              y={scaleY(b.entropy)}
+              radius={5}
+              fill={b.reliable ? '#3b82f6' : '#ffffff'}
+              stroke={b.reliable ? '#1e40af' : '#dc2626'}
+              strokeWidth={2}
+            />
+          ))}
+
+          {blockEntropies.map(b => (
+            <Circle
+              key={`h-${b.m}`}
+              x={scaleX(b.m)}
+              y={scaleY(b.conditionalEntropy)}
+              radius={3}
+              fill="#10b981"
+            />
+          ))}
+
+          {/* Legend */}
+          <Text x={padding + 10} y={padding - 35} text="● H_m (block entropy)" fontSize={12} fill="#3b82f6" />
+          <Text x={padding + 170} y={padding - 35} text="● h_m = H_m − H_{m−1}" fontSize={12} fill="#10b981" />
+          <Text x={padding + 10} y={padding - 18} text="○ too few words (unreliable)" fontSize={12} fill="#dc2626" />
+          <Text x={padding + 170} y={padding - 18} text="- - log₂(N − m + 1) limit" fontSize={12} fill="#6b7280" />
+        </Layer>
+      </Stage>
+    </div>
+  );
+}
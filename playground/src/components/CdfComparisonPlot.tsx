@@ -0,0 +1,156 @@
+import { Stage, Layer, Line, Circle, Text } from 'react-konva';
+import type { KonvaEventObject } from 'konva/lib/Node';
+
+interface CdfComparisonPlotProps {
+  sourceCdf: number[];
+  targetCdf: number[];
+  matchedCdf: number[];
+  lut: number[];   // z for every input level r
+  level: number;   // Input level r traced through both CDFs
+  onLevelChange: (level: number) => void;
+  width: number;
+  height: number;
+  padding?: number;
+}
+
+const SOURCE_COLOR = '#6b7280';
+const TARGET_COLOR = '#10b981';
+const MATCHED_COLOR = '#2563eb';
+
+/**
+ * Input and target CDFs, with the path r → CDF_r(r) ≈ CDF_z(z) → z of one level
+ */
+export function CdfComparisonPlot({
+  sourceCdf,
+  targetCdf,
+  matchedCdf,
+  lut,
+  level,
+  onLevelChange,
+  width,
+  height,
+  padding = 40,
+}: CdfComparisonPlotProps) {
+  const plotWidth = width - padding - 15;
+  const plotHeight = height - padding - 35;
+  const top = 35;
+  const maxLevel = sourceCdf.length - 1;
+
+  const scaleX = (r: number) => padding + (r / maxLevel) * plotWidth;
+  const scaleY = (c: number) => top + plotHeight - c * plotHeight;
+  const curve = (cdf: number[]) => cdf.flatMap((c, r) => [scaleX(r), scaleY(c)]);
+
+  const z = lut[level];
+  const path = [
+    scaleX(level), scaleY(0),
+    scaleX(level), scaleY(sourceCdf[level]),
+    scaleX(z), scaleY(sourceCdf[level]),
+    scaleX(z), scaleY(0),
+  ];
+
+  const handleClick = (e: KonvaEventObject<MouseEvent>) => {
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    onLevelChange(Math.round(Math.max(0, Math.min(maxLevel, ((pointer.x - padding) / plotWidth) * maxLevel))));
+  };
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+
+  return (
+    <Stage width={width} height={height} onClick={handleClick}>
+      <Layer>
+        {ticks.map(t => (
+          <Line
+            key={`grid-${t}`}
+            points={[padding, scaleY(t), padding + plotWidth, scaleY(t)]}
+            stroke="#e5e7eb"
+            strokeWidth={1}
+          />
+        ))}
+
+        {/* Axes */}
+        <Line
+          points={[padding, scaleY(0), padding + plotWidth, scaleY(0)]}
+          stroke="#374151"
+          strokeWidth={1.5}
+        />
+        <Line
+          points={[padding, top, padding, scaleY(0)]}
+          stroke="#374151"
+          strokeWidth={1.5}
+        />
+        {ticks.map(t => (
+          <Text
+            key={`x-label-${t}`}
+            x={scaleX(t * maxLevel) - 15}
+            y={scaleY(0) + 6}
+            width={30}
+            text={`${Math.round(t * maxLevel)}`}
+            fontSize={10}
+            fill="#374151"
+            align="center"
+          />
+        ))}
+        {ticks.map(t => (
+          <Text
+            key={`y-label-${t}`}
+            x={0}
+            y={scaleY(t) - 5}
+            width={padding - 6}
+            text={`${t}`}
+            fontSize={10}
+            fill="#374151"
+            align="right"
+          />
+        ))}
+
+        {/* CDFs */}
+        <Line points={curve(sourceCdf)} stroke={SOURCE_COLOR} strokeWidth={2} />
+        <Line points={curve(targetCdf)} stroke={TARGET_COLOR} strokeWidth={2.5} />
+        <Line points={curve(matchedCdf)} stroke={MATCHED_COLOR} strokeWidth={1.5} dash={[6, 4]} />
+
+        {/* Path of the selected level */}
+        <Line points={path} stroke="#dc2626" strokeWidth={1.5} dash={[4, 3]} />
+        <Circle x={scaleX(level)} y={scaleY(sourceCdf[level])} radius={4} fill={SOURCE_COLOR} />
+        <Circle x={scaleX(z)} y={scaleY(targetCdf[z])} radius={4} fill={TARGET_COLOR} />
+        <Text
+          x={scaleX(level) - 20}
+          y={scaleY(0) - 14}
+          width={40}
+          text={`r = ${level}`}
+          fontSize={10}
+          fill="#dc2626"
+          fontStyle="bold"
+          align="center"
+        />
+        <Text
+          x={scaleX(z) - 20}
+          y={scaleY(0) - 26}
+          width={40}
+          text={`z = ${z}`}
+          fontSize={10}
+          fill="#dc2626"
+          fontStyle="bold"
+          align="center"
+        />
+
+        {/* Legend */}
+        {[
+          { label: 'Input CDF_r', color: SOURCE_COLOR },
+          { label: 'Target CDF_z', color: TARGET_COLOR },
+          { label: 'Result (dashed)', color: MATCHED_COLOR },
+        ].map((item, i) => (
+          <Text
+            key={item.label}
+            x={padding + i * 120}
+            y={8}
+            text={`— ${item.label}`}
+            fontSize={11}
+            fill={item.color}
+            fontStyle="bold"
+          />
+        ))}
+      </Layer>
+    </Stage>
+  );
+}
@@ -0,0 +1,143 @@
+import { Stage, Layer, Line, Rect, Text } from 'react-konva';
+import type { DensityEstimate } from '../utils/densityEstimation';
+
+interface DensityPlotProps {
+  estimate: DensityEstimate;
+  width: number;
+  height: number;
+  padding?: number;
+}
+
+export function DensityPlot({
+  estimate,
+  width,
+  height,
+  padding = 50
+}: DensityPlotProps) {
+  const plotWidth = width - 2 * padding;
+  const plotHeight = height - 2 * padding;
+  const { binEdges, probabilities, binWidth, pdf } = estimate;
+
+  // Histogram heights as densities p_i / Δ so they share the axis with the KDE
+  const densities = probabilities.map(p => p / (binWidth || 1));
+  const xMin = pdf.length > 0 ? pdf[0].x : -2;
+  const xMax = pdf.length > 0 ? pdf[pdf.length - 1].x : 2;
+  const maxDensity = Math.max(0.1, ...densities, ...pdf.map(p => p.density)) * 1.1;
+
+  // Scale functions
+  const scaleX = (x: number) => padding + ((x - xMin) / (xMax - xMin || 1)) * plotWidth;
+  const scaleY = (density: number) => padding + plotHeight - (density / maxDensity) * plotHeight;
+
+  const xLabels = [0, 1, 2, 3, 4].map(i => {
+    const x = xMin + (i / 4) * (xMax - xMin);
+    return (
+      <Text
+        key={`x-label-${i}`}
+        x={scaleX(x) - 12}
+        y={padding + plotHeight + 10}
+        text={x.toFixed(2)}
+        fontSize={12}
+        fill="#374151"
+      />
+    );
+  });
+
+  const yLabels = [0, 1, 2, 3, 4].map(i => {
+    const density = (i / 4) * maxDensity;
+    return (
+      <Text
+        key={`y-label-${i}`}
+        x={padding - 40}
+        y={scaleY(density) - 6}
+        width={32}
+        text={density.toFixed(2)}
+        fontSize={12}
+        fill="#374151"
+        align="right"
+      />
+    );
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <Stage width={width} height={height}>
+        <Layer>
+          {/* Histogram bars */}
+          {densities.map((density, i) => (
+            <Rect
+              key={`bin-${i}`}
+              x={scaleX(binEdges[i])}
+              y={scaleY(density)}
+              width={Math.max(1, scaleX(binEdges[i + 1]) - scaleX(binEdges[i]))}
+              height={scaleY(0) - scaleY(density)}
+              fill={estimate.mode === 'histogram' ? '#93c5fd' : '#dbeafe'}
+              stroke="#3b82f6"
+              strokeWidth={1}
+            />
+          ))}
+
+          {/* Axes */}
+          <Line
+            points={[padding, padding + plotHeight, padding + plotWidth, padding + plotHeight]}
+            stroke="#374151"
+            strokeWidth={2}
+          />
+          <Line
+            points={[padding, padding, padding, padding + plotHeight]}
+            stroke="#374151"
+            strokeWidth={2}
+          />
+
+          {/* Axis labels */}
+          {xLabels}
+          {yLabels}
+
+          {/* Axis titles */}
+          <Text
+            x={padding + plotWidth / 2 - 40}
+            y={height - 20}
+            text="Signal value x"
+            fontSize={14}
+            fill="#374151"
+            fontStyle="bold"
+          />
+          <Text
+            x={8}
+            y={padding + plotHeight / 2 + 30}
+            text="Density"
+            fontSize={14}
+            fill="#374151"
+            fontStyle="bold"
+            rotation={-90}
+          />
+
+          {/* KDE curve */}
+          {pdf.length > 1 && (
+            <Line
+              points={pdf.flatMap(p => [scaleX(p.x), scaleY(p.density)])}
+              stroke="#dc2626"
+              strokeWidth={estimate.mode === 'histogram' ? 1.5 : 2.5}
+              opacity={estimate.mode === 'histogram' ? 0.6 : 1}
+            />
+          )}
+
+          {/* Legend */}
+          <Text
+            x={padding + 10}
+            y={padding - 35}
+            text={`▮ Histogram (${probabilities.length} bins, Δ = ${binWidth.toFixed(3)})`}
+            fontSize={12}
+            fill="#3b82f6"
+          />
+          <Text
+            x={padding + 10}
+            y={padding - 18}
+            text={`— Gaussian KDE (h = ${estimate.bandwidth.toFixed(3)})`}
+            fontSize={12}
+            fill="#dc2626"
+          />
+        </Layer>
+      </Stage>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { motion } from 'framer-motion';
+import { StepByStepList } from './StepByStepList';
+import type { EqualizationResult } from '../utils/histogramEqualization';
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+
+interface EqualizationBreakdownProps {
+  result: EqualizationResult;
+  currentStep: number;
+  onStepChange: (step: number) => void;
+}
+
+// Step in which each table column is introduced
+const COLUMNS = [
+  { step: 0, header: 'n_k', cell: (r: EqualizationResult, k: number) => `${r.counts[k]}` },
+  { step: 1, header: 'p_r(r_k)', cell: (r: EqualizationResult, k: number) => r.pdf[k].toFixed(3) },
+  { step: 2, header: 'CDF(r_k)', cell: (r: EqualizationResult, k: number) => r.cdf[k].toFixed(3) },
+  { step: 3, header: '(L-1)\\,CDF', cell: (r: EqualizationResult, k: number) => ((r.levels - 1) * r.cdf[k]).toFixed(2) },
+  { step: 3, header: 's_k', cell: (r: EqualizationResult, k: number) => `${r.lut[k]}` },
+  { step: 4, header: 'p_s(s_k)', cell: (r: EqualizationResult, k: number) => (r.equalizedCounts[k] / r.total).toFixed(3) },
+];
+
+/**
+ * Walk-through of histogram equalization on a small histogram, one table column per step
+ */
+export function EqualizationBreakdown({ result, currentStep, onStepChange }: EqualizationBreakdownProps) {
+  const { levels, total } = result;
+
+  const formulaParts = [
+    {
+      id: 'pdf',
+      latex: `p_r(r_k) = \\frac{n_k}{MN}, \\quad MN = ${total}`,
+      description: 'Normalized histogram: the probability of each gray level',
+    },
+    {
+      id: 'continuous',
+      latex: 's = T(r) = (L - 1) \\int_0^r p_r(w)\\, dw',
+      description: 'Continuous case: mapping through the CDF makes p_s(s) uniform on [0, L − 1]',
+    },
+    {
+      id: 'discrete',
+      latex: `s_k = \\operatorname{round}\\left(${levels - 1} \\sum_{j=0}^{k} p_r(r_j)\\right), \\quad k = 0, \\ldots, ${levels - 1}`,
+      description: 'Discrete case: sums replace the integral and the result is rounded to a level',
+    },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h2 className="text-2xl font-bold mb-4 text-gray-800">
+        Worked Example: {Math.log2(levels)}-bit Image, L = {levels}
+      </h2>
+
+      {/* Formula Display */}
+      <div className="bg-blue-50 rounded-lg p-4 mb-6 border-l-4 border-blue-500">
+        <div className="space-y-3">
+          {formulaParts.map((part, index) => (
+            <motion.div
+              key={part.id}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.1 }}
+            >
+              <div className="text-lg text-gray-800 mb-1">
+                <InlineMath math={part.latex} />
+              </div>
+              <div className="text-sm text-gray-600 italic">{part.description}</div>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+
+      {/* Table filled in column by column */}
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm text-center">
+          <thead>
+            <tr className="text-gray-600 border-b border-gray-200">
+              <th className="py-2"><InlineMath math="r_k" /></th>
+              {COLUMNS.map(column => (
+                <th
+                  key={column.header}
+                  className={`py-2 ${column.step === currentStep ? 'bg-blue-100' : ''}`}
+                >
+                  <InlineMath math={column.header} />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {result.counts.map((_, k) => (
+              <tr key={k} className="border-b border-gray-100">
+                <td className="py-1 font-semibold">{k}</td>
+                {COLUMNS.map(column => (
+                  <td
+                    key={column.header}
+                    className={`py-1 font-mono ${column.step === currentStep ? 'bg-blue-50 font-semibold' : ''}`}
+                  >
+                    {column.step <= currentStep ? column.cell(result, k) : ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <StepByStepList
+        steps={result.stepByStep}
+        currentStep={currentStep}
+        onStepChange={onStepChange}
+      />
+    </div>
+  );
+}
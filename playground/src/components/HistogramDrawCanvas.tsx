@@ -0,0 +1,107 @@
+import { Stage, Layer, Line, Rect, Text } from 'react-konva';
+import { useRef } from 'react';
+import type { KonvaEventObject } from 'konva/lib/Node';
+
+interface HistogramDrawCanvasProps {
+  bins: number[];
+  maxValue: number;
+  onChange: (bins: number[]) => void;
+  width: number;
+  height: number;
+  padding?: number;
+}
+
+/**
+ * Paint a histogram by dragging over the bars: each bar under the pointer takes its height
+ */
+export function HistogramDrawCanvas({
+  bins,
+  maxValue,
+  onChange,
+  width,
+  height,
+  padding = 20,
+}: HistogramDrawCanvasProps) {
+  const drawingRef = useRef(false);
+  const lastRef = useRef<{ bin: number; value: number } | null>(null);
+  const plotWidth = width - 2 * padding;
+  const plotHeight = height - 2 * padding;
+  const barWidth = plotWidth / bins.length;
+  const baseline = padding + plotHeight;
+
+  const paint = (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    const bin = Math.floor((pointer.x - padding) / barWidth);
+    if (bin < 0 || bin >= bins.length) return;
+    const value = Math.round(Math.max(0, Math.min(1, (baseline - pointer.y) / plotHeight)) * maxValue);
+
+    // Fill the bars skipped by a fast stroke with a straight line from the previous one
+    const last = lastRef.current ?? { bin, value };
+    lastRef.current = { bin, value };
+    const [from, to] = last.bin <= bin ? [last, { bin, value }] : [{ bin, value }, last];
+    const next = bins.map((v, i) => {
+      if (i < from.bin || i > to.bin) return v;
+      if (from.bin === to.bin) return value;
+      return Math.round(from.value + ((i - from.bin) * (to.value - from.value)) / (to.bin - from.bin));
+    });
+    if (next.some((v, i) => v !== bins[i])) onChange(next);
+  };
+
+  const start = (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
+    drawingRef.current = true;
+    lastRef.current = null;
+    paint(e);
+  };
+
+  return (
+    <Stage
+      width={width}
+      height={height}
+      onMouseDown={start}
+      onMouseMove={(e) => { if (drawingRef.current) paint(e); }}
+      onMouseUp={() => { drawingRef.current = false; }}
+      onMouseLeave={() => { drawingRef.current = false; }}
+      onTouchStart={start}
+      onTouchMove={(e) => { if (drawingRef.current) paint(e); }}
+      onTouchEnd={() => { drawingRef.current = false; }}
+      style={{ cursor: 'crosshair' }}
+    >
+      <Layer>
+        <Rect x={padding} y={padding} width={plotWidth} height={plotHeight} fill="#f9fafb" />
+        {bins.map((value, i) => (
+          <Rect
+            key={`bar-${i}`}
+            x={padding + i * barWidth + 1}
+            y={baseline - (value / maxValue) * plotHeight}
+            width={barWidth - 2}
+            height={(value / maxValue) * plotHeight}
+            fill="#10b981"
+          />
+        ))}
+        <Line
+          points={[padding, baseline, padding + plotWidth, baseline]}
+          stroke="#374151"
+          strokeWidth={1.5}
+        />
+        <Text x={padding} y={baseline + 4} text="0" fontSize={10} fill="#374151" />
+        <Text
+          x={padding + plotWidth - 30}
+          y={baseline + 4}
+          width={30}
+          text="255"
+          fontSize={10}
+          fill="#374151"
+          align="right"
+        />
+        <Text
+          x={padding + 4}
+          y={4}
+          text="Drag over the bars to draw the target histogram"
+          fontSize={11}
+          fill="#6b7280"
+        />
+      </Layer>
+    </Stage>
+  );
+}
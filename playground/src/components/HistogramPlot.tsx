@@ -0,0 +1,122 @@
+import { Stage, Layer, Line, Rect, Text } from 'react-konva';
+
+interface HistogramPlotProps {
+  counts: number[];  // n_k for every level r_k = 0 … L - 1
+  width: number;
+  height: number;
+  color?: string;
+  cdf?: number[];  // Cumulative distribution drawn over the bars on a 0 … 1 scale
+  padding?: number;
+}
+
+export function HistogramPlot({
+  counts,
+  width,
+  height,
+  color = '#3b82f6',
+  cdf,
+  padding = 40,
+}: HistogramPlotProps) {
+  const plotWidth = width - padding - (cdf ? 30 : 10);
+  const plotHeight = height - padding - 10;
+  const levels = counts.length;
+  const maxCount = Math.max(1, counts.reduce((max, n) => Math.max(max, n), 0));
+
+  const scaleX = (level: number) => padding + (level / levels) * plotWidth;
+  const scaleY = (count: number) => 10 + plotHeight - (count / maxCount) * plotHeight;
+  const barWidth = plotWidth / levels;
+  const xTicks = [0, 0.25, 0.5, 0.75, 1].map(f => Math.round(f * (levels - 1)));
+
+  return (
+    <Stage width={width} height={height}>
+      <Layer>
+        {counts.map((count, level) =>
+          count > 0 ? (
+            <Rect
+              key={`bar-${level}`}
+              x={scaleX(level)}
+              y={scaleY(count)}
+              width={Math.max(1, barWidth - (barWidth > 4 ? 1 : 0))}
+              height={scaleY(0) - scaleY(count)}
+              fill={color}
+            />
+          ) : null
+        )}
+
+        {cdf && (
+          <>
+            <Line
+              points={cdf.flatMap((c, level) => [scaleX(level + 0.5), 10 + plotHeight * (1 - c)])}
+              stroke="#dc2626"
+              strokeWidth={2}
+            />
+            {[0, 1].map(c => (
+              <Text
+                key={`cdf-label-${c}`}
+                x={padding + plotWidth + 4}
+                y={10 + plotHeight * (1 - c) - 5}
+                text={`${c}`}
+                fontSize={10}
+                fill="#dc2626"
+              />
+            ))}
+            <Text
+              x={padding + plotWidth - 30}
+              y={12}
+              text="CDF"
+              fontSize={10}
+              fill="#dc2626"
+              fontStyle="bold"
+            />
+          </>
+        )}
+
+        {/* Axes */}
+        <Line
+          points={[padding, scaleY(0), padding + plotWidth, scaleY(0)]}
+          stroke="#374151"
+          strokeWidth={1.5}
+        />
+        <Line
+          points={[padding, 10, padding, scaleY(0)]}
+          stroke="#374151"
+          strokeWidth={1.5}
+        />
+
+        {xTicks.map(level => (
+          <Text
+            key={`x-label-${level}`}
+            x={scaleX(level + 0.5) - 15}
+            y={scaleY(0) + 6}
+            width={30}
+            text={`${level}`}
+            fontSize={10}
+            fill="#374151"
+            align="center"
+          />
+        ))}
+        {[0, 0.5, 1].map(f => (
+          <Text
+            key={`y-label-${f}`}
+            x={0}
+            y={scaleY(f * maxCount) - 5}
+            width={padding - 4}
+            text={`${Math.round(f * maxCount)}`}
+            fontSize={10}
+            fill="#374151"
+            align="right"
+          />
+        ))}
+        <Text
+          x={padding + plotWidth / 2 - 40}
+          y={height - 14}
+          width={80}
+          text="Level r_k"
+          fontSize={11}
+          fill="#374151"
+          align="center"
+        />
+      </Layer>
+    </Stage>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import type { UploadedImage } from '../hooks/useImageSource';
+import {
+  decodeImage,
+  LUMA_LABELS,
+  LUMA_STANDARDS,
+  TEST_IMAGE_LABELS,
+  TEST_IMAGES,
+  type GrayImage,
+  type LumaStandard,
+  type TestImage,
+} from '../utils/image';
+
+interface ImageSourcePickerProps {
+  image: GrayImage;  // Image currently in use, uploaded or built in
+  testImage: TestImage;
+  luma: LumaStandard;
+  uploaded: UploadedImage | null;
+  onChange: (changes: { testImage?: TestImage; luma?: LumaStandard }) => void;
+  onUpload: (uploaded: UploadedImage | null) => void;
+  label?: string;
+}
+
+/**
+ * Pick a built-in test image or upload a PNG/JPEG, converted to gray with BT.601 or BT.709 weights
+ */
+export function ImageSourcePicker({
+  image,
+  testImage,
+  luma,
+  uploaded,
+  onChange,
+  onUpload,
+  label = 'Image',
+}: ImageSourcePickerProps) {
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onUpload({ name: file.name, image: await decodeImage(file) });
+      setLoadError(null);
+    } catch {
+      setLoadError(`Could not decode ${file.name}`);
+    }
+  };
+
+  return (
+    <div>
+      <span className="block text-sm font-medium text-gray-700 mb-1">{label}</span>
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={uploaded ? '' : testImage}
+          onChange={(e) => {
+            onUpload(null);
+            onChange({ testImage: e.target.value as TestImage });
+          }}
+          className="rounded-lg border border-gray-300 p-1 text-sm"
+        >
+          {uploaded && <option value="">{uploaded.name}</option>}
+          {TEST_IMAGES.map(kind => (
+            <option key={kind} value={kind}>{TEST_IMAGE_LABELS[kind]}</option>
+          ))}
+        </select>
+        <label className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors cursor-pointer">
+          Load PNG/JPEG
+          <input
+            type="file"
+            accept="image/png,image/jpeg"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </label>
+        <span className="text-sm text-gray-600">{image.width} × {image.height}</span>
+      </div>
+      {uploaded && (
+        <div className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+          <span>Luminance</span>
+          {LUMA_STANDARDS.map(standard => (
+            <label key={standard} className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="radio"
+                checked={luma === standard}
+                onChange={() => onChange({ luma: standard })}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              <span>{LUMA_LABELS[standard]}</span>
+            </label>
+          ))}
+        </div>
+      )}
+      {loadError && <p className="text-sm text-red-700 mt-1">{loadError}</p>}
+    </div>
+  );
+}
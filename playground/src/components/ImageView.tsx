@@ -0,0 +1,118 @@
+import { Stage, Layer, Image as KonvaImage, Rect, Text } from 'react-konva';
+import { useMemo, useState } from 'react';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import { imageToCanvas, pixelAt, type RasterImage } from '../utils/image';
+
+interface ImageViewProps {
+  image: RasterImage;
+  width: number;
+  height: number;
+  inspector?: boolean;  // Show the value of the pixel under the pointer
+  overlay?: RasterImage;  // Same-size image drawn on top, e.g. a heat map
+  overlayOpacity?: number;
+  describe?: (x: number, y: number) => string;  // Extra text for the inspector readout
+}
+
+const MIN_READOUT_WIDTH = 150;
+const READOUT_CHAR_WIDTH = 6.6;
+
+/**
+ * Image scaled to fit the stage, keeping its aspect ratio and showing pixels as blocks when enlarged
+ */
+export function ImageView({
+  image,
+  width,
+  height,
+  inspector = true,
+  overlay,
+  overlayOpacity = 0.5,
+  describe,
+}: ImageViewProps) {
+  const canvas = useMemo(() => imageToCanvas(image), [image]);
+  const overlayCanvas = useMemo(() => (overlay ? imageToCanvas(overlay) : null), [overlay]);
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+
+  const scale = Math.min(width / image.width, height / image.height);
+  const displayWidth = image.width * scale;
+  const displayHeight = image.height * scale;
+  const left = (width - displayWidth) / 2;
+  const top = (height - displayHeight) / 2;
+
+  const handleMouseMove = (e: KonvaEventObject<MouseEvent>) => {
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    const x = Math.floor((pointer.x - left) / scale);
+    const y = Math.floor((pointer.y - top) / scale);
+    const inside = x >= 0 && y >= 0 && x < image.width && y < image.height;
+    setHover(inside ? { x, y } : null);
+  };
+
+  // A new image may be smaller than the last hovered position
+  const pixel = hover && hover.x < image.width && hover.y < image.height ? hover : null;
+  const values = pixel ? pixelAt(image, pixel.x, pixel.y) : [];
+  const readout = pixel
+    ? `(${pixel.x}, ${pixel.y})  ${image.channels === 1 ? `f = ${values[0]}` : `RGB ${values.join(', ')}`}` +
+      (describe ? `  ${describe(pixel.x, pixel.y)}` : '')
+    : '';
+  const readoutWidth = Math.max(MIN_READOUT_WIDTH, readout.length * READOUT_CHAR_WIDTH + 12);
+  const readoutX = pixel ? Math.max(0, Math.min(width - readoutWidth, left + (pixel.x + 1) * scale + 8)) : 0;
+  const readoutY = pixel ? Math.max(0, top + pixel.y * scale - 26) : 0;
+
+  return (
+    <Stage
+      width={width}
+      height={height}
+      onMouseMove={inspector ? handleMouseMove : undefined}
+      onMouseLeave={() => setHover(null)}
+    >
+      <Layer imageSmoothingEnabled={false}>
+        <KonvaImage
+          image={canvas}
+          x={left}
+          y={top}
+          width={displayWidth}
+          height={displayHeight}
+        />
+        {overlayCanvas && (
+          <KonvaImage
+            image={overlayCanvas}
+            x={left}
+            y={top}
+            width={displayWidth}
+            height={displayHeight}
+            opacity={overlayOpacity}
+          />
+        )}
+      </Layer>
+      {pixel && (
+        <Layer listening={false}>
+          <Rect
+            x={left + pixel.x * scale}
+            y={top + pixel.y * scale}
+            width={Math.max(scale, 3)}
+            height={Math.max(scale, 3)}
+            stroke="#ef4444"
+            strokeWidth={1.5}
+          />
+          <Rect
+            x={readoutX}
+            y={readoutY}
+            width={readoutWidth}
+            height={20}
+            fill="#1f2937"
+            opacity={0.85}
+            cornerRadius={4}
+          />
+          <Text
+            x={readoutX + 6}
+            y={readoutY + 5}
+            text={readout}
+            fontSize={11}
+            fontFamily="monospace"
+            fill="#ffffff"
+          />
+        </Layer>
+      )}
+    </Stage>
+  );
+}
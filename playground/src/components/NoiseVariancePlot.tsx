@@ -0,0 +1,118 @@
+import { Stage, Layer, Line, Circle, Text } from 'react-konva';
+
+interface NoiseVariancePlotProps {
+  measured: number[];  // Variance of the average of K = 1 … measured.length copies
+  variance: number;    // σ² of a single copy
+  copies: number;      // K currently shown
+  maxCopies: number;   // Extent of the K axis
+  width: number;
+  height: number;
+  padding?: number;
+}
+
+/**
+ * Measured noise variance against σ²/K on log-log axes, where 1/K is a straight line of slope -1
+ */
+export function NoiseVariancePlot({
+  measured,
+  variance,
+  copies,
+  maxCopies,
+  width,
+  height,
+  padding = 50,
+}: NoiseVariancePlotProps) {
+  const plotWidth = width - padding - 20;
+  const plotHeight = height - padding - 30;
+  const top = 30;
+  const axisMax = Math.max(2, maxCopies, measured.length);
+
+  const positive = measured.filter(v => v > 0);
+  const yMax = Math.max(variance, ...positive) * 1.5;
+  const yMin = Math.min(variance / axisMax, ...positive) / 1.5;
+
+  const scaleX = (k: number) => padding + (Math.log(k) / Math.log(axisMax)) * plotWidth;
+  const scaleY = (v: number) =>
+    top + plotHeight - ((Math.log(v) - Math.log(yMin)) / (Math.log(yMax) - Math.log(yMin))) * plotHeight;
+
+  const theoretical = Array.from({ length: axisMax }, (_, i) => [scaleX(i + 1), scaleY(variance / (i + 1))]).flat();
+  const kTicks = [1, 2, 4, 8, 16, 32, 64, 128].filter(k => k <= axisMax);
+  const yTicks: number[] = [];
+  for (let p = Math.ceil(Math.log10(yMin)); p <= Math.floor(Math.log10(yMax)); p++) yTicks.push(10 ** p);
+
+  return (
+    <Stage width={width} height={height}>
+      <Layer>
+        {yTicks.map(v => (
+          <Line
+            key={`grid-${v}`}
+            points={[padding, scaleY(v), padding + plotWidth, scaleY(v)]}
+            stroke="#e5e7eb"
+            strokeWidth={1}
+          />
+        ))}
+
+        {/* Axes */}
+        <Line
+          points={[padding, top + plotHeight, padding + plotWidth, top + plotHeight]}
+          stroke="#374151"
+          strokeWidth={1.5}
+        />
+        <Line
+          points={[padding, top, padding, top + plotHeight]}
+          stroke="#374151"
+          strokeWidth={1.5}
+        />
+        {kTicks.map(k => (
+          <Text
+            key={`x-label-${k}`}
+            x={scaleX(k) - 15}
+            y={top + plotHeight + 6}
+            width={30}
+            text={`${k}`}
+            fontSize={10}
+            fill="#374151"
+            align="center"
+          />
+        ))}
+        {yTicks.map(v => (
+          <Text
+            key={`y-label-${v}`}
+            x={0}
+            y={scaleY(v) - 5}
+            width={padding - 6}
+            text={`${v}`}
+            fontSize={10}
+            fill="#374151"
+            align="right"
+          />
+        ))}
+        <Text
+          x={padding + plotWidth / 2 - 60}
+          y={height - 16}
+          width={120}
+          text="Number of copies K"
+          fontSize={11}
+          fill="#374151"
+          align="center"
+        />
+
+        {/* σ²/K and the measurements */}
+        <Line points={theoretical} stroke="#10b981" strokeWidth={2} dash={[6, 4]} />
+        {measured.map((v, i) => (
+          <Circle
+            key={`measured-${i}`}
+            x={scaleX(i + 1)}
+            y={scaleY(Math.max(v, yMin))}
+            radius={i + 1 === copies ? 6 : 3}
+            fill={i + 1 === copies ? '#dc2626' : '#2563eb'}
+          />
+        ))}
+
+        {/* Legend */}
+        <Text x={padding + 10} y={6} text="● Measured variance" fontSize={11} fill="#2563eb" fontStyle="bold" />
+        <Text x={padding + 150} y={6} text="— σ²/K" fontSize={11} fill="#10b981" fontStyle="bold" />
+      </Layer>
+    </Stage>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import {
+  PROCESSES,
+  type ProcessType,
+  type ProcessParams,
+} from '../utils/stochasticProcesses';
+
+interface ProcessPickerProps {
+  type: ProcessType;
+  params: ProcessParams;
+  onTypeChange: (type: ProcessType) => void;
+  onParamsChange: (params: ProcessParams) => void;
+}
+
+interface ParamSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+function ParamSlider({ label, value, min, max, step, onChange }: ParamSliderProps) {
+  return (
+    <label className="block">
+      <span className="text-sm font-medium text-gray-700">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+      />
+    </label>
+  );
+}
+
+const sameValues = (a: number[], b: number[]) => a.length === b.length && a.every((value, i) => value === b[i]);
+
+export function ProcessPicker({ type, params, onTypeChange, onParamsChange }: ProcessPickerProps) {
+  const [coefficientsText, setCoefficientsText] = useState(params.arCoefficients.join(', '));
+  const [shownCoefficients, setShownCoefficients] = useState(params.arCoefficients);
+  const process = PROCESSES[type];
+  const update = (changes: Partial<ProcessParams>) => onParamsChange({ ...params, ...changes });
+
+  // Coefficients changed from outside (back/forward, a pasted URL): show them instead of the stale text
+  if (!sameValues(params.arCoefficients, shownCoefficients)) {
+    setShownCoefficients(params.arCoefficients);
+    setCoefficientsText(params.arCoefficients.join(', '));
+  }
+
+  const handleCoefficientsChange = (text: string) => {
+    setCoefficientsText(text);
+    const coefficients = text.split(',').map(c => parseFloat(c.trim()));
+    if (coefficients.length > 0 && coefficients.every(Number.isFinite)) {
+      setShownCoefficients(coefficients);
+      update({ arCoefficients: coefficients });
+    }
+  };
+
+  const usesVariance = ['white-gaussian', 'uniform', 'ar', 'random-walk'].includes(type);
+  const usesPeriod = type === 'sinusoid-in-noise' || type === 'periodic';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-800">Stochastic Process</h3>
+
+      <label className="block">
+        <span className="text-sm font-medium text-gray-700">Process</span>
+        <select
+          value={type}
+          onChange={(e) => onTypeChange(e.target.value as ProcessType)}
+          className="mt-1 block w-full rounded-lg border border-gray-300 p-2"
+        >
+          {Object.values(PROCESSES).map(p => (
+            <option key={p.type} value={p.type}>{p.name}</option>
+          ))}
+        </select>
+      </label>
+      <p className="text-sm text-gray-600">{process.description}</p>
+
+      {usesVariance && (
+        <ParamSlider
+          label={`Variance σ² = ${params.variance.toFixed(2)}`}
+          value={params.variance}
+          min={0.01}
+          max={1}
+          step={0.01}
+          onChange={(variance) => update({ variance })}
+        />
+      )}
+
+      {type === 'bernoulli' && (
+        <ParamSlider
+          label={`Probability p = ${params.probability.toFixed(2)}`}
+          value={params.probability}
+          min={0}
+          max={1}
+          step={0.05}
+          onChange={(probability) => update({ probability })}
+        />
+      )}
+
+      {type === 'ar' && (
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Coefficients φ₁, ..., φ_p</span>
+          <input
+            type="text"
+            value={coefficientsText}
+            onChange={(e) => handleCoefficientsChange(e.target.value)}
+            placeholder="0.8 or 0.5, -0.3"
+            className="mt-1 block w-full rounded-lg border border-gray-300 p-2 font-mono"
+          />
+        </label>
+      )}
+
+      {type === 'sinusoid-in-noise' && (
+        <ParamSlider
+          label={`SNR = ${params.snrDb} dB`}
+          value={params.snrDb}
+          min={-10}
+          max={30}
+          step={1}
+          onChange={(snrDb) => update({ snrDb })}
+        />
+      )}
+
+      {usesPeriod && (
+        <ParamSlider
+          label={`Period P = ${params.period} samples`}
+          value={params.period}
+          min={2}
+          max={50}
+          step={1}
+          onChange={(period) => update({ period })}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { Stage, Layer, Line, Text } from 'react-konva';
+
+interface QuantizationErrorPlotProps {
+  error: number[];
+  step: number;
+  width: number;
+  height: number;
+  padding?: number;
+}
+
+export function QuantizationErrorPlot({
+  error,
+  step,
+  width,
+  height,
+  padding = 50
+}: QuantizationErrorPlotProps) {
+  const plotWidth = width - 2 * padding;
+  const plotHeight = height - 2 * padding;
+
+  // Symmetric axis covering ±Δ, or the largest error when samples were clipped
+  const limit = Math.max(step, ...error.map(e => Math.abs(e))) * 1.1 || 1;
+  const scaleX = (n: number) => padding + (n / Math.max(1, error.length - 1)) * plotWidth;
+  const scaleY = (value: number) => padding + plotHeight / 2 - (value / limit) * (plotHeight / 2);
+
+  const stems = error.map((e, n) => (
+    <Line
+      key={`stem-${n}`}
+      points={[scaleX(n), scaleY(0), scaleX(n), scaleY(e)]}
+      stroke="#b45309"
+      strokeWidth={1.5}
+    />
+  ));
+
+  const bounds = [-step / 2, step / 2].map(value => (
+    <Line
+      key={`bound-${value}`}
+      points={[padding, scaleY(value), padding + plotWidth, scaleY(value)]}
+      stroke="#dc2626"
+      strokeWidth={1}
+      dash={[6, 4]}
+    />
+  ));
+
+  const yLabels = [-limit, -step / 2, 0, step / 2, limit].map((value, i) => (
+    <Text
+      key={`y-label-${i}`}
+      x={padding - 48}
+      y={scaleY(value) - 6}
+      width={42}
+      text={value.toPrecision(2)}
+      fontSize={10}
+      fill="#374151"
+      align="right"
+    />
+  ));
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <Stage width={width} height={height}>
+        <Layer>
+          {/* Axes */}
+          <Line
+            points={[padding, scaleY(0), padding + plotWidth, scaleY(0)]}
+            stroke="#374151"
+            strokeWidth={1}
+          />
+          <Line
+            points={[padding, padding, padding, padding + plotHeight]}
+            stroke="#374151"
+            strokeWidth={2}
+          />
+          {yLabels}
+
+          {/* ±Δ/2 bounds of the rounding error */}
+          {bounds}
+          {stems}
+
+          {/* Axis titles */}
+          <Text
+            x={padding + plotWidth / 2 - 40}
+            y={height - 20}
+            text={`Sample n (0 … ${Math.max(0, error.length - 1)})`}
+            fontSize={12}
+            fill="#374151"
+            fontStyle="bold"
+          />
+          <Text
+            x={padding}
+            y={padding - 25}
+            text="Quantization error e[n] = x_q[n] − x[n]"
+            fontSize={12}
+            fill="#374151"
+            fontStyle="bold"
+          />
+        </Layer>
+      </Stage>
+    </div>
+  );
+}
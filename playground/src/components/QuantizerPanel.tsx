@@ -0,0 +1,178 @@
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+import { QuantizationErrorPlot } from './QuantizationErrorPlot';
+import { formatDb } from '../utils/format';
+import type {
+  QuantizationResult,
+  QuantizerMode,
+  QuantizerOptions,
+  SqnrStats,
+} from '../utils/quantization';
+
+interface QuantizerPanelProps {
+  enabled: boolean;
+  options: QuantizerOptions;
+  onChange: (changes: Partial<QuantizerOptions> & { enabled?: boolean }) => void;
+  onFitRange: () => void;
+  result: QuantizationResult;
+  stats: SqnrStats;
+}
+
+const MODES: { value: QuantizerMode; label: string }[] = [
+  { value: 'round', label: 'Rounding (mid-rise)' },
+  { value: 'truncate', label: 'Truncation' },
+];
+
+export function QuantizerPanel({
+  enabled,
+  options,
+  onChange,
+  onFitRange,
+  result,
+  stats,
+}: QuantizerPanelProps) {
+  const [min, max] = options.range;
+  const levels = Math.pow(2, options.bits);
+
+  // Ignore partial input such as "" or "-" until it is a number
+  const setBound = (index: 0 | 1, raw: string) => {
+    const value = parseFloat(raw);
+    if (!Number.isFinite(value)) return;
+    const range: [number, number] = [...options.range];
+    range[index] = value;
+    if (range[1] > range[0]) onChange({ range });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-2xl font-semibold text-gray-800">Amplitude Quantization (ADC)</h2>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onChange({ enabled: e.target.checked })}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+          />
+          <span className="text-gray-700">Quantize the samples</span>
+        </label>
+      </div>
+      <p className="text-gray-600 mb-4">
+        A real converter also rounds every sample to one of <InlineMath math="L = 2^b" /> levels spaced{' '}
+        <InlineMath math="\Delta = (x_{\max} - x_{\min}) / 2^b" /> apart.
+      </p>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Bit depth b: {options.bits} bits ({levels} levels)
+              </label>
+              <input
+                type="range"
+                min={1}
+                max={16}
+                value={options.bits}
+                onChange={(e) => onChange({ bits: parseInt(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Input range</span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  step={0.5}
+                  value={min}
+                  onChange={(e) => setBound(0, e.target.value)}
+                  className="w-20 rounded-lg border border-gray-300 p-1"
+                />
+                <span className="text-gray-500">to</span>
+                <input
+                  type="number"
+                  step={0.5}
+                  value={max}
+                  onChange={(e) => setBound(1, e.target.value)}
+                  className="w-20 rounded-lg border border-gray-300 p-1"
+                />
+                <button
+                  onClick={onFitRange}
+                  className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                >
+                  Fit to signal
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Mode</span>
+                <select
+                  value={options.mode}
+                  onChange={(e) => onChange({ mode: e.target.value as QuantizerMode })}
+                  className="mt-1 block w-full rounded-lg border border-gray-300 p-2"
+                >
+                  {MODES.map(mode => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.dither}
+                  onChange={(e) => onChange({ dither: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-gray-700">Triangular dither (±Δ)</span>
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6 text-center">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <div className="text-sm text-gray-600">Step Δ</div>
+              <div className="text-xl font-bold text-gray-800">{result.step.toPrecision(3)}</div>
+            </div>
+            <div className="bg-blue-50 rounded-lg p-3">
+              <div className="text-sm text-gray-600">Measured SQNR</div>
+              <div className="text-xl font-bold text-gray-800">{formatDb(stats.measured)}</div>
+            </div>
+            <div className="bg-green-50 rounded-lg p-3">
+              <div className="text-sm text-gray-600">6.02·b + 1.76 (full-scale sine)</div>
+              <div className="text-xl font-bold text-gray-800">{stats.theoretical.toFixed(2)} dB</div>
+            </div>
+            <div className="bg-purple-50 rounded-lg p-3">
+              <div className="text-sm text-gray-600">
+                <InlineMath math="10\log_{10}(P_x / (\Delta^2/12))" />
+              </div>
+              <div className="text-xl font-bold text-gray-800">{formatDb(stats.expected)}</div>
+            </div>
+          </div>
+          {result.clipped > 0 && (
+            <p className="mt-3 text-sm text-red-700">
+              {result.clipped} of {result.error.length} samples fall outside the input range and are clipped.
+            </p>
+          )}
+
+          <div className="mt-6">
+            <QuantizationErrorPlot
+              error={result.error}
+              step={result.step}
+              width={900}
+              height={220}
+            />
+          </div>
+          <p className="text-sm text-gray-600 mt-3">
+            The theoretical value assumes a sinusoid spanning the whole input range. A signal that uses less of
+            the range, truncation (error biased by Δ/2) and dither (extra noise of power Δ²/6, but an error that
+            no longer depends on the signal) all lower the measured SQNR. The DC offset is excluded from
+            the signal power <InlineMath math="P_x" />.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,65 +1,99 @@
-import { Stage, Layer, Line, Circle, Text, Group } from 'react-konva';
-import { useMemo } from 'react';
+import { Stage, Layer, Line, Circle, Rect, Text, Group } from 'react-konva';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import { useMemo, useRef, useState } from 'react';
 import {
+  continuousPointCount,
   originalSignal,
-  sampleSignal,
-  sincReconstruct,
-  generateContinuousTimePoints,
-  generateSampleTimePoints,
+  reconstructWindow,
   getSamplingStatus,
-  SIGNAL_CONFIG,
+  getSignalConfig,
+  DEFAULT_SIGNAL,
+  type SampleClock,
+  type SignalDefinition,
 } from '../utils/samplingCalculator';
+import {
+  DEFAULT_HALF_WIDTH,
+  RECONSTRUCTION_LABELS,
+  type ReconstructionMethod,
+} from '../utils/reconstruction';
+import { quantizeSamples, quantizationStep, type QuantizerOptions } from '../utils/quantization';
+import type { SignalBand } from '../utils/bandpass';
 
 interface SamplingVisualizationProps {
   samplingRate: number;
   timeWindow: [number, number];
   width: number;
   height: number;
-  showReconstruction?: boolean;
+  reconstruction?: ReconstructionMethod | 'none';
+  halfWidth?: number;
+  signal?: SignalDefinition;
+  prefiltered?: SignalDefinition;  // Output of the anti-aliasing filter, sampled instead of signal
+  quantizer?: QuantizerOptions;    // ADC model applied to the samples
+  sampleOffset?: number;           // Sampling phase: samples at offset + n·Ts (s)
+  clock?: SampleClock;             // Jittered or random sampling instants
+  band?: SignalBand;               // Judge the rate by the bandpass rule
+  onTimeWindowChange?: (timeWindow: [number, number]) => void;  // Enables wheel zoom and drag panning
 }
 
+const ZOOM_FACTOR = 1.2; // Window scale per wheel step
+const CROSSHAIR_BOX_WIDTH = 270;
+
 export function SamplingVisualization({
   samplingRate,
   timeWindow: [tStart, tEnd],
   width,
   height,
-  showReconstruction = true,
+  reconstruction = 'sinc',
+  halfWidth = DEFAULT_HALF_WIDTH,
+  signal = DEFAULT_SIGNAL,
+  prefiltered,
+  quantizer,
+  sampleOffset = 0,
+  clock,
+  band,
+  onTimeWindowChange,
 }: SamplingVisualizationProps) {
   const padding = { top: 30, right: 20, bottom: 50, left: 60 };
   const plotWidth = width - padding.left - padding.right;
   const plotHeight = height - padding.top - padding.bottom;
 
-  // Generate data
-  const { originalData, sampledData, reconstructedData, sampleStatus } = useMemo(() => {
-    // Continuous signal
-    const continuousTimes = generateContinuousTimePoints(tStart, tEnd, 500);
-    const originalValues = continuousTimes.map(t => originalSignal(t));
-
-    // Sampled signal
-    const sampleTimes = generateSampleTimePoints(tStart, tEnd, samplingRate);
-    const sampleValues = sampleSignal(sampleTimes);
-
-    // Reconstructed signal (if enabled)
-    let reconstructedValues: number[] = [];
-    if (showReconstruction) {
-      reconstructedValues = continuousTimes.map(t =>
-        sincReconstruct(t, sampleTimes, sampleValues, 1 / samplingRate)
-      );
-    }
+  const showReconstruction = reconstruction !== 'none';
+  const method: ReconstructionMethod = reconstruction === 'none' ? 'sinc' : reconstruction;
 
-    const status = getSamplingStatus(samplingRate);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const dragRef = useRef<{ x: number; window: [number, number] } | null>(null);
+
+  // Generate data, denser as the window widens so the fastest component stays smooth
+  const { originalData, filteredData, sampledData, reconstructedData, sampleStatus, error } = useMemo(() => {
+    const sampled = prefiltered ?? signal;
+    const { fMax: signalMax } = getSignalConfig(signal);
+    const result = reconstructWindow(sampled, samplingRate, [tStart, tEnd], { method, halfWidth }, {
+      numPoints: continuousPointCount(tEnd - tStart, signalMax, samplingRate),
+      reference: signal,
+      quantize: quantizer ? values => quantizeSamples(values, quantizer).quantized : undefined,
+      offset: sampleOffset,
+      clock,
+    });
 
     return {
-      originalData: { times: continuousTimes, values: originalValues },
-      sampledData: { times: sampleTimes, values: sampleValues },
-      reconstructedData: { times: continuousTimes, values: reconstructedValues },
-      sampleStatus: status,
+      originalData: { times: result.times, values: result.original },
+      filteredData: {
+        times: result.times,
+        values: prefiltered ? result.times.map(t => originalSignal(t, prefiltered)) : [],
+      },
+      sampledData: { times: result.sampleTimes, values: result.samples },
+      reconstructedData: { times: result.times, values: showReconstruction ? result.reconstructed : [] },
+      sampleStatus: getSamplingStatus(samplingRate, sampled, band),
+      error: result.error,
     };
-  }, [samplingRate, tStart, tEnd, showReconstruction]);
+  }, [samplingRate, tStart, tEnd, method, showReconstruction, halfWidth, signal, prefiltered, quantizer, sampleOffset, clock, band]);
+
+  const { fMax, nyquistRate } = getSignalConfig(prefiltered ?? signal);
 
   // Find value range for scaling
   const allValues = [
     ...originalData.values,
+    ...filteredData.values,
     ...sampledData.values,
     ...(showReconstruction ? reconstructedData.values : []),
   ];
@@ -84,6 +118,43 @@ export function SamplingVisualization({
     originalPath.push(scaleY(originalData.values[i]));
   });
 
+  const filteredPath: number[] = [];
+  filteredData.values.forEach((value, i) => {
+    filteredPath.push(scaleX(filteredData.times[i]));
+    filteredPath.push(scaleY(value));
+  });
+
+  // Quantized samples held until the next sample, with the quantizer levels behind them
+  const staircasePath: number[] = [];
+  const levelLines: React.ReactElement[] = [];
+  if (quantizer) {
+    const Ts = 1 / samplingRate;
+    sampledData.times.forEach((t, i) => {
+      const y = scaleY(sampledData.values[i]);
+      staircasePath.push(scaleX(t), y, scaleX(Math.min(tEnd, t + Ts)), y);
+    });
+
+    const step = quantizationStep(quantizer);
+    const levels = Math.pow(2, quantizer.bits);
+    const visibleLevels = (valueRange + 2 * valuePadding) / step;
+    if (visibleLevels <= 64) {
+      const offset = quantizer.mode === 'round' ? 0.5 : 0;
+      for (let k = 0; k < levels; k++) {
+        const level = quantizer.range[0] + (k + offset) * step;
+        if (level < minValue - valuePadding || level > maxValue + valuePadding) continue;
+        levelLines.push(
+          <Line
+            key={`level-${k}`}
+            points={[padding.left, scaleY(level), padding.left + plotWidth, scaleY(level)]}
+            stroke="#fcd34d"
+            strokeWidth={1}
+            opacity={0.6}
+          />
+        );
+      }
+    }
+  }
+
   const reconstructedPath: number[] = [];
   if (showReconstruction) {
     reconstructedData.times.forEach((t, i) => {
@@ -123,7 +194,8 @@ export function SamplingVisualization({
     );
   }
 
-  // Axis labels
+  // Axis labels, with enough decimals to tell the grid lines apart when zoomed in
+  const timeDecimals = Math.max(3, Math.ceil(-Math.log10((tEnd - tStart) / numGridLinesX)) + 1);
   const xLabels: React.ReactElement[] = [];
   for (let i = 0; i <= numGridLinesX; i++) {
     const t = tStart + (i / numGridLinesX) * (tEnd - tStart);
@@ -133,7 +205,7 @@ export function SamplingVisualization({
         key={`x-label-${i}`}
         x={x - 15}
         y={padding.top + plotHeight + 10}
-        text={t.toFixed(3)}
+        text={t.toFixed(timeDecimals)}
         fontSize={10}
         fill="#374151"
       />
@@ -159,12 +231,88 @@ export function SamplingVisualization({
     );
   }
 
+  const span = tEnd - tStart;
+  const timeAt = (x: number) => tStart + ((x - padding.left) / plotWidth) * span;
+  const insidePlot = (x: number) => x >= padding.left && x <= padding.left + plotWidth;
+
+  // Zoom around the time under the pointer
+  const handleWheel = (e: KonvaEventObject<WheelEvent>) => {
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!onTimeWindowChange || !pointer || !insidePlot(pointer.x)) return;
+    e.evt.preventDefault();
+    const anchor = timeAt(pointer.x);
+    const factor = e.evt.deltaY > 0 ? ZOOM_FACTOR : 1 / ZOOM_FACTOR;
+    onTimeWindowChange([anchor - (anchor - tStart) * factor, anchor + (tEnd - anchor) * factor]);
+  };
+
+  const handleMouseDown = (e: KonvaEventObject<MouseEvent>) => {
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (onTimeWindowChange && pointer && insidePlot(pointer.x)) {
+      dragRef.current = { x: pointer.x, window: [tStart, tEnd] };
+    }
+  };
+
+  const handleMouseMove = (e: KonvaEventObject<MouseEvent>) => {
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    const drag = dragRef.current;
+    if (drag && onTimeWindowChange) {
+      const shift = ((drag.x - pointer.x) / plotWidth) * (drag.window[1] - drag.window[0]);
+      onTimeWindowChange([drag.window[0] + shift, drag.window[1] + shift]);
+    }
+    setCursor(insidePlot(pointer.x) ? timeAt(pointer.x) : null);
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  // Crosshair readout: x(t), the nearest sample and the reconstruction error at the cursor
+  const crosshair = (() => {
+    if (cursor === null || originalData.times.length < 2) return null;
+    const index = Math.round(((cursor - tStart) / span) * (originalData.times.length - 1));
+    const i = Math.max(0, Math.min(originalData.times.length - 1, index));
+    const t = originalData.times[i];
+    const value = originalData.values[i];
+    const nearest = sampledData.times.reduce(
+      (best, time, k) => (best < 0 || Math.abs(time - t) < Math.abs(sampledData.times[best] - t) ? k : best),
+      -1
+    );
+    const reconstructed = showReconstruction ? reconstructedData.values[i] : null;
+    const lines = [
+      `t = ${(t * 1000).toFixed(timeDecimals - 1)} ms`,
+      `x(t) = ${value.toFixed(4)}`,
+      nearest >= 0
+        ? `nearest sample: t = ${(sampledData.times[nearest] * 1000).toFixed(timeDecimals - 1)} ms, `
+          + `x = ${sampledData.values[nearest].toFixed(4)}`
+        : 'no sample in view',
+      ...(reconstructed !== null ? [`x̂(t) − x(t) = ${(reconstructed - value).toFixed(4)}`] : []),
+    ];
+    // Keep the readout inside the plot: to the right of the cursor, or to its left near the edge
+    const x = scaleX(t);
+    const boxX = x + CROSSHAIR_BOX_WIDTH + 12 > padding.left + plotWidth ? x - CROSSHAIR_BOX_WIDTH - 12 : x + 12;
+    return { t, value, reconstructed, nearest, boxX, text: lines.join('\n'), lineCount: lines.length };
+  })();
+
   return (
     <div className="bg-white rounded-lg shadow-lg p-4">
-      <Stage width={width} height={height}>
+      <Stage
+        width={width}
+        height={height}
+        onWheel={handleWheel}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={endDrag}
+        onMouseLeave={() => {
+          endDrag();
+          setCursor(null);
+        }}
+        style={{ cursor: onTimeWindowChange ? 'grab' : 'crosshair' }}
+      >
         <Layer>
           {/* Grid */}
           {gridLines}
+          {levelLines}
 
           {/* Axes */}
           <Line
@@ -219,6 +367,25 @@ export function SamplingVisualization({
             opacity={0.7}
           />
 
+          {/* Anti-aliasing filter output */}
+          {filteredPath.length > 0 && (
+            <Line
+              points={filteredPath}
+              stroke="#8b5cf6"
+              strokeWidth={2}
+              opacity={0.8}
+            />
+          )}
+
+          {/* Quantized samples (staircase) */}
+          {staircasePath.length > 0 && (
+            <Line
+              points={staircasePath}
+              stroke="#b45309"
+              strokeWidth={2}
+            />
+          )}
+
           {/* Reconstructed signal */}
           {showReconstruction && reconstructedPath.length > 0 && (
             <Line
@@ -246,6 +413,48 @@ export function SamplingVisualization({
             );
           })}
 
+          {/* Crosshair */}
+          {crosshair && (
+            <Group listening={false}>
+              <Line
+                points={[scaleX(crosshair.t), padding.top, scaleX(crosshair.t), padding.top + plotHeight]}
+                stroke="#6b7280"
+                strokeWidth={1}
+                dash={[4, 4]}
+              />
+              <Circle x={scaleX(crosshair.t)} y={scaleY(crosshair.value)} radius={4} fill="#3b82f6" />
+              {crosshair.reconstructed !== null && (
+                <Circle
+                  x={scaleX(crosshair.t)}
+                  y={scaleY(crosshair.reconstructed)}
+                  radius={4}
+                  stroke={sampleStatus.color}
+                  strokeWidth={2}
+                />
+              )}
+              {crosshair.nearest >= 0 && (
+                <Circle
+                  x={scaleX(sampledData.times[crosshair.nearest])}
+                  y={scaleY(sampledData.values[crosshair.nearest])}
+                  radius={7}
+                  stroke="#1f2937"
+                  strokeWidth={2}
+                />
+              )}
+              <Group x={crosshair.boxX} y={padding.top + 40}>
+                <Rect
+                  width={CROSSHAIR_BOX_WIDTH}
+                  height={crosshair.lineCount * 14 + 10}
+                  fill="white"
+                  opacity={0.9}
+                  stroke="#d1d5db"
+                  cornerRadius={4}
+                />
+                <Text x={6} y={6} text={crosshair.text} fontSize={11} lineHeight={1.27} fill="#1f2937" />
+              </Group>
+            </Group>
+          )}
+
           {/* Status indicator */}
           <Group>
             <Text
@@ -259,10 +468,21 @@ export function SamplingVisualization({
             <Text
               x={padding.left + 10}
               y={25}
-              text={`f_s = ${samplingRate} Hz | f_max = ${SIGNAL_CONFIG.fMax} Hz | Nyquist = ${SIGNAL_CONFIG.nyquistRate} Hz`}
+              text={`f_s = ${samplingRate} Hz | f_max = ${fMax} Hz | Nyquist = ${nyquistRate} Hz`}
               fontSize={10}
               fill="#6b7280"
             />
+            {showReconstruction && (
+              <Text
+                x={padding.left + plotWidth - 260}
+                y={10}
+                width={250}
+                text={`${RECONSTRUCTION_LABELS[method]}: RMS error ${error.toFixed(4)}`}
+                fontSize={11}
+                fill="#374151"
+                align="right"
+              />
+            )}
           </Group>
         </Layer>
       </Stage>
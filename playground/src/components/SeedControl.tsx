@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { MAX_SEED, parseSeed, randomSeed } from '../utils/random';
+
+interface SeedControlProps {
+  seed: number;
+  onChange: (seed: number) => void;
+}
+
+export function SeedControl({ seed, onChange }: SeedControlProps) {
+  const [text, setText] = useState(seed.toString());
+  const [prevSeed, setPrevSeed] = useState(seed);
+
+  // Follow seed changes coming from outside (new seed button, URL)
+  if (seed !== prevSeed) {
+    setPrevSeed(seed);
+    setText(seed.toString());
+  }
+
+  const handleChange = (value: string) => {
+    setText(value);
+    const parsed = parseSeed(value);
+    if (parsed !== null) onChange(parsed);
+  };
+
+  const isValid = parseSeed(text) !== null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <label className="block text-lg font-semibold text-gray-800 mb-2">
+        Random Seed
+      </label>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={0}
+          max={MAX_SEED}
+          value={text}
+          onChange={(e) => handleChange(e.target.value)}
+          className={`flex-1 rounded-lg border p-2 font-mono ${
+            isValid ? 'border-gray-300' : 'border-red-500'
+          }`}
+        />
+        <button
+          onClick={() => onChange(randomSeed())}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          New seed
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mt-2">
+        The same seed always produces the same signal. The seed is stored in the URL, so sharing
+        the link reproduces this exact figure.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+import {
+  componentToLatex,
+  DEFAULT_SIGNAL,
+  MAX_COMPONENT_FREQUENCY,
+  type SignalComponent,
+  type SignalDefinition,
+} from '../utils/samplingCalculator';
+
+interface SignalEditorProps {
+  signal: SignalDefinition;
+  onChange: (signal: SignalDefinition) => void;
+}
+
+const MAX_COMPONENTS = 8;
+
+export function SignalEditor({ signal, onChange }: SignalEditorProps) {
+  const { components, dc } = signal;
+
+  const updateComponent = (index: number, changes: Partial<SignalComponent>) => {
+    onChange({
+      ...signal,
+      components: components.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    });
+  };
+
+  const removeComponent = (index: number) => {
+    onChange({ ...signal, components: components.filter((_, i) => i !== index) });
+  };
+
+  const addComponent = () => {
+    onChange({
+      ...signal,
+      components: [...components, { type: 'cos', amplitude: 1, frequency: 150, phase: 0 }],
+    });
+  };
+
+  // Ignore partial input such as "" or "-" until it is a number
+  const parseInput = (value: string, apply: (x: number) => void) => {
+    const x = parseFloat(value);
+    if (Number.isFinite(x)) apply(x);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-semibold text-gray-800">Signal Editor</h2>
+        <button
+          onClick={() => onChange(DEFAULT_SIGNAL)}
+          className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+        >
+          Reset to lecture exercise
+        </button>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-600 border-b border-gray-200">
+            <th className="text-left py-2">Component</th>
+            <th className="text-left py-2">Type</th>
+            <th className="text-left py-2">Amplitude</th>
+            <th className="text-left py-2">Frequency (Hz)</th>
+            <th className="text-left py-2">Phase (× π rad)</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {components.map((component, index) => (
+            <tr key={index} className="border-b border-gray-100">
+              <td className="py-2 pr-2">
+                <InlineMath math={componentToLatex(component)} />
+              </td>
+              <td className="py-2 pr-2">
+                <select
+                  value={component.type}
+                  onChange={(e) => updateComponent(index, { type: e.target.value as SignalComponent['type'] })}
+                  className="rounded-lg border border-gray-300 p-1"
+                >
+                  <option value="cos">cos</option>
+                  <option value="sin">sin</option>
+                </select>
+              </td>
+              <td className="py-2 pr-2">
+                <input
+                  type="number"
+                  step={0.1}
+                  value={component.amplitude}
+                  onChange={(e) => parseInput(e.target.value, amplitude => updateComponent(index, { amplitude }))}
+                  className="w-24 rounded-lg border border-gray-300 p-1"
+                />
+              </td>
+              <td className="py-2 pr-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_COMPONENT_FREQUENCY}
+                  step={10}
+                  value={component.frequency}
+                  onChange={(e) => parseInput(e.target.value, frequency =>
+                    updateComponent(index, { frequency: Math.max(0, Math.min(MAX_COMPONENT_FREQUENCY, frequency)) })
+                  )}
+                  className="w-24 rounded-lg border border-gray-300 p-1"
+                />
+              </td>
+              <td className="py-2 pr-2">
+                <input
+                  type="number"
+                  step={0.25}
+                  value={parseFloat((component.phase / Math.PI).toFixed(4))}
+                  onChange={(e) => parseInput(e.target.value, ratio => updateComponent(index, { phase: ratio * Math.PI }))}
+                  className="w-24 rounded-lg border border-gray-300 p-1"
+                />
+              </td>
+              <td className="py-2 text-right">
+                <button
+                  onClick={() => removeComponent(index)}
+                  className="px-3 py-1 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  aria-label="Remove component"
+                >
+                  ✕
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex items-center justify-between mt-4">
+        <button
+          onClick={addComponent}
+          disabled={components.length >= MAX_COMPONENTS}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          + Add component
+        </button>
+        <label className="flex items-center gap-2 text-gray-700">
+          DC offset
+          <input
+            type="number"
+            step={0.5}
+            value={dc}
+            onChange={(e) => parseInput(e.target.value, value => onChange({ ...signal, dc: value }))}
+            className="w-24 rounded-lg border border-gray-300 p-1"
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -1,25 +1,36 @@
 import { Stage, Layer, Line, Circle, Text, Group } from 'react-konva';
 import type { SignalPoint } from '../utils/entropyCalculator';
 
+export interface SignalHighlight {
+  start: number;   // Position in the signal array of the first highlighted sample
+  length: number;
+  color: string;
+}
+
 interface SignalVisualizationProps {
   signal: SignalPoint[];
   width: number;
   height: number;
   padding?: number;
+  highlights?: SignalHighlight[];
+  valueRange?: [number, number];
+  onPointClick?: (position: number) => void;
 }
 
 export function SignalVisualization({
   signal,
   width,
   height,
-  padding = 40
+  padding = 40,
+  highlights = [],
+  valueRange = [-2, 2],
+  onPointClick
 }: SignalVisualizationProps) {
   const plotWidth = width - 2 * padding;
   const plotHeight = height - 2 * padding;
   
   const maxIndex = Math.max(...signal.map(p => p.index), 1);
-  const minValue = -2;
-  const maxValue = 2;
+  const [minValue, maxValue] = valueRange;
   
   // Scale functions
   const scaleX = (index: number) => padding + (index / maxIndex) * plotWidth;
@@ -82,7 +93,7 @@ export function SignalVisualization({
   });
   
   const yLabels: React.ReactElement[] = [];
-  const yTickValues = [-2, -1, 0, 1, 2];
+  const yTickValues = [0, 1, 2, 3, 4].map(i => minValue + (i / 4) * (maxValue - minValue));
   yTickValues.forEach((val, i) => {
     const y = scaleY(val);
     yLabels.push(
@@ -90,7 +101,7 @@ export function SignalVisualization({
         key={`y-label-${i}`}
         x={padding - 25}
         y={y - 6}
-        text={val.toString()}
+        text={Number.isInteger(val) ? val.toString() : val.toFixed(1)}
         fontSize={12}
         fill="#374151"
         align="right"
@@ -151,6 +162,35 @@ export function SignalVisualization({
             />
           )}
           
+          {/* Highlighted segments */}
+          {highlights.map((highlight, i) => {
+            const segment = signal.slice(highlight.start, highlight.start + highlight.length);
+            // A one-point line draws nothing (e.g. templates of length m = 1): mark the sample instead
+            if (segment.length === 1) {
+              return (
+                <Circle
+                  key={`highlight-${i}`}
+                  x={scaleX(segment[0].index)}
+                  y={scaleY(segment[0].value)}
+                  radius={7}
+                  fill={highlight.color}
+                  opacity={0.6}
+                />
+              );
+            }
+            return (
+              <Line
+                key={`highlight-${i}`}
+                points={segment.flatMap(point => [scaleX(point.index), scaleY(point.value)])}
+                stroke={highlight.color}
+                strokeWidth={6}
+                opacity={0.6}
+                lineCap="round"
+                lineJoin="round"
+              />
+            );
+          })}
+
           {/* Signal points */}
           {signal.map((point, index) => (
             <Circle
@@ -161,6 +201,9 @@ export function SignalVisualization({
               fill="#3b82f6"
               stroke="#1e40af"
               strokeWidth={1}
+              hitStrokeWidth={8}
+              onClick={onPointClick ? () => onPointClick(index) : undefined}
+              onTap={onPointClick ? () => onPointClick(index) : undefined}
             />
           ))}
           
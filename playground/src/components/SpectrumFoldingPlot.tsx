@@ -0,0 +1,284 @@
+import { Stage, Layer, Line, Circle, Rect, Text } from 'react-konva';
+import { useMemo } from 'react';
+import {
+  aliasedFrequency,
+  getSignalConfig,
+  sampledSpectrum,
+  type SignalDefinition,
+} from '../utils/samplingCalculator';
+import { foldBand, type SignalBand } from '../utils/bandpass';
+
+interface SpectrumFoldingPlotProps {
+  signal: SignalDefinition;
+  samplingRate: number;
+  width: number;
+  height: number;
+  band?: SignalBand;  // Bandpass mode: shade the band, its replicas and where it folds
+}
+
+const COMPONENT_COLORS = ['#3b82f6', '#10b981', '#8b5cf6', '#f59e0b', '#ec4899', '#14b8a6', '#6366f1', '#84cc16'];
+const DC_COLOR = '#6b7280';
+
+function componentColor(component: number): string {
+  return component < 0 ? DC_COLOR : COMPONENT_COLORS[component % COMPONENT_COLORS.length];
+}
+
+export function SpectrumFoldingPlot({
+  signal,
+  samplingRate,
+  width,
+  height,
+  band,
+}: SpectrumFoldingPlotProps) {
+  const padding = { top: 40, right: 20, bottom: 50, left: 60 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const { fMax } = getSignalConfig(signal);
+  const maxFrequency = Math.max(1.5 * samplingRate, 1.2 * fMax, 100);
+  const halfRate = samplingRate / 2;
+
+  const lines = useMemo(
+    () => sampledSpectrum(signal, samplingRate, maxFrequency),
+    [signal, samplingRate, maxFrequency]
+  );
+
+  // Scale to the sinusoids; a large DC term is clipped at the top and labelled
+  const sinusoidMagnitudes = lines.filter(l => l.component >= 0).map(l => l.magnitude);
+  const maxMagnitude = sinusoidMagnitudes.length > 0
+    ? Math.max(...sinusoidMagnitudes) * 1.25
+    : Math.max(1, ...lines.map(l => l.magnitude));
+
+  const scaleX = (f: number) =>
+    padding.left + ((f + maxFrequency) / (2 * maxFrequency)) * plotWidth;
+  const scaleY = (magnitude: number) =>
+    padding.top + plotHeight - (Math.min(magnitude, maxMagnitude) / maxMagnitude) * plotHeight;
+  const baseline = scaleY(0);
+
+  // Frequency ticks at multiples of f_s / 2
+  const ticks: number[] = [];
+  for (let k = -Math.floor(maxFrequency / halfRate); k * halfRate <= maxFrequency; k++) {
+    ticks.push(k * halfRate);
+  }
+
+  // Where each aliased component appears inside the folding band
+  const aliases = signal.components
+    .map((c, component) => ({ component, amplitude: c.amplitude, frequency: c.frequency }))
+    .filter(({ amplitude, frequency }) => amplitude !== 0 && frequency > halfRate)
+    .map(({ component, frequency }) => ({ component, frequency, alias: aliasedFrequency(frequency, samplingRate) }));
+
+  // Every replica ±[f_L, f_H] + k·f_s of the band within the plotted range
+  const bandReplicas: { from: number; to: number; original: boolean }[] = [];
+  if (band) {
+    const maxReplica = Math.ceil((maxFrequency + band.high) / samplingRate);
+    for (let k = -maxReplica; k <= maxReplica; k++) {
+      [1, -1].forEach(sign => {
+        const from = Math.max(-maxFrequency, Math.min(sign * band.low, sign * band.high) + k * samplingRate);
+        const to = Math.min(maxFrequency, Math.max(sign * band.low, sign * band.high) + k * samplingRate);
+        if (to > from) bandReplicas.push({ from, to, original: k === 0 && sign === 1 });
+      });
+    }
+  }
+  const foldedBand = band ? foldBand(band, samplingRate) : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <Stage width={width} height={height}>
+        <Layer>
+          {/* Band replicas, behind everything else */}
+          {bandReplicas.map((r, i) => (
+            <Rect
+              key={`band-${i}`}
+              x={scaleX(r.from)}
+              y={padding.top}
+              width={scaleX(r.to) - scaleX(r.from)}
+              height={plotHeight}
+              fill="#8b5cf6"
+              opacity={r.original ? 0.25 : 0.1}
+            />
+          ))}
+
+          {/* Folding band [-f_s/2, f_s/2] */}
+          <Rect
+            x={scaleX(-halfRate)}
+            y={padding.top}
+            width={scaleX(halfRate) - scaleX(-halfRate)}
+            height={plotHeight}
+            fill="#fef3c7"
+            opacity={0.6}
+          />
+          <Text
+            x={scaleX(-halfRate) + 4}
+            y={padding.top + 4}
+            text="−f_s/2 … f_s/2"
+            fontSize={10}
+            fill="#92400e"
+          />
+
+          {foldedBand && (
+            <>
+              <Rect
+                x={scaleX(foldedBand.low)}
+                y={padding.top}
+                width={scaleX(foldedBand.high) - scaleX(foldedBand.low)}
+                height={plotHeight}
+                stroke={foldedBand.valid ? '#7c3aed' : '#dc2626'}
+                strokeWidth={2}
+                dash={[6, 3]}
+              />
+              <Text
+                x={scaleX(foldedBand.low)}
+                y={padding.top - 16}
+                text={foldedBand.valid ? `folded band${foldedBand.inverted ? ' (inverted)' : ''}` : 'band overlaps itself'}
+                fontSize={10}
+                fill={foldedBand.valid ? '#7c3aed' : '#dc2626'}
+                fontStyle="bold"
+              />
+            </>
+          )}
+
+          {/* Replica centres at multiples of f_s */}
+          {ticks.map(f => {
+            const isMultiple = Math.round(f / halfRate) % 2 === 0;
+            return (
+              <Line
+                key={`tick-${f}`}
+                points={[scaleX(f), padding.top, scaleX(f), baseline]}
+                stroke={isMultiple ? '#d1d5db' : '#f59e0b'}
+                strokeWidth={1}
+                dash={[5, 5]}
+              />
+            );
+          })}
+
+          {/* Axes */}
+          <Line
+            points={[padding.left, baseline, padding.left + plotWidth, baseline]}
+            stroke="#374151"
+            strokeWidth={2}
+          />
+          <Line
+            points={[padding.left, padding.top, padding.left, baseline]}
+            stroke="#374151"
+            strokeWidth={2}
+          />
+
+          {/* Axis labels */}
+          {ticks.map(f => (
+            <Text
+              key={`x-label-${f}`}
+              x={scaleX(f) - 20}
+              y={baseline + 8}
+              width={40}
+              text={f.toFixed(0)}
+              fontSize={10}
+              fill="#374151"
+              align="center"
+            />
+          ))}
+          {[0, 0.5, 1].map(r => (
+            <Text
+              key={`y-label-${r}`}
+              x={padding.left - 50}
+              y={scaleY(r * maxMagnitude) - 6}
+              width={42}
+              text={(r * maxMagnitude).toFixed(2)}
+              fontSize={10}
+              fill="#374151"
+              align="right"
+            />
+          ))}
+
+          {/* Axis titles */}
+          <Text
+            x={padding.left + plotWidth / 2 - 50}
+            y={height - 20}
+            text="Frequency (Hz)"
+            fontSize={12}
+            fill="#374151"
+            fontStyle="bold"
+          />
+          <Text
+            x={10}
+            y={padding.top + plotHeight / 2 + 20}
+            text="|X(f)|"
+            fontSize={12}
+            fill="#374151"
+            fontStyle="bold"
+            rotation={-90}
+          />
+
+          {/* Spectral lines: original spectrum solid, replicas faded, replicas folded into the band dashed */}
+          {lines.map((line, i) => {
+            const x = scaleX(line.frequency);
+            const y = scaleY(line.magnitude);
+            const original = line.replica === 0;
+            const folded = !original && Math.abs(line.frequency) <= halfRate;
+            return (
+              <Line
+                key={`line-${i}`}
+                points={[x, baseline, x, y]}
+                stroke={componentColor(line.component)}
+                strokeWidth={original ? 3 : 2}
+                opacity={original || folded ? 1 : 0.4}
+                dash={folded ? [4, 3] : undefined}
+              />
+            );
+          })}
+          {lines.map((line, i) => (
+            <Circle
+              key={`head-${i}`}
+              x={scaleX(line.frequency)}
+              y={scaleY(line.magnitude)}
+              radius={4}
+              fill={componentColor(line.component)}
+              opacity={line.replica === 0 ? 1 : 0.4}
+            />
+          ))}
+          {lines
+            .filter(line => line.replica === 0 && line.magnitude > maxMagnitude)
+            .map((line, i) => (
+              <Text
+                key={`clipped-${i}`}
+                x={scaleX(line.frequency) + 6}
+                y={padding.top - 4}
+                text={`DC = ${line.magnitude}`}
+                fontSize={10}
+                fill={DC_COLOR}
+              />
+            ))}
+
+          {/* Component labels on the original spectrum */}
+          {signal.components.map((c, component) =>
+            c.amplitude !== 0 && c.frequency > 0 && c.frequency <= maxFrequency ? (
+              <Text
+                key={`label-${component}`}
+                x={scaleX(c.frequency) - 20}
+                y={scaleY(Math.abs(c.amplitude) / 2) - 16}
+                width={40}
+                text={`f${component + 1}`}
+                fontSize={11}
+                fill={componentColor(component)}
+                fontStyle="bold"
+                align="center"
+              />
+            ) : null
+          )}
+
+          {/* Aliases folded into the band */}
+          {aliases.map(({ component, frequency, alias }, i) => (
+            <Text
+              key={`alias-${component}`}
+              x={scaleX(alias) + 6}
+              y={padding.top + 20 + i * 14}
+              text={`f${component + 1}: ${frequency} Hz → ${parseFloat(alias.toFixed(2))} Hz`}
+              fontSize={11}
+              fill="#dc2626"
+              fontStyle="bold"
+            />
+          ))}
+        </Layer>
+      </Stage>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { SpectrumPlot } from './SpectrumPlot';
+import {
+  isPowerOfTwo,
+  ZERO_PAD_FACTORS,
+  type Spectrum,
+  type SpectrumView,
+  type WindowType,
+} from '../utils/fft';
+
+export interface SpectrumSettings {
+  window: WindowType;
+  zeroPadFactor: number;
+  powerOfTwo: boolean;
+  view: SpectrumView;
+}
+
+interface SpectrumPanelProps {
+  spectrum: Spectrum;
+  settings: SpectrumSettings;
+  onChange: (changes: Partial<SpectrumSettings>) => void;
+  numSamples: number;
+  frequencyUnit?: string;
+  width: number;
+  height: number;
+}
+
+const WINDOWS: { value: WindowType; label: string }[] = [
+  { value: 'rectangular', label: 'Rectangular' },
+  { value: 'hann', label: 'Hann' },
+  { value: 'hamming', label: 'Hamming' },
+  { value: 'blackman', label: 'Blackman' },
+];
+
+const VIEWS: { value: SpectrumView; label: string }[] = [
+  { value: 'magnitude', label: 'Magnitude' },
+  { value: 'phase', label: 'Phase' },
+  { value: 'psd', label: 'Power spectral density' },
+];
+
+export function SpectrumPanel({
+  spectrum,
+  settings,
+  onChange,
+  numSamples,
+  frequencyUnit = 'Hz',
+  width,
+  height,
+}: SpectrumPanelProps) {
+  const { magnitude, frequencies, fftSize, resolution } = spectrum;
+
+  // Strongest non-DC bin
+  let peak = Math.min(1, magnitude.length - 1);
+  for (let k = 2; k < magnitude.length; k++) {
+    if (magnitude[k] > magnitude[peak]) peak = k;
+  }
+  const formatFrequency = (f: number) => (resolution >= 0.1 ? f.toFixed(1) : f.toFixed(4));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Window</span>
+          <select
+            value={settings.window}
+            onChange={(e) => onChange({ window: e.target.value as WindowType })}
+            className="mt-1 block w-full rounded-lg border border-gray-300 p-2"
+          >
+            {WINDOWS.map(w => (
+              <option key={w.value} value={w.value}>{w.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Zero-padding</span>
+          <select
+            value={settings.zeroPadFactor}
+            onChange={(e) => onChange({ zeroPadFactor: parseInt(e.target.value) })}
+            className="mt-1 block w-full rounded-lg border border-gray-300 p-2"
+          >
+            {ZERO_PAD_FACTORS.map(factor => (
+              <option key={factor} value={factor}>{factor === 1 ? 'None' : `${factor}× length`}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">View</span>
+          <select
+            value={settings.view}
+            onChange={(e) => onChange({ view: e.target.value as SpectrumView })}
+            className="mt-1 block w-full rounded-lg border border-gray-300 p-2"
+          >
+            {VIEWS.map(v => (
+              <option key={v.value} value={v.value}>{v.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.powerOfTwo}
+          onChange={(e) => onChange({ powerOfTwo: e.target.checked })}
+          className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+        />
+        <span className="text-gray-700">Round the FFT length up to a power of two (radix-2 FFT instead of a direct DFT)</span>
+      </label>
+
+      <SpectrumPlot
+        spectrum={spectrum}
+        view={settings.view}
+        width={width}
+        height={height}
+        frequencyUnit={frequencyUnit}
+      />
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center text-sm">
+        <div className="bg-blue-50 rounded-lg p-3">
+          <div className="text-gray-600">Samples</div>
+          <div className="font-bold text-gray-800">{numSamples}</div>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-3">
+          <div className="text-gray-600">FFT size</div>
+          <div className="font-bold text-gray-800">
+            {fftSize} ({isPowerOfTwo(fftSize) ? 'radix-2' : 'direct DFT'})
+          </div>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-3">
+          <div className="text-gray-600">Bin spacing</div>
+          <div className="font-bold text-gray-800">{formatFrequency(resolution)} {frequencyUnit}</div>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-3">
+          <div className="text-gray-600">Strongest non-DC peak</div>
+          <div className="font-bold text-gray-800">
+            {magnitude.length > 1 ? `${formatFrequency(frequencies[peak])} ${frequencyUnit}` : '—'}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { Stage, Layer, Line, Circle, Text } from 'react-konva';
+import type { Spectrum, SpectrumView } from '../utils/fft';
+
+interface SpectrumPlotProps {
+  spectrum: Spectrum;
+  view: SpectrumView;
+  width: number;
+  height: number;
+  frequencyUnit?: string;
+  padding?: number;
+}
+
+const PSD_FLOOR_DB = -80;  // Dynamic range below the PSD peak
+const PHASE_THRESHOLD = 0.01; // Hide the phase of bins below 1% of the peak magnitude
+
+function toDecibels(psd: number[]): number[] {
+  const peak = Math.max(1e-30, ...psd);
+  const peakDb = 10 * Math.log10(peak);
+  return psd.map(p => Math.max(peakDb + PSD_FLOOR_DB, 10 * Math.log10(Math.max(p, 1e-30))));
+}
+
+export function SpectrumPlot({
+  spectrum,
+  view,
+  width,
+  height,
+  frequencyUnit = 'Hz',
+  padding = 50
+}: SpectrumPlotProps) {
+  const plotWidth = width - 2 * padding;
+  const plotHeight = height - 2 * padding;
+  const { frequencies, magnitude, phase, psd } = spectrum;
+
+  const values = view === 'magnitude' ? magnitude : view === 'psd' ? toDecibels(psd) : phase;
+  const [yMin, yMax] = view === 'phase'
+    ? [-Math.PI, Math.PI]
+    : view === 'psd'
+      ? [Math.min(...values), Math.max(...values) + 5]
+      : [0, Math.max(1e-6, ...values) * 1.1];
+  const fMax = frequencies.length > 0 ? frequencies[frequencies.length - 1] : 0.5;
+
+  // Scale functions
+  const scaleX = (f: number) => padding + (f / (fMax || 1)) * plotWidth;
+  const scaleY = (value: number) => padding + plotHeight - ((value - yMin) / (yMax - yMin || 1)) * plotHeight;
+
+  const path = values.flatMap((value, k) => [scaleX(frequencies[k]), scaleY(value)]);
+  const peakMagnitude = Math.max(0, ...magnitude);
+
+  const xLabels = [0, 1, 2, 3, 4].map(i => {
+    const f = (i / 4) * fMax;
+    return (
+      <Text
+        key={`x-label-${i}`}
+        x={scaleX(f) - 20}
+        y={padding + plotHeight + 10}
+        width={40}
+        text={fMax >= 10 ? f.toFixed(0) : f.toFixed(3)}
+        fontSize={12}
+        fill="#374151"
+        align="center"
+      />
+    );
+  });
+
+  const yLabels = [0, 1, 2, 3, 4].map(i => {
+    const value = yMin + (i / 4) * (yMax - yMin);
+    return (
+      <Text
+        key={`y-label-${i}`}
+        x={padding - 44}
+        y={scaleY(value) - 6}
+        width={38}
+        text={view === 'psd' ? value.toFixed(0) : value.toFixed(2)}
+        fontSize={12}
+        fill="#374151"
+        align="right"
+      />
+    );
+  });
+
+  const gridLines = [0, 1, 2, 3, 4].map(i => {
+    const y = padding + (i / 4) * plotHeight;
+    return (
+      <Line
+        key={`h-${i}`}
+        points={[padding, y, padding + plotWidth, y]}
+        stroke="#e5e7eb"
+        strokeWidth={1}
+        dash={[5, 5]}
+      />
+    );
+  });
+
+  const yTitle = view === 'magnitude' ? '|X(f)|' : view === 'psd' ? 'PSD (dB)' : 'Phase (rad)';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <Stage width={width} height={height}>
+        <Layer>
+          {/* Grid */}
+          {gridLines}
+
+          {/* Axes */}
+          <Line
+            points={[padding, padding + plotHeight, padding + plotWidth, padding + plotHeight]}
+            stroke="#374151"
+            strokeWidth={2}
+          />
+          <Line
+            points={[padding, padding, padding, padding + plotHeight]}
+            stroke="#374151"
+            strokeWidth={2}
+          />
+
+          {/* Axis labels */}
+          {xLabels}
+          {yLabels}
+
+          {/* Axis titles */}
+          <Text
+            x={padding + plotWidth / 2 - 50}
+            y={height - 20}
+            text={`Frequency (${frequencyUnit})`}
+            fontSize={12}
+            fill="#374151"
+            fontStyle="bold"
+          />
+          <Text
+            x={padding}
+            y={padding - 25}
+            text={yTitle}
+            fontSize={12}
+            fill="#374151"
+            fontStyle="bold"
+          />
+
+          {view === 'phase' ? (
+            // Phase as points: the phase of bins with negligible magnitude is meaningless
+            phase.map((value, k) => (
+              magnitude[k] >= PHASE_THRESHOLD * peakMagnitude ? (
+                <Circle
+                  key={`phase-${k}`}
+                  x={scaleX(frequencies[k])}
+                  y={scaleY(value)}
+                  radius={2}
+                  fill="#8b5cf6"
+                />
+              ) : null
+            ))
+          ) : (
+            <Line
+              points={path}
+              stroke={view === 'psd' ? '#f59e0b' : '#3b82f6'}
+              strokeWidth={2}
+            />
+          )}
+        </Layer>
+      </Stage>
+    </div>
+  );
+}
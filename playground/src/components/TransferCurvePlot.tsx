@@ -0,0 +1,167 @@
+import { Stage, Layer, Line, Circle, Text } from 'react-konva';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import type { ControlPoint } from '../utils/intensityTransforms';
+
+interface TransferCurvePlotProps {
+  lut: ArrayLike<number>;  // s_k = T(r_k) for every level
+  width: number;
+  height: number;
+  points?: ControlPoint[];  // Draggable control points, sorted by r
+  onPointChange?: (index: number, point: ControlPoint) => void;
+  xLabel?: string;
+  yLabel?: string;
+  padding?: number;
+}
+
+/**
+ * Transfer curve s = T(r) against the identity, optionally with draggable control points
+ */
+export function TransferCurvePlot({
+  lut,
+  width,
+  height,
+  points = [],
+  onPointChange,
+  xLabel = 'Input r',
+  yLabel = 'Output s',
+  padding = 40,
+}: TransferCurvePlotProps) {
+  const plotWidth = width - padding - 15;
+  const plotHeight = height - padding - 15;
+  const maxLevel = lut.length - 1;
+
+  const scaleX = (r: number) => padding + (r / maxLevel) * plotWidth;
+  const scaleY = (s: number) => 15 + plotHeight - (s / maxLevel) * plotHeight;
+  const toLevel = (value: number) => Math.round(Math.max(0, Math.min(maxLevel, value)));
+  const levelAtX = (x: number) => toLevel(((x - padding) / plotWidth) * maxLevel);
+  const levelAtY = (y: number) => toLevel(((15 + plotHeight - y) / plotHeight) * maxLevel);
+
+  const curve = Array.from(lut).flatMap((s, r) => [scaleX(r), scaleY(s)]);
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(f => Math.round(f * maxLevel));
+
+  // Each point stays between its neighbours so the curve keeps its order
+  const bound = (index: number) => (pos: { x: number; y: number }) => {
+    const minR = index > 0 ? points[index - 1].r : 0;
+    const maxR = index < points.length - 1 ? points[index + 1].r : maxLevel;
+    const r = Math.max(minR, Math.min(maxR, levelAtX(pos.x)));
+    return { x: scaleX(r), y: scaleY(levelAtY(pos.y)) };
+  };
+
+  const handleDrag = (index: number) => (e: KonvaEventObject<DragEvent>) => {
+    onPointChange?.(index, { r: levelAtX(e.target.x()), s: levelAtY(e.target.y()) });
+  };
+
+  return (
+    <Stage width={width} height={height}>
+      <Layer>
+        {/* Grid */}
+        {ticks.map(level => (
+          <Line
+            key={`grid-x-${level}`}
+            points={[scaleX(level), 15, scaleX(level), scaleY(0)]}
+            stroke="#e5e7eb"
+            strokeWidth={1}
+          />
+        ))}
+        {ticks.map(level => (
+          <Line
+            key={`grid-y-${level}`}
+            points={[padding, scaleY(level), padding + plotWidth, scaleY(level)]}
+            stroke="#e5e7eb"
+            strokeWidth={1}
+          />
+        ))}
+
+        {/* Identity s = r */}
+        <Line
+          points={[scaleX(0), scaleY(0), scaleX(maxLevel), scaleY(maxLevel)]}
+          stroke="#9ca3af"
+          strokeWidth={1}
+          dash={[5, 5]}
+        />
+
+        {/* Axes */}
+        <Line
+          points={[padding, scaleY(0), padding + plotWidth, scaleY(0)]}
+          stroke="#374151"
+          strokeWidth={1.5}
+        />
+        <Line
+          points={[padding, 15, padding, scaleY(0)]}
+          stroke="#374151"
+          strokeWidth={1.5}
+        />
+        {ticks.map(level => (
+          <Text
+            key={`x-label-${level}`}
+            x={scaleX(level) - 15}
+            y={scaleY(0) + 6}
+            width={30}
+            text={`${level}`}
+            fontSize={10}
+            fill="#374151"
+            align="center"
+          />
+        ))}
+        {ticks.map(level => (
+          <Text
+            key={`y-label-${level}`}
+            x={0}
+            y={scaleY(level) - 5}
+            width={padding - 6}
+            text={`${level}`}
+            fontSize={10}
+            fill="#374151"
+            align="right"
+          />
+        ))}
+        <Text
+          x={padding + plotWidth / 2 - 40}
+          y={height - 14}
+          width={80}
+          text={xLabel}
+          fontSize={11}
+          fill="#374151"
+          align="center"
+        />
+        <Text
+          x={2}
+          y={15 + plotHeight / 2 + 30}
+          text={yLabel}
+          fontSize={11}
+          fill="#374151"
+          rotation={-90}
+        />
+
+        {/* T(r) */}
+        <Line points={curve} stroke="#2563eb" strokeWidth={2.5} />
+
+        {points.map((p, index) => (
+          <Circle
+            key={`point-${index}`}
+            x={scaleX(p.r)}
+            y={scaleY(p.s)}
+            radius={7}
+            fill="#dc2626"
+            stroke="#ffffff"
+            strokeWidth={2}
+            draggable={!!onPointChange}
+            dragBoundFunc={bound(index)}
+            onDragMove={handleDrag(index)}
+          />
+        ))}
+        {points.map((p, index) => (
+          <Text
+            key={`point-label-${index}`}
+            x={p.r > 0.6 * maxLevel ? scaleX(p.r) - 150 : scaleX(p.r) + 10}
+            y={p.s > 0.9 * maxLevel ? scaleY(p.s) + 10 : scaleY(p.s) - 18}
+            text={`(r${index + 1}, s${index + 1}) = (${p.r}, ${p.s})`}
+            fontSize={11}
+            fill="#dc2626"
+            fontStyle="bold"
+          />
+        ))}
+      </Layer>
+    </Stage>
+  );
+}
@@ -0,0 +1,88 @@
+import { Stage, Layer, Line, Rect, Text } from 'react-konva';
+import type { UndersamplingRange } from '../utils/bandpass';
+
+interface UndersamplingChartProps {
+  ranges: UndersamplingRange[];
+  samplingRate: number;
+  minRate: number;
+  maxRate: number;
+  width: number;
+  height: number;
+  padding?: number;
+}
+
+export function UndersamplingChart({
+  ranges,
+  samplingRate,
+  minRate,
+  maxRate,
+  width,
+  height,
+  padding = 30,
+}: UndersamplingChartProps) {
+  const plotWidth = width - 2 * padding;
+  const barTop = 18;
+  const barHeight = height - barTop - 24;
+
+  const scaleX = (f: number) =>
+    padding + ((Math.min(maxRate, Math.max(minRate, f)) - minRate) / (maxRate - minRate)) * plotWidth;
+
+  const visible = ranges.filter(r => r.max >= minRate && r.min <= maxRate);
+  const ticks = Array.from({ length: 10 }, (_, i) => minRate + (i * (maxRate - minRate)) / 9);
+
+  return (
+    <Stage width={width} height={height}>
+      <Layer>
+        {/* Invalid rates behind, valid ranges on top */}
+        <Rect x={padding} y={barTop} width={plotWidth} height={barHeight} fill="#fee2e2" />
+        {visible.map(r => {
+          const x = scaleX(r.min);
+          const rangeWidth = Math.max(2, scaleX(r.max) - x);
+          return (
+            <Rect
+              key={`range-${r.n}`}
+              x={x}
+              y={barTop}
+              width={rangeWidth}
+              height={barHeight}
+              fill="#bbf7d0"
+              stroke="#16a34a"
+              strokeWidth={1}
+            />
+          );
+        })}
+        {visible.map(r => (
+          <Text
+            key={`range-label-${r.n}`}
+            x={scaleX(r.min)}
+            y={2}
+            text={`n = ${r.n}`}
+            fontSize={10}
+            fill="#15803d"
+            fontStyle="bold"
+          />
+        ))}
+
+        {/* Current sampling rate */}
+        <Line
+          points={[scaleX(samplingRate), barTop - 4, scaleX(samplingRate), barTop + barHeight + 4]}
+          stroke="#1f2937"
+          strokeWidth={3}
+        />
+
+        {ticks.map(f => (
+          <Text
+            key={`tick-${f}`}
+            x={scaleX(f) - 20}
+            y={barTop + barHeight + 8}
+            width={40}
+            text={f.toFixed(0)}
+            fontSize={10}
+            fill="#374151"
+            align="center"
+          />
+        ))}
+      </Layer>
+    </Stage>
+  );
+}
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createAudioBuffer } from '../utils/audio';
+
+/**
+ * Plays one rendered buffer at a time through a lazily created AudioContext
+ * The context is only created on the first play, inside the user gesture browsers require
+ */
+export function useAudioPlayer() {
+  const contextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const frameRef = useRef(0);
+  const [playing, setPlaying] = useState<string | null>(null);
+
+  const stop = useCallback(() => {
+    cancelAnimationFrame(frameRef.current);
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+    setPlaying(null);
+  }, []);
+
+  /**
+   * Start playback of the samples under the given id; onProgress receives the elapsed seconds every frame
+   */
+  const play = useCallback((
+    samples: Float32Array,
+    audioRate: number,
+    id: string,
+    onProgress?: (elapsed: number) => void
+  ) => {
+    stop();
+    const context = contextRef.current ?? new AudioContext();
+    contextRef.current = context;
+    void context.resume();
+
+    const source = context.createBufferSource();
+    source.buffer = createAudioBuffer(context, samples, audioRate);
+    source.connect(context.destination);
+    source.onended = () => {
+      if (sourceRef.current !== source) return;
+      cancelAnimationFrame(frameRef.current);
+      sourceRef.current = null;
+      setPlaying(null);
+    };
+
+    const startTime = context.currentTime;
+    source.start();
+    sourceRef.current = source;
+    setPlaying(id);
+
+    if (onProgress) {
+      const tick = () => {
+        onProgress(context.currentTime - startTime);
+        frameRef.current = requestAnimationFrame(tick);
+      };
+      frameRef.current = requestAnimationFrame(tick);
+    }
+  }, [stop]);
+
+  // Release the audio device when the page unmounts
+  useEffect(() => () => {
+    cancelAnimationFrame(frameRef.current);
+    sourceRef.current?.stop();
+    void contextRef.current?.close();
+  }, []);
+
+  return { playing, play, stop };
+}
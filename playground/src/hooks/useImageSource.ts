@@ -0,0 +1,21 @@
+import { useMemo, useState } from 'react';
+import { testImage, toGray, type GrayImage, type LumaStandard, type RgbImage, type TestImage } from '../utils/image';
+
+export interface UploadedImage {
+  name: string;
+  image: RgbImage;
+}
+
+/**
+ * Gray image of a page: the chosen built-in test image, or an upload converted with the chosen luma weights
+ * Uploads stay in memory only; the test image and luma standard can live in the URL
+ */
+export function useImageSource(kind: TestImage, luma: LumaStandard) {
+  const [uploaded, setUploaded] = useState<UploadedImage | null>(null);
+  const builtIn = useMemo(() => testImage(kind), [kind]);
+  const image: GrayImage = useMemo(
+    () => (uploaded ? toGray(uploaded.image, luma) : builtIn),
+    [uploaded, luma, builtIn]
+  );
+  return { image, uploaded, setUploaded };
+}
@@ -0,0 +1,25 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  readQueryValues,
+  writeQueryValues,
+  type QuerySchema,
+  type QueryValues,
+} from '../utils/queryParams';
+
+/**
+ * Page state kept in the URL query string, so any configuration can be bookmarked and shared
+ * The schema must be a module-level constant; updates replace the current history entry
+ */
+export function useQueryState<S extends QuerySchema>(
+  schema: S
+): [QueryValues<S>, (changes: Partial<QueryValues<S>>) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const values = useMemo(() => readQueryValues(schema, searchParams), [schema, searchParams]);
+
+  const update = useCallback((changes: Partial<QueryValues<S>>) => {
+    setSearchParams(prev => writeQueryValues(schema, prev, changes), { replace: true });
+  }, [schema, setSearchParams]);
+
+  return [values, update];
+}
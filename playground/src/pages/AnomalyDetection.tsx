@@ -0,0 +1,355 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { AnomalyPlot } from '../components/AnomalyPlot';
+import { SeedControl } from '../components/SeedControl';
+import { useQueryState } from '../hooks/useQueryState';
+import {
+  detectAnomalies,
+  injectSpikes,
+  ANOMALY_METHODS,
+  ANOMALY_METHOD_LABELS,
+  THRESHOLD_SPECS,
+  type DetectionResult,
+} from '../utils/anomalyDetection';
+import { DEFAULT_PROCESS_PARAMS, PROCESSES } from '../utils/stochasticProcesses';
+import { createRandom, DEFAULT_SEED, MAX_SEED } from '../utils/random';
+import { enumParam, integerParam, numberParam } from '../utils/queryParams';
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+
+const QUERY_SCHEMA = {
+  n: integerParam({ defaultValue: 200, min: 50, max: 500 }),
+  variance: numberParam({ defaultValue: 0.25, min: 0.05, max: 1, step: 0.05 }),
+  spikes: integerParam({ defaultValue: 5, min: 0, max: 30 }),
+  amplitude: numberParam({ defaultValue: 2, min: 0, max: 5, step: 0.1 }),
+  seed: integerParam({ defaultValue: DEFAULT_SEED, min: 0, max: MAX_SEED }),
+  method: enumParam(ANOMALY_METHODS, 'zscore'),
+  t: numberParam({ defaultValue: 3, min: 0.5, max: 10, step: 0.1 }),
+};
+
+// Share of Gaussian samples within μ ± kσ
+const SIGMA_RULE = [
+  { k: 1, expected: 68.27 },
+  { k: 2, expected: 95.45 },
+  { k: 3, expected: 99.73 },
+];
+
+/**
+ * Detected, correctly detected and missed samples against the injected positions
+ */
+function confusion(result: DetectionResult, truth: number[]) {
+  const injected = new Set(truth);
+  const hits = result.anomalies.filter(a => injected.has(a.position)).length;
+  return {
+    detected: result.anomalies.length,
+    hits,
+    falseAlarms: result.anomalies.length - hits,
+    missed: truth.length - hits,
+  };
+}
+
+export function AnomalyDetection() {
+  const [query, setQuery] = useQueryState(QUERY_SCHEMA);
+  const { n: N, variance, spikes, amplitude, seed, method } = query;
+  const spec = THRESHOLD_SPECS[method];
+  const threshold = Math.max(spec.min, Math.min(spec.max, query.t));
+
+  const { signal, positions } = useMemo(() => {
+    const random = createRandom(seed);
+    const base = PROCESSES['white-gaussian'].generate(N, { ...DEFAULT_PROCESS_PARAMS, variance }, random);
+    return injectSpikes(base, spikes, amplitude, random);
+  }, [N, variance, spikes, amplitude, seed]);
+
+  const result = useMemo(() => detectAnomalies(signal, { method, threshold }), [signal, method, threshold]);
+  const counts = confusion(result, positions);
+
+  // Every method at its default threshold, for comparison
+  const comparison = useMemo(
+    () =>
+      ANOMALY_METHODS.map(m => {
+        const detection = detectAnomalies(signal, { method: m, threshold: THRESHOLD_SPECS[m].defaultValue });
+        return { method: m, detection, ...confusion(detection, positions) };
+      }),
+    [signal, positions]
+  );
+
+  const zScores = comparison[0].detection.scores;
+  const coverage = SIGMA_RULE.map(({ k, expected }) => ({
+    k,
+    expected,
+    measured: (100 * zScores.filter(z => Math.abs(z) <= k).length) / Math.max(1, zScores.length),
+  }));
+
+  const handleMethodChange = (value: typeof method) => {
+    setQuery({ method: value, t: THRESHOLD_SPECS[value].defaultValue });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Navigation */}
+        <nav className="mb-6">
+          <Link
+            to="/"
+            className="inline-flex items-center text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            <svg
+              className="w-5 h-5 mr-2"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Menu
+          </Link>
+        </nav>
+
+        {/* Header */}
+        <header className="mb-6">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">
+            Anomaly Detection
+          </h1>
+          <p className="text-lg text-gray-600">
+            Flag point anomalies in a signal with standard-deviation, robust, percentile and interquartile thresholds
+          </p>
+        </header>
+
+        {/* Signal and limits */}
+        <div className="mb-6">
+          <AnomalyPlot
+            signal={signal}
+            lower={signal.map(() => result.lower)}
+            upper={signal.map(() => result.upper)}
+            center={signal.map(() => result.center)}
+            flagged={result.anomalies.map(a => a.position)}
+            truth={positions}
+            width={1180}
+            height={360}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-center">
+          {[
+            { label: 'Detected', value: counts.detected, color: 'bg-red-50' },
+            { label: 'Injected and detected', value: `${counts.hits} / ${positions.length}`, color: 'bg-green-50' },
+            { label: 'False alarms', value: counts.falseAlarms, color: 'bg-yellow-50' },
+            { label: 'Missed', value: counts.missed, color: 'bg-gray-50' },
+          ].map(({ label, value, color }) => (
+            <div key={label} className={`${color} rounded-lg shadow p-3`}>
+              <div className="text-sm text-gray-600">{label}</div>
+              <div className="text-2xl font-bold text-gray-800">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Controls */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+            <h2 className="text-xl font-semibold text-gray-800">Detector</h2>
+            <div className="space-y-2">
+              {ANOMALY_METHODS.map(m => (
+                <label key={m} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    checked={method === m}
+                    onChange={() => handleMethodChange(m)}
+                    className="text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-gray-700">{ANOMALY_METHOD_LABELS[m]}</span>
+                </label>
+              ))}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Threshold {spec.label}: {threshold.toFixed(1)}
+              </label>
+              <input
+                type="range"
+                min={spec.min}
+                max={spec.max}
+                step={spec.step}
+                value={threshold}
+                onChange={(e) => setQuery({ t: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+            <div className="text-sm text-gray-700">
+              {method === 'zscore' && <InlineMath math={`\\mu \\pm ${threshold.toFixed(1)}\\,\\sigma`} />}
+              {method === 'mad' && (
+                <InlineMath math={`\\operatorname{med} \\pm ${threshold.toFixed(1)} \\cdot 1.4826\\,\\mathrm{MAD}`} />
+              )}
+              {method === 'percentile' && (
+                <InlineMath math={`[P_{${threshold.toFixed(1)}},\\ P_{${(100 - threshold).toFixed(1)}}]`} />
+              )}
+              {method === 'iqr' && (
+                <InlineMath math={`[Q_1 - ${threshold.toFixed(1)}\\,IQR,\\ Q_3 + ${threshold.toFixed(1)}\\,IQR]`} />
+              )}
+              <span className="ml-2 font-mono">
+                = [{result.lower.toFixed(2)}, {result.upper.toFixed(2)}]
+              </span>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+            <h2 className="text-xl font-semibold text-gray-800">Signal</h2>
+            <p className="text-sm text-gray-600">
+              White Gaussian noise <InlineMath math="x_i \sim N(0, \sigma^2)" /> with spikes of ±A added at random
+              samples.
+            </p>
+            {[
+              { key: 'n' as const, label: `Length N: ${N}`, value: N, min: 50, max: 500, step: 10 },
+              { key: 'variance' as const, label: `Noise variance σ²: ${variance.toFixed(2)}`, value: variance, min: 0.05, max: 1, step: 0.05 },
+              { key: 'spikes' as const, label: `Spikes: ${spikes}`, value: spikes, min: 0, max: 30, step: 1 },
+              { key: 'amplitude' as const, label: `Spike amplitude A: ${amplitude.toFixed(1)}`, value: amplitude, min: 0, max: 5, step: 0.1 },
+            ].map(({ key, label, value, min, max, step }) => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={value}
+                  onChange={(e) => setQuery({ [key]: parseFloat(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-6">
+            <SeedControl seed={seed} onChange={(value) => setQuery({ seed: value })} />
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="text-xl font-semibold mb-2 text-gray-800">68-95-99.7 Rule</h2>
+              <table className="w-full text-sm text-right">
+                <thead>
+                  <tr className="border-b border-gray-200 text-gray-600">
+                    <th className="py-1 text-left font-medium">Within</th>
+                    <th className="py-1 font-medium">Gaussian</th>
+                    <th className="py-1 font-medium">This signal</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {coverage.map(({ k, expected, measured }) => (
+                    <tr key={k} className="border-b border-gray-100">
+                      <td className="py-1 text-left">
+                        <InlineMath math={`\\mu \\pm ${k}\\sigma`} />
+                      </td>
+                      <td className="py-1 font-mono">{expected.toFixed(2)}%</td>
+                      <td className="py-1 font-mono">{measured.toFixed(2)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        {/* Comparison */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-semibold mb-2 text-gray-800">Methods at Their Usual Thresholds</h2>
+            <p className="text-sm text-gray-600 mb-4">Click a row to switch to that method.</p>
+            <table className="w-full text-sm text-right">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="py-2 text-left font-medium">Method</th>
+                  <th className="py-2 font-medium">Limits</th>
+                  <th className="py-2 font-medium">Detected</th>
+                  <th className="py-2 font-medium">Hits</th>
+                  <th className="py-2 font-medium">False alarms</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.map(({ method: m, detection, detected, hits, falseAlarms }) => (
+                  <tr
+                    key={m}
+                    onClick={() => handleMethodChange(m)}
+                    className={`border-b border-gray-100 cursor-pointer transition-colors ${
+                      m === method ? 'bg-blue-50 font-semibold' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <td className="py-2 text-left text-gray-800">
+                      {ANOMALY_METHOD_LABELS[m]} ({THRESHOLD_SPECS[m].defaultValue})
+                    </td>
+                    <td className="py-2 font-mono">
+                      [{detection.lower.toFixed(2)}, {detection.upper.toFixed(2)}]
+                    </td>
+                    <td className="py-2 font-mono">{detected}</td>
+                    <td className="py-2 font-mono">{hits}</td>
+                    <td className="py-2 font-mono">{falseAlarms}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-semibold mb-4 text-gray-800">Detected Samples</h2>
+            {result.anomalies.length === 0 ? (
+              <p className="text-gray-600">No sample falls outside the limits.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto">
+                <table className="w-full text-sm text-right">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-gray-600">
+                      <th className="py-1 text-left font-medium">Index i</th>
+                      <th className="py-1 font-medium">Value</th>
+                      <th className="py-1 font-medium">Score</th>
+                      <th className="py-1 font-medium">Injected</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.anomalies.map(a => (
+                      <tr key={a.position} className="border-b border-gray-100">
+                        <td className="py-1 text-left font-mono">{a.index}</td>
+                        <td className="py-1 font-mono">{a.value.toFixed(3)}</td>
+                        <td className="py-1 font-mono">{a.score.toFixed(2)}</td>
+                        <td className="py-1">{positions.includes(a.position) ? '✓' : '✗'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <p className="text-sm text-gray-600 mt-4">
+              Scores are in standard deviations for the z-scores, the percentage of samples in the nearer tail for
+              percentile limits (flagged below p, not above it), and the distance beyond the nearest quartile in IQRs
+              for the fences.
+            </p>
+          </div>
+        </div>
+
+        {/* Explanation */}
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-bold mb-4 text-gray-800">Explanation</h2>
+          <div className="space-y-4 text-gray-700">
+            <p>
+              A <strong>point anomaly</strong> is a single sample that is far from the rest of the data. For Gaussian
+              data 99.73% of the samples lie within <InlineMath math="\mu \pm 3\sigma" />, so a sample outside is
+              unlikely to come from the same distribution: in N = {N} samples about{' '}
+              {(N * 0.0027).toFixed(1)} normal samples still cross that line.
+            </p>
+            <p>
+              The mean and standard deviation are themselves pulled by the anomalies. Add many large spikes and{' '}
+              <InlineMath math="\sigma" /> grows until the spikes hide inside the band (masking). The median and the
+              MAD ignore up to half of the data being anomalous, so the robust z-score keeps its limits.
+            </p>
+            <p>
+              Percentile limits always flag the same share of samples, whether or not anything is wrong, so they
+              suit a known anomaly rate. The IQR fences (Tukey's boxplot rule, <InlineMath math="k = 1.5" />) are
+              robust like the MAD and do not assume symmetry. A user-defined threshold is just fixed limits chosen
+              from domain knowledge.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
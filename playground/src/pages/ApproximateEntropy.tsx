@@ -0,0 +1,257 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { SignalVisualization, type SignalHighlight } from '../components/SignalVisualization';
+import { StepByStepList } from '../components/StepByStepList';
+import { NSlider } from '../components/NSlider';
+import { SeedControl } from '../components/SeedControl';
+import { useQueryState } from '../hooks/useQueryState';
+import { generateSignal } from '../utils/entropyCalculator';
+import { calculateApproximateEntropy, findSimilarSubseries } from '../utils/approximateEntropy';
+import { createRandom, DEFAULT_SEED, MAX_SEED } from '../utils/random';
+import { integerParam, numberParam } from '../utils/queryParams';
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+
+const QUERY_SCHEMA = {
+  n: integerParam({ defaultValue: 40, min: 10, max: 100 }),
+  noise: numberParam({ defaultValue: 0.1, min: 0, max: 1, step: 0.05 }),
+  seed: integerParam({ defaultValue: DEFAULT_SEED, min: 0, max: MAX_SEED }),
+  m: integerParam({ defaultValue: 2, min: 1, max: 4 }),
+  r: numberParam({ defaultValue: 0.2, min: 0.05, max: 1, step: 0.05 }),
+  i: integerParam({ defaultValue: 0, min: 0, max: 99 }),
+};
+
+export function ApproximateEntropy() {
+  const [query, setQuery] = useQueryState(QUERY_SCHEMA);
+  const { n: N, noise: noiseVariance, seed, m, r, i: template } = query;
+  const [currentStep, setCurrentStep] = useState(0);
+
+  const signal = useMemo(
+    () => generateSignal(N, noiseVariance, createRandom(seed)),
+    [N, noiseVariance, seed]
+  );
+  const result = useMemo(() => calculateApproximateEntropy(signal, m, r), [signal, m, r]);
+  const numSubseries = Math.max(1, N - m + 1);
+  const selected = Math.min(template, numSubseries - 1);
+  const matches = useMemo(
+    () => findSimilarSubseries(signal, m, r, selected),
+    [signal, m, r, selected]
+  );
+
+  const highlights: SignalHighlight[] = [
+    ...matches
+      .filter(j => j !== selected)
+      .map(j => ({ start: j, length: m, color: '#10b981' })),
+    { start: selected, length: m, color: '#dc2626' },
+  ];
+
+  const handlePointClick = (position: number) => {
+    setQuery({ i: Math.min(position, numSubseries - 1) });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Navigation */}
+        <nav className="mb-6">
+          <Link
+            to="/"
+            className="inline-flex items-center text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            <svg
+              className="w-5 h-5 mr-2"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Menu
+          </Link>
+        </nav>
+
+        {/* Header */}
+        <header className="mb-6">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">
+            Approximate Entropy and Sample Entropy
+          </h1>
+          <p className="text-lg text-gray-600">
+            Estimate the entropy of a signal by counting subseries that repeat within a tolerance r
+          </p>
+        </header>
+
+        {/* Main content */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          {/* Left column: Signal visualization */}
+          <div>
+            <h2 className="text-xl font-semibold mb-4 text-gray-700">Signal Visualization</h2>
+            <SignalVisualization
+              signal={signal}
+              width={600}
+              height={300}
+              highlights={highlights}
+              onPointClick={handlePointClick}
+            />
+            <div className="mt-3 text-sm text-gray-600">
+              <p className="mb-1">
+                <span className="inline-block w-3 h-3 bg-red-600 mr-2"></span>
+                <strong>Red:</strong> selected subseries x_{selected + 1}^({m}) (click a point to select)
+              </p>
+              <p>
+                <span className="inline-block w-3 h-3 bg-emerald-500 mr-2"></span>
+                <strong>Green:</strong> {matches.length - 1} other subseries within tolerance r
+              </p>
+            </div>
+          </div>
+
+          {/* Right column: Parameters */}
+          <div className="space-y-6">
+            <NSlider
+              value={N}
+              min={10}
+              max={100}
+              onChange={(value) => setQuery({ n: value })}
+            />
+
+            <SeedControl seed={seed} onChange={(value) => setQuery({ seed: value })} />
+
+            <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+              <div>
+                <label className="block text-lg font-semibold text-gray-800 mb-2">
+                  Subseries length (m)
+                </label>
+                <div className="flex items-center gap-4">
+                  <span className="text-sm text-gray-600 w-12">1</span>
+                  <input
+                    type="range"
+                    min={1}
+                    max={4}
+                    value={m}
+                    onChange={(e) => setQuery({ m: parseInt(e.target.value) })}
+                    className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                  <span className="text-sm text-gray-600 w-12">4</span>
+                </div>
+                <div className="mt-2 text-center">
+                  <motion.span
+                    key={m}
+                    initial={{ scale: 1.2, color: '#3b82f6' }}
+                    animate={{ scale: 1, color: '#1f2937' }}
+                    transition={{ duration: 0.3 }}
+                    className="text-2xl font-bold text-gray-800"
+                  >
+                    m = {m}
+                  </motion.span>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-lg font-semibold text-gray-800 mb-2">
+                  Tolerance (r)
+                </label>
+                <div className="flex items-center gap-4">
+                  <span className="text-sm text-gray-600 w-12">0.05</span>
+                  <input
+                    type="range"
+                    min={0.05}
+                    max={1}
+                    step={0.05}
+                    value={r}
+                    onChange={(e) => setQuery({ r: parseFloat(e.target.value) })}
+                    className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                  <span className="text-sm text-gray-600 w-12">1.00</span>
+                </div>
+                <div className="mt-2 text-center">
+                  <motion.span
+                    key={r}
+                    initial={{ scale: 1.2, color: '#3b82f6' }}
+                    animate={{ scale: 1, color: '#1f2937' }}
+                    transition={{ duration: 0.3 }}
+                    className="text-2xl font-bold text-gray-800"
+                  >
+                    r = {r.toFixed(2)}
+                  </motion.span>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Noise variance: {noiseVariance.toFixed(2)}
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={noiseVariance}
+                  onChange={(e) => setQuery({ noise: parseFloat(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 text-center">
+                <div className="bg-blue-50 rounded-lg p-3">
+                  <div className="text-sm text-gray-600">ApEn({m}, {r.toFixed(2)}, {N})</div>
+                  <div className="text-xl font-bold text-gray-800">{result.apEn.toFixed(4)} bits</div>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-3">
+                  <div className="text-sm text-gray-600">SampEn({m}, {r.toFixed(2)}, {N})</div>
+                  <div className="text-xl font-bold text-gray-800">
+                    {Number.isFinite(result.sampEn) ? `${result.sampEn.toFixed(4)} bits` : '∞'}
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Formula breakdown - full width */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-2xl font-bold mb-4 text-gray-800">ApEn Formula Breakdown</h2>
+          <div className="bg-blue-50 rounded-lg p-4 mb-6 border-l-4 border-blue-500 space-y-2">
+            <div className="text-lg">
+              <InlineMath math="C^{(m)}(i) = \frac{N^{(m)}(i)}{N - m + 1}, \quad H_N^{(m)} = -\frac{1}{N - m + 1} \sum_{i} \log_2 C^{(m)}(i)" />
+            </div>
+            <div className="text-lg">
+              <InlineMath math={`\\text{ApEn}(${m}, ${r.toFixed(2)}, ${N}) = H_N^{(${m + 1})} - H_N^{(${m})} = ${result.entropyM1.toFixed(4)} - ${result.entropyM.toFixed(4)} = ${result.apEn.toFixed(4)}`} />
+            </div>
+          </div>
+          <StepByStepList
+            steps={result.stepByStep}
+            currentStep={currentStep}
+            onStepChange={setCurrentStep}
+          />
+        </div>
+
+        {/* Information section */}
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-800">Understanding ApEn</h2>
+          <ul className="list-disc list-inside space-y-2 text-gray-700">
+            <li>
+              <strong>Regular signals</strong> repeat their patterns: subseries that match for m samples
+              keep matching for m + 1 samples, so ApEn is close to zero
+            </li>
+            <li>
+              <strong>Adding noise</strong> breaks the patterns and increases ApEn
+            </li>
+            <li>
+              A <strong>larger tolerance r</strong> accepts more matches and lowers the estimate; r is
+              usually chosen between 0.1 and 0.25 times the standard deviation of the signal
+            </li>
+            <li>
+              <strong>SampEn</strong> excludes self-matches, so it is less biased for short signals but
+              undefined when no subseries of length m + 1 match
+            </li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { AnomalyPlot } from '../components/AnomalyPlot';
+import { SeedControl } from '../components/SeedControl';
+import type { SignalHighlight } from '../components/SignalVisualization';
+import { useQueryState } from '../hooks/useQueryState';
+import { generateSignal } from '../utils/entropyCalculator';
+import {
+  detectAnomalies,
+  detectContextualAnomalies,
+  injectAnomalies,
+  INJECTED_KINDS,
+  INJECTED_KIND_LABELS,
+  type Anomaly,
+  type InjectedAnomaly,
+  type InjectedKind,
+} from '../utils/anomalyDetection';
+import { createRandom, DEFAULT_SEED, MAX_SEED } from '../utils/random';
+import { booleanParam, integerParam, numberParam } from '../utils/queryParams';
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+
+const QUERY_SCHEMA = {
+  n: integerParam({ defaultValue: 300, min: 100, max: 500 }),
+  noise: numberParam({ defaultValue: 0.02, min: 0.005, max: 0.2, step: 0.005 }),
+  spikes: integerParam({ defaultValue: 4, min: 0, max: 10 }),
+  amplitude: numberParam({ defaultValue: 1, min: 0, max: 2, step: 0.05 }),
+  shifts: integerParam({ defaultValue: 1, min: 0, max: 3 }),
+  shift: numberParam({ defaultValue: 0.8, min: 0, max: 2, step: 0.05 }),
+  bursts: integerParam({ defaultValue: 1, min: 0, max: 3 }),
+  burst: numberParam({ defaultValue: 0.6, min: 0, max: 1.5, step: 0.05 }),
+  len: integerParam({ defaultValue: 20, min: 5, max: 50 }),
+  w: integerParam({ defaultValue: 40, min: 10, max: 100 }),
+  step: integerParam({ defaultValue: 5, min: 1, max: 50 }),
+  k: numberParam({ defaultValue: 3, min: 1, max: 5, step: 0.1 }),
+  detrend: booleanParam(false),
+  seed: integerParam({ defaultValue: DEFAULT_SEED, min: 0, max: MAX_SEED }),
+};
+
+const REGION_COLORS: Record<InjectedKind, string> = {
+  spike: '#f59e0b',
+  shift: '#8b5cf6',
+  burst: '#10b981',
+};
+
+const contains = (a: InjectedAnomaly, position: number) => position >= a.start && position < a.start + a.length;
+
+/**
+ * Injected anomalies with at least one detected sample, per kind, and detections outside every injected span
+ */
+function evaluate(anomalies: Anomaly[], injected: InjectedAnomaly[]) {
+  const caught = Object.fromEntries(
+    INJECTED_KINDS.map(kind => [
+      kind,
+      injected.filter(a => a.kind === kind && anomalies.some(d => contains(a, d.position))).length,
+    ])
+  ) as Record<InjectedKind, number>;
+  const falseAlarms = anomalies.filter(d => !injected.some(a => contains(a, d.position))).length;
+  return { caught, falseAlarms };
+}
+
+type SliderKey = 'n' | 'noise' | 'spikes' | 'amplitude' | 'shifts' | 'shift' | 'bursts' | 'burst' | 'len';
+
+export function ContextualAnomalies() {
+  const [query, setQuery] = useQueryState(QUERY_SCHEMA);
+  const { n: N, noise, spikes, amplitude, shifts, shift, bursts, burst, len, w: windowSize, k, detrend, seed } = query;
+  const step = Math.min(query.step, windowSize);
+
+  const { signal, injected } = useMemo(() => {
+    const random = createRandom(seed);
+    const base = generateSignal(N, noise, random);
+    return injectAnomalies(
+      base,
+      {
+        spikes,
+        spikeAmplitude: amplitude,
+        shifts,
+        shiftSize: shift,
+        bursts,
+        burstStd: burst,
+        segmentLength: len,
+      },
+      random
+    );
+  }, [N, noise, spikes, amplitude, shifts, shift, bursts, burst, len, seed]);
+
+  const globalDetection = useMemo(() => detectAnomalies(signal, { method: 'zscore', threshold: k }), [signal, k]);
+  const localDetection = useMemo(
+    () => detectContextualAnomalies(signal, { window: windowSize, step, threshold: k, detrend }),
+    [signal, windowSize, step, k, detrend]
+  );
+  const globalScore = evaluate(globalDetection.anomalies, injected);
+  const localScore = evaluate(localDetection.anomalies, injected);
+
+  const spikePositions = injected.filter(a => a.kind === 'spike').map(a => a.start);
+  const regions: SignalHighlight[] = injected
+    .filter(a => a.kind !== 'spike')
+    .map(a => ({ start: a.start, length: a.length, color: REGION_COLORS[a.kind] }));
+
+  const sliders: { key: SliderKey; label: string; value: number; min: number; max: number; step: number }[] = [
+    { key: 'n', label: `Length N: ${N}`, value: N, min: 100, max: 500, step: 10 },
+    { key: 'noise', label: `Noise variance: ${noise.toFixed(3)}`, value: noise, min: 0.005, max: 0.2, step: 0.005 },
+    { key: 'spikes', label: `Spikes: ${spikes}`, value: spikes, min: 0, max: 10, step: 1 },
+    { key: 'amplitude', label: `Spike amplitude: ±${amplitude.toFixed(2)}`, value: amplitude, min: 0, max: 2, step: 0.05 },
+    { key: 'shifts', label: `Level shifts: ${shifts}`, value: shifts, min: 0, max: 3, step: 1 },
+    { key: 'shift', label: `Shift size: ±${shift.toFixed(2)}`, value: shift, min: 0, max: 2, step: 0.05 },
+    { key: 'bursts', label: `Variance bursts: ${bursts}`, value: bursts, min: 0, max: 3, step: 1 },
+    { key: 'burst', label: `Burst noise σ: ${burst.toFixed(2)}`, value: burst, min: 0, max: 1.5, step: 0.05 },
+    { key: 'len', label: `Shift and burst length: ${len} samples`, value: len, min: 5, max: 50, step: 1 },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Navigation */}
+        <nav className="mb-6">
+          <Link
+            to="/"
+            className="inline-flex items-center text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            <svg
+              className="w-5 h-5 mr-2"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Menu
+          </Link>
+        </nav>
+
+        {/* Header */}
+        <header className="mb-6">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">
+            Contextual Anomaly Detection
+          </h1>
+          <p className="text-lg text-gray-600">
+            Compare a global threshold with limits computed from a sliding window of recent samples on a
+            signal with a trend
+          </p>
+        </header>
+
+        {/* Global and local detectors */}
+        <div className="space-y-6 mb-6">
+          <div>
+            <h2 className="text-xl font-semibold mb-4 text-gray-700">
+              Global: <InlineMath math={`\\mu \\pm ${k.toFixed(1)}\\,\\sigma`} /> of the whole signal
+            </h2>
+            <AnomalyPlot
+              signal={signal}
+              lower={signal.map(() => globalDetection.lower)}
+              upper={signal.map(() => globalDetection.upper)}
+              center={signal.map(() => globalDetection.center)}
+              flagged={globalDetection.anomalies.map(a => a.position)}
+              truth={spikePositions}
+              regions={regions}
+              width={1180}
+              height={320}
+            />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold mb-4 text-gray-700">
+              Local: <InlineMath math={`\\hat{x}_i \\pm ${k.toFixed(1)}\\,\\sigma_{\\text{local}}`} /> from the
+              previous {windowSize} samples{detrend ? ', detrended' : ''}
+            </h2>
+            <AnomalyPlot
+              signal={signal}
+              lower={localDetection.lower}
+              upper={localDetection.upper}
+              center={localDetection.center}
+              flagged={localDetection.anomalies.map(a => a.position)}
+              truth={spikePositions}
+              regions={regions}
+              width={1180}
+              height={320}
+            />
+            <div className="mt-3 flex flex-wrap gap-6 text-sm text-gray-600">
+              {(['shift', 'burst'] as const).map(kind => (
+                <span key={kind}>
+                  <span
+                    className="inline-block w-3 h-3 mr-2 opacity-40"
+                    style={{ backgroundColor: REGION_COLORS[kind] }}
+                  />
+                  {INJECTED_KIND_LABELS[kind]}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Controls and comparison */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+            <h2 className="text-xl font-semibold text-gray-800">Signal and Injected Anomalies</h2>
+            <p className="text-sm text-gray-600">
+              One sine period of amplitude 0.5 plus uniform noise, as in the entropy pages.
+            </p>
+            {sliders.map(({ key, label, value, min, max, step: sliderStep }) => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={sliderStep}
+                  value={value}
+                  onChange={(e) => setQuery({ [key]: parseFloat(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+            <h2 className="text-xl font-semibold text-gray-800">Detectors</h2>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Threshold k: {k.toFixed(1)} standard deviations (both detectors)
+              </label>
+              <input
+                type="range"
+                min={1}
+                max={5}
+                step={0.1}
+                value={k}
+                onChange={(e) => setQuery({ k: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Window: {windowSize} samples</label>
+              <input
+                type="range"
+                min={10}
+                max={100}
+                value={windowSize}
+                onChange={(e) => setQuery({ w: parseInt(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Step: statistics updated every {step} sample{step > 1 ? 's' : ''}
+              </label>
+              <input
+                type="range"
+                min={1}
+                max={Math.min(50, windowSize)}
+                value={step}
+                onChange={(e) => setQuery({ step: parseInt(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={detrend}
+                onChange={(e) => setQuery({ detrend: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <span className="text-gray-700">Detrend: fit a line in each window and extrapolate it</span>
+            </label>
+            <p className="text-sm text-gray-600">
+              Without detrending the expected value <InlineMath math="\hat{x}_i" /> is the window mean, which lags
+              behind the sine on its slopes; with it, <InlineMath math="\sigma_{\text{local}}" /> comes from the
+              residuals around the fitted line.
+            </p>
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="text-xl font-semibold mb-4 text-gray-800">What Each Detector Catches</h2>
+              <table className="w-full text-sm text-right">
+                <thead>
+                  <tr className="border-b border-gray-200 text-gray-600">
+                    <th className="py-2 text-left font-medium">Injected</th>
+                    <th className="py-2 font-medium">Global</th>
+                    <th className="py-2 font-medium">Local</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {INJECTED_KINDS.map(kind => {
+                    const total = injected.filter(a => a.kind === kind).length;
+                    return (
+                      <tr key={kind} className="border-b border-gray-100">
+                        <td className="py-2 text-left text-gray-800">{INJECTED_KIND_LABELS[kind]}</td>
+                        <td className="py-2 font-mono">{globalScore.caught[kind]} / {total}</td>
+                        <td className="py-2 font-mono">{localScore.caught[kind]} / {total}</td>
+                      </tr>
+                    );
+                  })}
+                  <tr>
+                    <td className="py-2 text-left text-gray-800">False alarms</td>
+                    <td className="py-2 font-mono">{globalScore.falseAlarms}</td>
+                    <td className="py-2 font-mono">{localScore.falseAlarms}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <p className="text-sm text-gray-600 mt-4">
+                A shift or burst counts as caught when at least one of its samples is flagged.
+              </p>
+            </div>
+            <SeedControl seed={seed} onChange={(value) => setQuery({ seed: value })} />
+          </div>
+        </div>
+
+        {/* Explanation */}
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-bold mb-4 text-gray-800">Explanation</h2>
+          <div className="space-y-4 text-gray-700">
+            <p>
+              A <strong>global</strong> threshold judges every sample against the whole signal, so it only finds
+              point anomalies. The sine trend makes the overall <InlineMath math="\sigma" /> much larger than the
+              noise: a spike at the bottom of the sine can stay inside the band even though it is far from its
+              neighbours.
+            </p>
+            <p>
+              A <strong>contextual</strong> anomaly is only unusual for where it occurs. Computing the mean and{' '}
+              <InlineMath math="\sigma" /> from the preceding window follows the trend and keeps the band as narrow
+              as the noise. Using past samples only means a sample never inflates its own{' '}
+              <InlineMath math="\sigma" />, and the first samples of a level shift or a burst are judged against
+              the normal behaviour before them.
+            </p>
+            <p>
+              Once the window fills with the anomaly, it becomes the new normal: the local detector flags the
+              onset of a shift, not its whole length, and a spike right after a burst can hide in the inflated{' '}
+              <InlineMath math="\sigma" />. Longer windows are more stable but slower to follow the trend; a larger
+              step costs less computation but uses staler statistics.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,38 +1,184 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { SignalVisualization } from '../components/SignalVisualization';
 import { FormulaBreakdown } from '../components/FormulaBreakdown';
 import { NSlider } from '../components/NSlider';
-import { generateSignal, type SignalPoint } from '../utils/entropyCalculator';
+import { BlockEntropyPlot } from '../components/BlockEntropyPlot';
+import { DensityPlot } from '../components/DensityPlot';
+import { DensityEstimatorPanel } from '../components/DensityEstimatorPanel';
+import { ProcessPicker } from '../components/ProcessPicker';
+import { SeedControl } from '../components/SeedControl';
+import { SpectrumPanel, type SpectrumSettings } from '../components/SpectrumPanel';
+import { useQueryState } from '../hooks/useQueryState';
+import { calculateEntropy } from '../utils/entropyCalculator';
+import {
+  estimateDensity,
+  DEFAULT_DENSITY_OPTIONS,
+  DENSITY_MODES,
+  BIN_RULES,
+  BANDWIDTH_RULES,
+  type DensityOptions,
+} from '../utils/densityEstimation';
+import {
+  PROCESSES,
+  PROCESS_TYPES,
+  DEFAULT_PROCESS_PARAMS,
+  theoreticalJointEntropy,
+  type ProcessType,
+  type ProcessParams,
+} from '../utils/stochasticProcesses';
+import {
+  computeSpectrum,
+  DEFAULT_SPECTRUM_OPTIONS,
+  SPECTRUM_VIEWS,
+  WINDOW_TYPES,
+  ZERO_PAD_FACTORS,
+} from '../utils/fft';
+import { createRandom, DEFAULT_SEED, MAX_SEED } from '../utils/random';
+import {
+  booleanParam,
+  integerParam,
+  numberParam,
+  numberChoiceParam,
+  numberListParam,
+  enumParam,
+} from '../utils/queryParams';
+
+const QUANTIZATION_LEVELS = [2, 4, 8, 16, 20];
+
+const QUERY_SCHEMA = {
+  n: integerParam({ defaultValue: 20, min: 5, max: 200 }),
+  q: numberChoiceParam(QUANTIZATION_LEVELS, 4),
+  k: integerParam({ defaultValue: 4, min: 1, max: 8 }),
+  seed: integerParam({ defaultValue: DEFAULT_SEED, min: 0, max: MAX_SEED }),
+  process: enumParam<ProcessType>(PROCESS_TYPES, 'white-gaussian'),
+  variance: numberParam({ defaultValue: DEFAULT_PROCESS_PARAMS.variance, min: 0.01, max: 1, step: 0.01 }),
+  p: numberParam({ defaultValue: DEFAULT_PROCESS_PARAMS.probability, min: 0, max: 1, step: 0.05 }),
+  ar: numberListParam({ defaultValue: DEFAULT_PROCESS_PARAMS.arCoefficients, min: -2, max: 2 }),
+  snr: integerParam({ defaultValue: DEFAULT_PROCESS_PARAMS.snrDb, min: -10, max: 30 }),
+  period: integerParam({ defaultValue: DEFAULT_PROCESS_PARAMS.period, min: 2, max: 50 }),
+  density: enumParam(DENSITY_MODES, DEFAULT_DENSITY_OPTIONS.mode),
+  binRule: enumParam(BIN_RULES, DEFAULT_DENSITY_OPTIONS.binRule),
+  bins: integerParam({ defaultValue: DEFAULT_DENSITY_OPTIONS.numBins, min: 2, max: 50 }),
+  bandwidthRule: enumParam(BANDWIDTH_RULES, DEFAULT_DENSITY_OPTIONS.bandwidthRule),
+  bandwidth: numberParam({ defaultValue: DEFAULT_DENSITY_OPTIONS.bandwidth, min: 0.02, max: 1, step: 0.02 }),
+  window: enumParam(WINDOW_TYPES, DEFAULT_SPECTRUM_OPTIONS.window),
+  pad: numberChoiceParam(ZERO_PAD_FACTORS, DEFAULT_SPECTRUM_OPTIONS.zeroPadFactor),
+  pow2: booleanParam(true),
+  spectrum: enumParam(SPECTRUM_VIEWS, 'magnitude'),
+};
 
 export function EntropyStochasticProcess() {
-  const [N, setN] = useState(20);
-  const [signal, setSignal] = useState<SignalPoint[]>([]);
+  const [query, setQuery] = useQueryState(QUERY_SCHEMA);
+  const { n: N, q: numBins, k: maxBlockLength, seed, process: processType } = query;
   const [currentStep, setCurrentStep] = useState(0);
-  const [isAnimating, setIsAnimating] = useState(false);
 
-  // Generate signal when N changes
-  useEffect(() => {
-    setIsAnimating(true);
-    // Small delay for smooth transition
-    const timer = setTimeout(() => {
-      const newSignal = generateSignal(N, 0.5);
-      setSignal(newSignal);
-      setCurrentStep(0);
-      setIsAnimating(false);
-    }, 100);
-    
-    return () => clearTimeout(timer);
-  }, [N]);
+  const processParams = useMemo<ProcessParams>(() => ({
+    variance: query.variance,
+    probability: query.p,
+    arCoefficients: query.ar,
+    snrDb: query.snr,
+    period: query.period,
+  }), [query.variance, query.p, query.ar, query.snr, query.period]);
+
+  const densityOptions = useMemo<DensityOptions>(() => ({
+    mode: query.density,
+    binRule: query.binRule,
+    numBins: query.bins,
+    bandwidthRule: query.bandwidthRule,
+    bandwidth: query.bandwidth,
+  }), [query.density, query.binRule, query.bins, query.bandwidthRule, query.bandwidth]);
+
+  const signal = useMemo(
+    () => PROCESSES[processType].generate(N, processParams, createRandom(seed)),
+    [N, processType, processParams, seed]
+  );
+
+  // Quantize over [-2, 2], widened symmetrically when the process leaves that range
+  const amplitude = Math.max(2, Math.ceil(Math.max(0, ...signal.map(point => Math.abs(point.value)))));
+  const binWidth = (2 * amplitude) / numBins;
+
+  const result = useMemo(
+    () => calculateEntropy(signal, { numBins, maxBlockLength, range: [-amplitude, amplitude] }),
+    [signal, numBins, maxBlockLength, amplitude]
+  );
+  const theoreticalEntropy = PROCESSES[processType].entropy(processParams);
+  const theory = theoreticalJointEntropy(theoreticalEntropy, N, binWidth);
+  const numSteps = result.stepByStep.length;
+  const density = useMemo(
+    () => estimateDensity(signal.map(point => point.value), densityOptions),
+    [signal, densityOptions]
+  );
+
+  const spectrumSettings: SpectrumSettings = {
+    window: query.window,
+    zeroPadFactor: query.pad,
+    powerOfTwo: query.pow2,
+    view: query.spectrum,
+  };
+  const spectrum = useMemo(
+    () => computeSpectrum(signal.map(point => point.value), {
+      sampleRate: 1,
+      window: query.window,
+      zeroPadFactor: query.pad,
+      powerOfTwo: query.pow2,
+    }),
+    [signal, query.window, query.pad, query.pow2]
+  );
+
+  // Restart the step-by-step walkthrough whenever the signal changes
+  const handleNChange = (value: number) => {
+    setQuery({ n: value });
+    setCurrentStep(0);
+  };
+
+  const handleProcessTypeChange = (type: ProcessType) => {
+    setQuery({ process: type });
+    setCurrentStep(0);
+  };
+
+  const handleProcessParamsChange = (params: ProcessParams) => {
+    setQuery({
+      variance: params.variance,
+      p: params.probability,
+      ar: params.arCoefficients,
+      snr: params.snrDb,
+      period: params.period,
+    });
+    setCurrentStep(0);
+  };
+
+  const handleSeedChange = (value: number) => {
+    setQuery({ seed: value });
+    setCurrentStep(0);
+  };
+
+  const handleSpectrumChange = (changes: Partial<SpectrumSettings>) => {
+    setQuery({
+      window: changes.window,
+      pad: changes.zeroPadFactor,
+      pow2: changes.powerOfTwo,
+      spectrum: changes.view,
+    });
+  };
+
+  const handleDensityChange = (options: DensityOptions) => {
+    setQuery({
+      density: options.mode,
+      binRule: options.binRule,
+      bins: options.numBins,
+      bandwidthRule: options.bandwidthRule,
+      bandwidth: options.bandwidth,
+    });
+  };
 
   // Auto-advance steps for demonstration
   useEffect(() => {
-    if (signal.length === 0) return;
+    if (numSteps === 0) return;
     
     const timer = setInterval(() => {
       setCurrentStep((prev) => {
-        const maxSteps = 4; // We have 4 steps in the breakdown
-        if (prev < maxSteps - 1) {
+        if (prev < numSteps - 1) {
           return prev + 1;
         }
         return prev;
@@ -40,7 +186,7 @@ export function EntropyStochasticProcess() {
     }, 2000); // Change step every 2 seconds
     
     return () => clearInterval(timer);
-  }, [signal.length]);
+  }, [signal, numSteps]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
@@ -87,24 +233,147 @@ export function EntropyStochasticProcess() {
               signal={signal}
               width={600}
               height={300}
+              valueRange={[-amplitude, amplitude]}
             />
           </div>
 
-          {/* Right column: N slider */}
-          <div>
+          {/* Right column: N slider and estimator settings */}
+          <div className="space-y-6">
             <NSlider
               value={N}
               min={5}
-              max={50}
-              onChange={setN}
+              max={200}
+              onChange={handleNChange}
+            />
+
+            <ProcessPicker
+              type={processType}
+              params={processParams}
+              onTypeChange={handleProcessTypeChange}
+              onParamsChange={handleProcessParamsChange}
+            />
+
+            <SeedControl seed={seed} onChange={handleSeedChange} />
+
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">Block Entropy Estimator</h3>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Quantization levels (Q)</span>
+                  <select
+                    value={numBins}
+                    onChange={(e) => setQuery({ q: parseInt(e.target.value) })}
+                    className="mt-1 block w-full rounded-lg border border-gray-300 p-2"
+                  >
+                    {QUANTIZATION_LEVELS.map(q => (
+                      <option key={q} value={q}>{q}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Max word length (k)</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={8}
+                    value={maxBlockLength}
+                    onChange={(e) => setQuery({ k: Math.max(1, Math.min(8, parseInt(e.target.value) || 1)) })}
+                    className="mt-1 block w-full rounded-lg border border-gray-300 p-2"
+                  />
+                </label>
+              </div>
+              <table className="mt-4 w-full text-sm">
+                <thead>
+                  <tr className="text-gray-600 border-b border-gray-200">
+                    <th className="text-left py-2"></th>
+                    <th className="text-right py-2">Estimated</th>
+                    <th className="text-right py-2">Theoretical</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-800">
+                  <tr className="border-b border-gray-100">
+                    <td className="py-2">Entropy rate h (bits/sample)</td>
+                    <td className="text-right font-mono">{result.entropyRate.toFixed(3)}</td>
+                    <td className="text-right font-mono">{theory.entropyRate.toFixed(3)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-2">Joint entropy H_{N} (bits)</td>
+                    <td className="text-right font-mono font-bold">{result.entropy.toFixed(3)}</td>
+                    <td className="text-right font-mono font-bold">
+                      {Number.isFinite(theory.jointEntropy) ? theory.jointEntropy.toFixed(3) : '∞'}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-gray-500">
+                {theoreticalEntropy.kind === 'differential'
+                  ? `Differential entropy rate ${theoreticalEntropy.rate.toFixed(3)} bits/sample, converted to Q = ${numBins} levels with H ≈ h − log₂ Δ (Δ = ${binWidth.toFixed(3)}).`
+                  : 'Discrete process: the theoretical values apply directly when each symbol falls in its own bin.'}
+                {theoreticalEntropy.note && ` ${theoreticalEntropy.note}.`}
+              </p>
+              {!result.reliable && (
+                <div className="mt-4 p-3 bg-yellow-50 border-l-4 border-yellow-400 rounded-lg text-sm text-yellow-800">
+                  N = {N} is too short for a reliable estimate of every block entropy: words longer
+                  than m = {result.blockLength} have fewer windows than possible words. Increase N or
+                  reduce Q.
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Block entropy plot */}
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-700">Block Entropy H_m vs Word Length m</h2>
+          <BlockEntropyPlot
+            blockEntropies={result.blockEntropies}
+            width={600}
+            height={300}
+          />
+        </div>
+
+        {/* Marginal density estimation */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <div>
+            <h2 className="text-xl font-semibold mb-4 text-gray-700">Marginal PDF Estimate</h2>
+            <DensityPlot
+              estimate={density}
+              width={600}
+              height={300}
+            />
+          </div>
+          <div>
+            <DensityEstimatorPanel
+              options={densityOptions}
+              estimate={density}
+              onChange={handleDensityChange}
             />
           </div>
         </div>
 
+        {/* Spectrum */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-700">Spectrum</h2>
+          <p className="mb-4 text-sm text-gray-600">
+            White processes spread their power evenly over all frequencies; memory (AR, random walk)
+            or periodicity concentrates it, which is why those processes have a lower entropy rate.
+          </p>
+          <SpectrumPanel
+            spectrum={spectrum}
+            settings={spectrumSettings}
+            onChange={handleSpectrumChange}
+            numSamples={N}
+            frequencyUnit="cycles/sample"
+            width={1000}
+            height={300}
+          />
+        </div>
+
         {/* Formula breakdown - full width */}
         <div className="mb-6">
           <FormulaBreakdown
             signal={signal}
+            result={result}
             currentStep={currentStep}
             onStepChange={setCurrentStep}
           />
@@ -129,6 +398,10 @@ export function EntropyStochasticProcess() {
                 The <strong>joint PDF p(x₁, x₂, ..., x_N)</strong> captures the probability of observing 
                 the entire sequence of values
               </li>
+              <li>
+                The <strong>block entropy H_m</strong> grows with the word length m; its slope, the
+                conditional entropy <strong>h_m = H_m − H_{'{'}m−1{'}'}</strong>, approaches the entropy rate
+              </li>
               <li>
                 Higher entropy means <strong>more uncertainty</strong> and less predictability in the signal
               </li>
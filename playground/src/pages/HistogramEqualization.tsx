@@ -0,0 +1,181 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ImageView } from '../components/ImageView';
+import { HistogramPlot } from '../components/HistogramPlot';
+import { TransferCurvePlot } from '../components/TransferCurvePlot';
+import { ImageSourcePicker } from '../components/ImageSourcePicker';
+import { EqualizationBreakdown } from '../components/EqualizationBreakdown';
+import { useQueryState } from '../hooks/useQueryState';
+import { useImageSource } from '../hooks/useImageSource';
+import { applyLut, grayHistogram, LUMA_STANDARDS, TEST_IMAGES } from '../utils/image';
+import {
+  equalizeHistogram,
+  histogramStats,
+  EQUALIZATION_EXAMPLE,
+} from '../utils/histogramEqualization';
+import { booleanParam, enumParam } from '../utils/queryParams';
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+
+const QUERY_SCHEMA = {
+  image: enumParam(TEST_IMAGES, 'scene'),
+  luma: enumParam(LUMA_STANDARDS, 'bt601'),
+  cdf: booleanParam(true),
+};
+
+export function HistogramEqualization() {
+  const [query, setQuery] = useQueryState(QUERY_SCHEMA);
+  const { image: original, uploaded, setUploaded } = useImageSource(query.image, query.luma);
+  const [currentStep, setCurrentStep] = useState(0);
+
+  const result = useMemo(() => equalizeHistogram(grayHistogram(original)), [original]);
+  const equalized = useMemo(() => applyLut(original, result.lut), [original, result]);
+  const equalizedCdf = useMemo(() => histogramStats(result.equalizedCounts).cdf, [result]);
+  const example = useMemo(() => equalizeHistogram(EQUALIZATION_EXAMPLE), []);
+
+  const usedLevels = (counts: number[]) => counts.filter(n => n > 0).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Navigation */}
+        <nav className="mb-6">
+          <Link
+            to="/"
+            className="inline-flex items-center text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            <svg
+              className="w-5 h-5 mr-2"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Menu
+          </Link>
+        </nav>
+
+        {/* Header */}
+        <header className="mb-6">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">
+            Histogram Equalization
+          </h1>
+          <p className="text-lg text-gray-600">
+            Spread the gray levels of an image over the whole range by mapping each level through the cumulative
+            distribution of the image
+          </p>
+        </header>
+
+        {/* Image and mapping */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+            <h2 className="text-2xl font-semibold text-gray-800">Image</h2>
+            <ImageSourcePicker
+              image={original}
+              testImage={query.image}
+              luma={query.luma}
+              uploaded={uploaded}
+              onChange={({ testImage, luma }) => setQuery({ image: testImage, luma })}
+              onUpload={setUploaded}
+            />
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={query.cdf}
+                onChange={(e) => setQuery({ cdf: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <span className="text-gray-700">Show the CDF over the histograms</span>
+            </label>
+            <div className="grid grid-cols-2 gap-4 text-center">
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="text-sm text-gray-600">Levels used before</div>
+                <div className="text-xl font-bold text-gray-800">{usedLevels(result.counts)}</div>
+              </div>
+              <div className="bg-blue-50 rounded-lg p-3">
+                <div className="text-sm text-gray-600">Levels used after</div>
+                <div className="text-xl font-bold text-gray-800">{usedLevels(result.equalizedCounts)}</div>
+              </div>
+            </div>
+            <p className="text-sm text-gray-600">
+              Equalization never creates new levels: input levels that round to the same{' '}
+              <InlineMath math="s_k" /> merge, so the output uses at most as many levels as the input, only spaced
+              further apart.
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-semibold mb-2 text-gray-800">
+              Mapping <InlineMath math="s_k = \operatorname{round}((L - 1)\,CDF(r_k))" />
+            </h2>
+            <TransferCurvePlot lut={result.lut} width={420} height={360} />
+            <p className="text-sm text-gray-600 mt-2">
+              The mapping is the scaled CDF itself: steep where many pixels share similar levels, flat where the
+              histogram is empty.
+            </p>
+          </div>
+        </div>
+
+        {/* Before and after */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          {[
+            { title: 'Original', image: original, counts: result.counts, cdf: result.cdf, color: '#6b7280' },
+            { title: 'Equalized', image: equalized, counts: result.equalizedCounts, cdf: equalizedCdf, color: '#2563eb' },
+          ].map(({ title, image, counts, cdf, color }) => (
+            <div key={title} className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="text-2xl font-semibold mb-4 text-gray-800">{title}</h2>
+              <div className="flex justify-center bg-gray-50 rounded-lg">
+                <ImageView image={image} width={480} height={320} />
+              </div>
+              <h3 className="text-lg font-semibold mt-4 mb-2 text-gray-700">Histogram</h3>
+              <HistogramPlot
+                counts={counts}
+                width={520}
+                height={180}
+                color={color}
+                cdf={query.cdf ? cdf : undefined}
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* 3-bit walk-through */}
+        <div className="mb-6">
+          <EqualizationBreakdown
+            result={example}
+            currentStep={currentStep}
+            onStepChange={setCurrentStep}
+          />
+        </div>
+
+        {/* Explanation */}
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-bold mb-4 text-gray-800">Explanation</h2>
+          <div className="space-y-4 text-gray-700">
+            <p>
+              If <InlineMath math="r" /> is a continuous random variable with PDF <InlineMath math="p_r" />, then{' '}
+              <InlineMath math="s = (L - 1)\,CDF(r)" /> is uniformly distributed on{' '}
+              <InlineMath math="[0, L - 1]" />. Applied to an image, that transformation gives every output level
+              the same share of pixels, which maximizes contrast without any parameter to tune.
+            </p>
+            <p>
+              With discrete levels the output histogram is only approximately flat: all pixels at one input level
+              must go to the same output level, so tall bins cannot be split. The CDF of the equalized image, on the
+              other hand, is close to a straight line.
+            </p>
+            <p>
+              Equalizing an already equalized image changes nothing, since its CDF already maps each used level
+              onto itself.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
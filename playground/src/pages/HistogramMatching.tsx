@@ -0,0 +1,339 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ImageView } from '../components/ImageView';
+import { HistogramPlot } from '../components/HistogramPlot';
+import { TransferCurvePlot } from '../components/TransferCurvePlot';
+import { ImageSourcePicker } from '../components/ImageSourcePicker';
+import { HistogramDrawCanvas } from '../components/HistogramDrawCanvas';
+import { CdfComparisonPlot } from '../components/CdfComparisonPlot';
+import { useQueryState } from '../hooks/useQueryState';
+import { useImageSource } from '../hooks/useImageSource';
+import { applyLut, grayHistogram, LUMA_STANDARDS, TEST_IMAGES } from '../utils/image';
+import { histogramStats } from '../utils/histogramEqualization';
+import {
+  expandBins,
+  matchHistogram,
+  shapeHistogram,
+  DEFAULT_DRAWN_HISTOGRAM,
+  DRAWN_BINS,
+  MAX_DRAWN_HEIGHT,
+  TARGET_SHAPES,
+  TARGET_SHAPE_LABELS,
+  TARGET_SOURCES,
+  TARGET_SOURCE_LABELS,
+  type TargetShape,
+} from '../utils/histogramMatching';
+import { enumParam, integerParam, numberListParam } from '../utils/queryParams';
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+
+const QUERY_SCHEMA = {
+  image: enumParam(TEST_IMAGES, 'scene'),
+  targetImage: enumParam(TEST_IMAGES, 'radial'),
+  luma: enumParam(LUMA_STANDARDS, 'bt601'),
+  target: enumParam(TARGET_SOURCES, 'shape'),
+  shape: enumParam(TARGET_SHAPES, 'bimodal'),
+  center: integerParam({ defaultValue: 128, min: 0, max: 255 }),
+  spread: integerParam({ defaultValue: 60, min: 5, max: 128 }),
+  drawn: numberListParam({
+    defaultValue: DEFAULT_DRAWN_HISTOGRAM,
+    min: 0,
+    max: MAX_DRAWN_HEIGHT,
+    minLength: DRAWN_BINS,  // One bar per bin, exactly
+    maxLength: DRAWN_BINS,
+  }),
+  level: integerParam({ defaultValue: 120, min: 0, max: 255 }),
+};
+
+export function HistogramMatching() {
+  const [query, setQuery] = useQueryState(QUERY_SCHEMA);
+  const { target, shape, center, spread, drawn, level } = query;
+  const { image: original, uploaded, setUploaded } = useImageSource(query.image, query.luma);
+  const {
+    image: targetImage,
+    uploaded: uploadedTarget,
+    setUploaded: setUploadedTarget,
+  } = useImageSource(query.targetImage, query.luma);
+
+  const sourceCounts = useMemo(() => grayHistogram(original), [original]);
+  const targetCounts = useMemo(() => {
+    switch (target) {
+      case 'image':
+        return grayHistogram(targetImage);
+      case 'drawn':
+        return expandBins(drawn);
+      case 'shape':
+        return shapeHistogram({ shape, center, spread });
+    }
+  }, [target, targetImage, drawn, shape, center, spread]);
+
+  const emptyTarget = targetCounts.every(n => n === 0);
+  const result = useMemo(() => matchHistogram(sourceCounts, targetCounts), [sourceCounts, targetCounts]);
+  const matched = useMemo(() => applyLut(original, result.lut), [original, result]);
+  const matchedCdf = useMemo(() => histogramStats(result.matchedCounts).cdf, [result]);
+  const s = result.equalization[level];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Navigation */}
+        <nav className="mb-6">
+          <Link
+            to="/"
+            className="inline-flex items-center text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            <svg
+              className="w-5 h-5 mr-2"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Menu
+          </Link>
+        </nav>
+
+        {/* Header */}
+        <header className="mb-6">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">
+            Histogram Matching
+          </h1>
+          <p className="text-lg text-gray-600">
+            Give an image a specified histogram by chaining its equalization with the inverse equalization of the
+            target
+          </p>
+        </header>
+
+        {/* Input and target */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+            <h2 className="text-2xl font-semibold text-gray-800">Input Image</h2>
+            <ImageSourcePicker
+              image={original}
+              testImage={query.image}
+              luma={query.luma}
+              uploaded={uploaded}
+              onChange={({ testImage, luma }) => setQuery({ image: testImage, luma })}
+              onUpload={setUploaded}
+            />
+            <div className="flex justify-center bg-gray-50 rounded-lg">
+              <ImageView image={original} width={480} height={280} />
+            </div>
+            <HistogramPlot counts={result.source.counts} width={520} height={160} color="#6b7280" />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+            <h2 className="text-2xl font-semibold text-gray-800">Target Histogram</h2>
+            <div className="flex flex-wrap gap-4">
+              {TARGET_SOURCES.map(source => (
+                <label key={source} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    checked={target === source}
+                    onChange={() => setQuery({ target: source })}
+                    className="text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-gray-700">{TARGET_SOURCE_LABELS[source]}</span>
+                </label>
+              ))}
+            </div>
+
+            {target === 'shape' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Shape</span>
+                  <select
+                    value={shape}
+                    onChange={(e) => setQuery({ shape: e.target.value as TargetShape })}
+                    className="mt-1 block w-full rounded-lg border border-gray-300 p-2"
+                  >
+                    {TARGET_SHAPES.map(option => (
+                      <option key={option} value={option}>{TARGET_SHAPE_LABELS[option]}</option>
+                    ))}
+                  </select>
+                </label>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Centre: {center}</label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={255}
+                    value={center}
+                    onChange={(e) => setQuery({ center: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {shape === 'gaussian' ? 'σ' : shape === 'uniform' ? 'Half-width' : 'Mode offset'}: {spread}
+                  </label>
+                  <input
+                    type="range"
+                    min={5}
+                    max={128}
+                    value={spread}
+                    onChange={(e) => setQuery({ spread: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
+              </div>
+            )}
+
+            {target === 'drawn' && (
+              <div>
+                <HistogramDrawCanvas
+                  bins={drawn}
+                  maxValue={MAX_DRAWN_HEIGHT}
+                  onChange={(bins) => setQuery({ drawn: bins })}
+                  width={520}
+                  height={200}
+                />
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={() => setQuery({ drawn: DEFAULT_DRAWN_HISTOGRAM })}
+                    className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                  >
+                    Reset drawing
+                  </button>
+                  <button
+                    onClick={() => setQuery({ drawn: new Array<number>(DRAWN_BINS).fill(MAX_DRAWN_HEIGHT / 2) })}
+                    className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                  >
+                    Flat
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {target === 'image' && (
+              <>
+                <ImageSourcePicker
+                  label="Target image"
+                  image={targetImage}
+                  testImage={query.targetImage}
+                  luma={query.luma}
+                  uploaded={uploadedTarget}
+                  onChange={({ testImage, luma }) => setQuery({ targetImage: testImage, luma })}
+                  onUpload={setUploadedTarget}
+                />
+                <div className="flex justify-center bg-gray-50 rounded-lg">
+                  <ImageView image={targetImage} width={480} height={200} />
+                </div>
+              </>
+            )}
+
+            {emptyTarget ? (
+              <p className="text-red-700 font-semibold">
+                The target histogram is empty: draw at least one bar.
+              </p>
+            ) : (
+              <HistogramPlot counts={targetCounts} width={520} height={160} color="#10b981" />
+            )}
+          </div>
+        </div>
+
+        {/* CDFs and mappings */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-semibold mb-2 text-gray-800">Cumulative Distributions</h2>
+            <CdfComparisonPlot
+              sourceCdf={result.source.cdf}
+              targetCdf={result.target.cdf}
+              matchedCdf={matchedCdf}
+              lut={result.lut}
+              level={level}
+              onLevelChange={(value) => setQuery({ level: value })}
+              width={540}
+              height={340}
+            />
+            <div className="mt-3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Traced level r: {level}</label>
+              <input
+                type="range"
+                min={0}
+                max={255}
+                value={level}
+                onChange={(e) => setQuery({ level: parseInt(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+            <p className="mt-3 text-gray-700">
+              <InlineMath math={`r = ${level} \\;\\to\\; s = T(r) = ${s} \\;\\to\\; z = G^{-1}(s) = ${result.lut[level]}`} />
+            </p>
+            <p className="text-sm text-gray-600 mt-2">
+              Each level moves horizontally from the input CDF to the target CDF: <InlineMath math="z" /> is the
+              level below which the same fraction of the target lies as below <InlineMath math="r" /> in the
+              input. Click the plot to trace another level.
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-semibold mb-2 text-gray-800">Inverse Mapping</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 text-center">
+                  <InlineMath math="z = G^{-1}(s)" />
+                </h3>
+                <TransferCurvePlot lut={result.inverse} width={260} height={260} xLabel="s" yLabel="z" />
+              </div>
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 text-center">
+                  <InlineMath math="z = G^{-1}(T(r))" />
+                </h3>
+                <TransferCurvePlot lut={result.lut} width={260} height={260} xLabel="Input r" yLabel="z" />
+              </div>
+            </div>
+            <p className="text-sm text-gray-600 mt-3">
+              <InlineMath math="G" /> is the equalization of the target. It is not one-to-one when the target has
+              empty or rounded-together levels, so <InlineMath math="G^{-1}(s)" /> takes the level whose{' '}
+              <InlineMath math="G(z)" /> is closest to <InlineMath math="s" />, the smallest one on ties. Flat
+              stretches of the inverse are levels the target never uses.
+            </p>
+          </div>
+        </div>
+
+        {/* Result */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-2xl font-semibold mb-4 text-gray-800">Matched Image</h2>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-center">
+            <div className="flex justify-center bg-gray-50 rounded-lg">
+              <ImageView image={matched} width={480} height={320} />
+            </div>
+            <HistogramPlot
+              counts={result.matchedCounts}
+              width={540}
+              height={220}
+              color="#2563eb"
+              cdf={matchedCdf}
+            />
+          </div>
+        </div>
+
+        {/* Explanation */}
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-bold mb-4 text-gray-800">Explanation</h2>
+          <div className="space-y-4 text-gray-700">
+            <p>
+              Equalizing the input gives <InlineMath math="s = T(r) = (L - 1)\,CDF_r(r)" />, uniformly distributed.
+              Equalizing an image with the target histogram would give{' '}
+              <InlineMath math="s = G(z) = (L - 1)\,CDF_z(z)" />, also uniform. Since both give the same uniform
+              distribution, running the second equalization backwards turns the first into the target:{' '}
+              <InlineMath math="z = G^{-1}(T(r))" />.
+            </p>
+            <p>
+              Histogram equalization is the special case of a flat target, where <InlineMath math="G" /> is the
+              identity. As with equalization, integer levels can only be moved, not split, so the result follows the
+              target CDF closely while its histogram only roughly follows the target shape.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
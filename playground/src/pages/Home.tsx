@@ -24,6 +24,62 @@ export function Home() {
       icon: '⚡',
       color: 'from-yellow-500 to-orange-600'
     },
+    {
+      title: 'Approximate Entropy',
+      description: 'Step-by-step ApEn and Sample Entropy: find similar subseries within a tolerance r and estimate entropy',
+      path: '/approximate-entropy',
+      icon: '🔁',
+      color: 'from-purple-500 to-pink-600'
+    },
+    {
+      title: 'Intensity Transformations',
+      description: 'Negative, log, gamma and piecewise-linear contrast stretching of a grayscale image with its histogram',
+      path: '/intensity-transformations',
+      icon: '🖼️',
+      color: 'from-slate-500 to-gray-700'
+    },
+    {
+      title: 'Histogram Equalization',
+      description: 'Map gray levels through the image CDF, with a step-by-step worked example on a 3-bit image',
+      path: '/histogram-equalization',
+      icon: '📶',
+      color: 'from-cyan-500 to-blue-600'
+    },
+    {
+      title: 'Histogram Matching',
+      description: 'Map an image onto a target histogram from a second image, a hand drawing or a parametric shape',
+      path: '/histogram-matching',
+      icon: '🎯',
+      color: 'from-teal-500 to-green-600'
+    },
+    {
+      title: 'Image Arithmetic',
+      description: 'Average noisy copies to reduce noise and subtract images to detect changes',
+      path: '/image-arithmetic',
+      icon: '➕',
+      color: 'from-amber-500 to-orange-600'
+    },
+    {
+      title: 'Image Entropy',
+      description: 'Global and local entropy of an image, and how noise, quantization and equalization change it',
+      path: '/image-entropy',
+      icon: '🔥',
+      color: 'from-rose-500 to-red-600'
+    },
+    {
+      title: 'Anomaly Detection',
+      description: 'Flag point anomalies with z-score, robust MAD, percentile and IQR thresholds',
+      path: '/anomaly-detection',
+      icon: '🚨',
+      color: 'from-red-500 to-pink-600'
+    },
+    {
+      title: 'Contextual Anomalies',
+      description: 'Sliding-window limits that follow a trend, against a global threshold, on injected anomalies',
+      path: '/contextual-anomalies',
+      icon: '🪟',
+      color: 'from-fuchsia-500 to-purple-600'
+    },
   ];
 
   return (
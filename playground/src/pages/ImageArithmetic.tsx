@@ -0,0 +1,349 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ImageView } from '../components/ImageView';
+import { ImageSourcePicker } from '../components/ImageSourcePicker';
+import { NoiseVariancePlot } from '../components/NoiseVariancePlot';
+import { HistogramPlot } from '../components/HistogramPlot';
+import { useQueryState } from '../hooks/useQueryState';
+import { useImageSource } from '../hooks/useImageSource';
+import { grayHistogram, LUMA_STANDARDS, TEST_IMAGES } from '../utils/image';
+import {
+  addDisc,
+  averageNoisyCopies,
+  shiftImage,
+  subtractImages,
+  DIFFERENCE_LABELS,
+  DIFFERENCE_MODES,
+} from '../utils/imageArithmetic';
+import { DEFAULT_SEED, MAX_SEED, randomSeed } from '../utils/random';
+import { booleanParam, enumParam, integerParam } from '../utils/queryParams';
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+
+const OPERATIONS = ['average', 'subtract'] as const;
+const MAX_COPIES = 32;
+const MAX_SHIFT = 10;
+
+const QUERY_SCHEMA = {
+  image: enumParam(TEST_IMAGES, 'scene'),
+  luma: enumParam(LUMA_STANDARDS, 'bt601'),
+  op: enumParam(OPERATIONS, 'average'),
+  sigma: integerParam({ defaultValue: 25, min: 1, max: 80 }),
+  k: integerParam({ defaultValue: 8, min: 1, max: MAX_COPIES }),
+  quantize: booleanParam(false),
+  seed: integerParam({ defaultValue: DEFAULT_SEED, min: 0, max: MAX_SEED }),
+  diff: enumParam(DIFFERENCE_MODES, 'saturate'),
+  change: booleanParam(true),
+  dx: integerParam({ defaultValue: 0, min: -MAX_SHIFT, max: MAX_SHIFT }),
+  dy: integerParam({ defaultValue: 0, min: -MAX_SHIFT, max: MAX_SHIFT }),
+};
+
+export function ImageArithmetic() {
+  const [query, setQuery] = useQueryState(QUERY_SCHEMA);
+  const { op, sigma, k: copies, quantize, seed, diff, change, dx, dy } = query;
+  const { image: original, uploaded, setUploaded } = useImageSource(query.image, query.luma);
+
+  // Averaging: one pass over the K copies gives the average and the variance curve up to K
+  const averaged = useMemo(
+    () => (op === 'average' ? averageNoisyCopies(original, copies, { sigma, seed, quantize }) : null),
+    [op, original, copies, sigma, seed, quantize]
+  );
+
+  // Subtraction: the second image gains a bright disc and is shifted by the misalignment
+  const later = useMemo(
+    () => shiftImage(change ? addDisc(original, 0.28, 0.72, 0.1, 60) : original, dx, dy),
+    [original, change, dx, dy]
+  );
+  const difference = useMemo(
+    () => (op === 'subtract' ? subtractImages(later, original, diff) : null),
+    [op, later, original, diff]
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Navigation */}
+        <nav className="mb-6">
+          <Link
+            to="/"
+            className="inline-flex items-center text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            <svg
+              className="w-5 h-5 mr-2"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Menu
+          </Link>
+        </nav>
+
+        {/* Header */}
+        <header className="mb-6">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">
+            Image Arithmetic
+          </h1>
+          <p className="text-lg text-gray-600">
+            Add images pixel by pixel to average noise away, or subtract them to see what changed
+          </p>
+        </header>
+
+        {/* Controls */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <ImageSourcePicker
+              image={original}
+              testImage={query.image}
+              luma={query.luma}
+              uploaded={uploaded}
+              onChange={({ testImage, luma }) => setQuery({ image: testImage, luma })}
+              onUpload={setUploaded}
+            />
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Operation</span>
+              <div className="flex gap-2">
+                {OPERATIONS.map(operation => (
+                  <button
+                    key={operation}
+                    onClick={() => setQuery({ op: operation })}
+                    className={`px-4 py-2 rounded-lg transition-colors ${
+                      op === operation
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                  >
+                    {operation === 'average' ? 'Averaging (addition)' : 'Subtraction'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {op === 'average' && averaged && (
+          <>
+            <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+              <h2 className="text-2xl font-semibold mb-2 text-gray-800">Averaging Noisy Copies</h2>
+              <p className="text-gray-600 mb-4">
+                Each copy is <InlineMath math="g_i(x, y) = f(x, y) + \eta_i(x, y)" /> with independent Gaussian
+                noise of variance <InlineMath math="\sigma^2" />. The average{' '}
+                <InlineMath math="\bar{g} = \frac{1}{K}\sum_{i=1}^{K} g_i" /> has{' '}
+                <InlineMath math="E\{\bar{g}\} = f" /> and <InlineMath math="\sigma^2_{\bar{g}} = \sigma^2 / K" />.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Noise σ: {sigma} (σ² = {sigma * sigma})
+                  </label>
+                  <input
+                    type="range"
+                    min={1}
+                    max={80}
+                    value={sigma}
+                    onChange={(e) => setQuery({ sigma: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Copies K: {copies}</label>
+                  <input
+                    type="range"
+                    min={1}
+                    max={MAX_COPIES}
+                    value={copies}
+                    onChange={(e) => setQuery({ k: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={quantize}
+                      onChange={(e) => setQuery({ quantize: e.target.checked })}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <span className="text-gray-700">Store each copy as 8 bits</span>
+                  </label>
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <span>Seed {seed}</span>
+                    <button
+                      onClick={() => setQuery({ seed: randomSeed() })}
+                      className="px-3 py-1 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                    >
+                      New draw
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+              {[
+                { title: 'Original f', image: original },
+                { title: 'One noisy copy g₁', image: averaged.firstCopy },
+                { title: `Average of K = ${copies}`, image: averaged.average },
+              ].map(({ title, image }) => (
+                <div key={title} className="bg-white rounded-lg shadow-lg p-4">
+                  <h3 className="text-lg font-semibold mb-2 text-gray-700">{title}</h3>
+                  <div className="flex justify-center bg-gray-50 rounded-lg">
+                    <ImageView image={image} width={360} height={300} />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+              <h2 className="text-2xl font-semibold mb-2 text-gray-800">Noise Variance against K</h2>
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-center">
+                <div className="lg:col-span-2">
+                  <NoiseVariancePlot
+                    measured={averaged.curve}
+                    variance={sigma * sigma}
+                    copies={copies}
+                    maxCopies={MAX_COPIES}
+                    width={720}
+                    height={320}
+                  />
+                </div>
+                <div className="space-y-3">
+                  <div className="bg-blue-50 rounded-lg p-3 text-center">
+                    <div className="text-sm text-gray-600">Measured at K = {copies}</div>
+                    <div className="text-xl font-bold text-gray-800">{averaged.variance.toFixed(2)}</div>
+                  </div>
+                  <div className="bg-green-50 rounded-lg p-3 text-center">
+                    <div className="text-sm text-gray-600">
+                      <InlineMath math={`\\sigma^2 / K = ${sigma * sigma} / ${copies}`} />
+                    </div>
+                    <div className="text-xl font-bold text-gray-800">{(sigma * sigma / copies).toFixed(2)}</div>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    The variance is measured as the mean of <InlineMath math="(\bar{g} - f)^2" /> over all pixels.
+                    {quantize
+                      ? ' Storing the copies as 8 bits clips the noise at 0 and 255: near black and white the noise is no longer zero-mean, so the average is biased and its error stops falling as 1/K.'
+                      : ' Without clipping it follows σ²/K closely; the small scatter comes from the finite number of pixels.'}
+                  </p>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+
+        {op === 'subtract' && difference && (
+          <>
+            <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+              <h2 className="text-2xl font-semibold mb-2 text-gray-800">Image Subtraction</h2>
+              <p className="text-gray-600 mb-4">
+                <InlineMath math="g(x, y) = f_2(x, y) - f_1(x, y)" /> is zero wherever nothing changed. Its values lie
+                in <InlineMath math="[-255, 255]" />, so they must be brought back into{' '}
+                <InlineMath math="[0, 255]" /> for display, and the two images must be registered: a shift of one pixel
+                already turns every edge into a false change.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="space-y-2">
+                  <span className="block text-sm font-medium text-gray-700">Out-of-range values</span>
+                  {DIFFERENCE_MODES.map(mode => (
+                    <label key={mode} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={diff === mode}
+                        onChange={() => setQuery({ diff: mode })}
+                        className="text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-gray-700">{DIFFERENCE_LABELS[mode]}</span>
+                    </label>
+                  ))}
+                  <label className="flex items-center gap-2 cursor-pointer pt-2">
+                    <input
+                      type="checkbox"
+                      checked={change}
+                      onChange={(e) => setQuery({ change: e.target.checked })}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <span className="text-gray-700">Add a new object to f₂</span>
+                  </label>
+                </div>
+                {(['dx', 'dy'] as const).map(axis => (
+                  <div key={axis}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Misalignment {axis === 'dx' ? 'Δx' : 'Δy'}: {query[axis]} px
+                    </label>
+                    <input
+                      type="range"
+                      min={-MAX_SHIFT}
+                      max={MAX_SHIFT}
+                      value={query[axis]}
+                      onChange={(e) => setQuery({ [axis]: parseInt(e.target.value) })}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6 text-center">
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <div className="text-sm text-gray-600">Raw difference range</div>
+                  <div className="text-xl font-bold text-gray-800">[{difference.min}, {difference.max}]</div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <div className="text-sm text-gray-600">Negative pixels</div>
+                  <div className="text-xl font-bold text-gray-800">{(100 * difference.negative).toFixed(1)}%</div>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-3 text-sm text-gray-700 flex items-center justify-center">
+                  {diff === 'saturate' && 'Negative differences are clipped to 0: only increases are visible.'}
+                  {diff === 'wrap' && 'Values are taken modulo 256: small negative differences turn almost white.'}
+                  {diff === 'rescale' && 'The range [min, max] is stretched over [0, 255]: no change shows as mid-gray.'}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+              {[
+                { title: 'f₁ (reference)', image: original },
+                { title: 'f₂ (later, shifted)', image: later },
+                { title: `Difference (${DIFFERENCE_LABELS[diff].toLowerCase()})`, image: difference.image },
+              ].map(({ title, image }) => (
+                <div key={title} className="bg-white rounded-lg shadow-lg p-4">
+                  <h3 className="text-lg font-semibold mb-2 text-gray-700">{title}</h3>
+                  <div className="flex justify-center bg-gray-50 rounded-lg">
+                    <ImageView image={image} width={360} height={300} />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+              <h3 className="text-lg font-semibold mb-2 text-gray-700">Histogram of the displayed difference</h3>
+              <HistogramPlot counts={grayHistogram(difference.image)} width={720} height={200} color="#7c3aed" />
+            </div>
+          </>
+        )}
+
+        {/* Explanation */}
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-bold mb-4 text-gray-800">Explanation</h2>
+          <div className="space-y-4 text-gray-700">
+            <p>
+              <strong>Addition:</strong> averaging works because the signal is the same in every copy while the noise
+              is uncorrelated: the noise variances add up to <InlineMath math="K\sigma^2" /> and dividing the sum by{' '}
+              <InlineMath math="K" /> divides that by <InlineMath math="K^2" />. The standard deviation only falls as{' '}
+              <InlineMath math="1/\sqrt{K}" />, so halving the noise takes four times as many images. Astronomy and
+              low-light imaging use it with a static scene and a fixed camera.
+            </p>
+            <p>
+              <strong>Subtraction:</strong> enhances differences between images, e.g. to detect changes in a scene or
+              in digital subtraction angiography. It only works if both images are aligned pixel by pixel; otherwise
+              the difference is dominated by the edges of everything in the scene.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ImageView } from '../components/ImageView';
+import { HistogramPlot } from '../components/HistogramPlot';
+import { TransferCurvePlot } from '../components/TransferCurvePlot';
+import { ImageSourcePicker } from '../components/ImageSourcePicker';
+import { useQueryState } from '../hooks/useQueryState';
+import { useImageSource } from '../hooks/useImageSource';
+import { applyLut, grayHistogram, LUMA_STANDARDS, TEST_IMAGES } from '../utils/image';
+import {
+  DEFAULT_CONTROL_POINTS,
+  INTENSITY_TRANSFORMS,
+  TRANSFORM_LABELS,
+  transformLut,
+  type ControlPoint,
+  type IntensityTransform,
+} from '../utils/intensityTransforms';
+import { enumParam, integerParam, numberParam } from '../utils/queryParams';
+import { InlineMath } from 'react-katex';
+import 'katex/dist/katex.min.css';
+
+const [FIRST_POINT, SECOND_POINT] = DEFAULT_CONTROL_POINTS;
+
+const QUERY_SCHEMA = {
+  image: enumParam(TEST_IMAGES, 'scene'),
+  luma: enumParam(LUMA_STANDARDS, 'bt601'),
+  transform: enumParam(INTENSITY_TRANSFORMS, 'piecewise'),
+  gamma: numberParam({ defaultValue: 0.5, min: 0.1, max: 5, step: 0.05 }),
+  r1: integerParam({ defaultValue: FIRST_POINT.r, min: 0, max: 255 }),
+  s1: integerParam({ defaultValue: FIRST_POINT.s, min: 0, max: 255 }),
+  r2: integerParam({ defaultValue: SECOND_POINT.r, min: 0, max: 255 }),
+  s2: integerParam({ defaultValue: SECOND_POINT.s, min: 0, max: 255 }),
+};
+
+const TRANSFORM_FORMULAS: Record<IntensityTransform, string> = {
+  negative: 's = L - 1 - r',
+  log: 's = c \\log(1 + r), \\quad c = \\frac{L - 1}{\\log L}',
+  gamma: 's = (L - 1) \\left(\\frac{r}{L - 1}\\right)^{\\gamma}',
+  piecewise: '(0, 0) \\to (r_1, s_1) \\to (r_2, s_2) \\to (L - 1, L - 1)',
+};
+
+export function IntensityTransformations() {
+  const [query, setQuery] = useQueryState(QUERY_SCHEMA);
+  const { transform, gamma } = query;
+  const { image: original, uploaded, setUploaded } = useImageSource(query.image, query.luma);
+
+  // r1 ≤ r2 whatever the URL says
+  const { r1, s1, r2, s2 } = query;
+  const points = useMemo<[ControlPoint, ControlPoint]>(
+    () => r1 <= r2
+      ? [{ r: r1, s: s1 }, { r: r2, s: s2 }]
+      : [{ r: r2, s: s2 }, { r: r1, s: s1 }],
+    [r1, s1, r2, s2]
+  );
+  const lut = useMemo(() => transformLut({ transform, gamma, points }), [transform, gamma, points]);
+  const transformed = useMemo(() => applyLut(original, lut), [original, lut]);
+  const originalHistogram = useMemo(() => grayHistogram(original), [original]);
+  const transformedHistogram = useMemo(() => grayHistogram(transformed), [transformed]);
+
+  const handlePointChange = (index: number, point: ControlPoint) => {
+    const first = (index === 0) === (r1 <= r2);
+    setQuery(first ? { r1: point.r, s1: point.s } : { r2: point.r, s2: point.s });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Navigation */}
+        <nav className="mb-6">
+          <Link
+            to="/"
+            className="inline-flex items-center text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            <svg
+              className="w-5 h-5 mr-2"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Menu
+          </Link>
+        </nav>
+
+        {/* Header */}
+        <header className="mb-6">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">
+            Intensity Transformations
+          </h1>
+          <p className="text-lg text-gray-600">
+            Map every gray level r of an image to a new level s = T(r): negatives, log and power-law curves, and
+            piecewise-linear contrast stretching
+          </p>
+        </header>
+
+        {/* Controls */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+            <h2 className="text-2xl font-semibold text-gray-800">Transformation</h2>
+
+            <ImageSourcePicker
+              image={original}
+              testImage={query.image}
+              luma={query.luma}
+              uploaded={uploaded}
+              onChange={({ testImage, luma }) => setQuery({ image: testImage, luma })}
+              onUpload={setUploaded}
+            />
+
+            <div className="flex flex-wrap gap-4">
+              {INTENSITY_TRANSFORMS.map(t => (
+                <label key={t} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    checked={transform === t}
+                    onChange={() => setQuery({ transform: t })}
+                    className="text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-gray-700">{TRANSFORM_LABELS[t]}</span>
+                </label>
+              ))}
+            </div>
+
+            <div className="p-3 bg-blue-50 rounded-lg text-lg">
+              <InlineMath math={TRANSFORM_FORMULAS[transform]} />
+            </div>
+
+            {transform === 'gamma' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  γ = {gamma.toFixed(2)}
+                </label>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={5}
+                  step={0.05}
+                  value={gamma}
+                  onChange={(e) => setQuery({ gamma: parseFloat(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  <InlineMath math="\gamma < 1" /> expands the dark levels and compresses the bright ones;{' '}
+                  <InlineMath math="\gamma > 1" /> does the opposite.
+                </p>
+              </div>
+            )}
+
+            {transform === 'piecewise' && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600">
+                  Drag the red control points on the curve. Slopes above 1 stretch the contrast of the levels
+                  between <InlineMath math="r_1" /> and <InlineMath math="r_2" />; <InlineMath math="r_1 = r_2" />{' '}
+                  with <InlineMath math="s_1 = 0, s_2 = L - 1" /> is a threshold.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => setQuery({
+                      r1: FIRST_POINT.r,
+                      s1: FIRST_POINT.s,
+                      r2: SECOND_POINT.r,
+                      s2: SECOND_POINT.s,
+                    })}
+                    className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                  >
+                    Reset points
+                  </button>
+                  <button
+                    onClick={() => {
+                      // Stretch [r_min, r_max] of the image over the full range
+                      const minLevel = originalHistogram.findIndex(n => n > 0);
+                      const maxLevel = 255 - [...originalHistogram].reverse().findIndex(n => n > 0);
+                      setQuery({ r1: minLevel, s1: 0, r2: maxLevel, s2: 255 });
+                    }}
+                    className="px-3 py-1 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                  >
+                    Full-range stretch
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-2xl font-semibold mb-2 text-gray-800">Transfer Curve s = T(r)</h2>
+            <TransferCurvePlot
+              lut={lut}
+              width={420}
+              height={360}
+              points={transform === 'piecewise' ? points : undefined}
+              onPointChange={handlePointChange}
+            />
+          </div>
+        </div>
+
+        {/* Images and histograms */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          {[
+            { title: 'Original', image: original, histogram: originalHistogram, color: '#6b7280' },
+            { title: 'Transformed', image: transformed, histogram: transformedHistogram, color: '#2563eb' },
+          ].map(({ title, image, histogram, color }) => (
+            <div key={title} className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="text-2xl font-semibold mb-4 text-gray-800">{title}</h2>
+              <div className="flex justify-center bg-gray-50 rounded-lg">
+                <ImageView image={image} width={480} height={320} />
+              </div>
+              <h3 className="text-lg font-semibold mt-4 mb-2 text-gray-700">Histogram</h3>
+              <HistogramPlot counts={histogram} width={520} height={180} color={color} />
+            </div>
+          ))}
+        </div>
+
+        {/* Explanation */}
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-bold mb-4 text-gray-800">Explanation</h2>
+          <div className="space-y-4 text-gray-700">
+            <p>
+              A point transformation looks at one pixel at a time: the output level depends only on the input level,{' '}
+              <InlineMath math="s = T(r)" />, so it can be stored as a lookup table of{' '}
+              <InlineMath math="L = 256" /> entries and applied to every pixel.
+            </p>
+            <p>
+              <strong>Negative:</strong> reverses the gray scale, which makes white or gray detail in large dark
+              regions easier to see.
+            </p>
+            <p>
+              <strong>Logarithmic:</strong> expands the dark levels and compresses the bright ones, useful for images
+              with a huge dynamic range such as Fourier spectra.
+            </p>
+            <p>
+              <strong>Power law:</strong> the same idea with an adjustable shape; displays and cameras apply it as
+              gamma correction.
+            </p>
+            <p>
+              <strong>Piecewise linear:</strong> contrast stretching. The histogram of the output shows the levels
+              between <InlineMath math="r_1" /> and <InlineMath math="r_2" /> spread over{' '}
+              <InlineMath math="[s_1, s_2]" />; since T maps integers to integers, stretching leaves gaps in the
+              histogram and compressing merges levels.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,46 +1,37 @@
-import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { CircuitVisualization } from '../components/CircuitVisualization';
+import { useQueryState } from '../hooks/useQueryState';
+import { numberParam, enumParam } from '../utils/queryParams';
 import { InlineMath } from 'react-katex';
 import 'katex/dist/katex.min.css';
 
-export function OhmsLaw() {
-  const [voltage, setVoltage] = useState(12); // Volts
-  const [current, setCurrent] = useState(2); // Amperes
-  const [resistance, setResistance] = useState(6); // Ohms
-  const [activeVariable, setActiveVariable] = useState<'voltage' | 'current' | 'resistance'>('voltage');
+// Current is derived from V and R, so the URL holds V = I × R exactly
+const QUERY_SCHEMA = {
+  voltage: numberParam({ defaultValue: 12, min: 1, max: 24 }), // Volts
+  resistance: numberParam({ defaultValue: 6, min: 0.1, max: 240 }), // Ohms
+  active: enumParam(['voltage', 'current', 'resistance'] as const, 'voltage'),
+};
 
-  // Calculate based on Ohm's Law: V = I × R
-  useEffect(() => {
-    if (activeVariable === 'voltage') {
-      // V = I × R
-      setVoltage(current * resistance);
-    } else if (activeVariable === 'current') {
-      // I = V / R
-      setCurrent(voltage / resistance);
-    } else if (activeVariable === 'resistance') {
-      // R = V / I
-      setResistance(voltage / current);
-    }
-  }, [voltage, current, resistance, activeVariable]);
+export function OhmsLaw() {
+  const [query, setQuery] = useQueryState(QUERY_SCHEMA);
+  const { voltage, resistance, active: activeVariable } = query;
+  const current = voltage / resistance; // Amperes
 
+  // Ohm's Law: V = I × R
   const handleVoltageChange = (value: number) => {
-    setActiveVariable('voltage');
-    setVoltage(value);
-    setCurrent(value / resistance);
+    // I = V / R
+    setQuery({ active: 'voltage', voltage: value });
   };
 
   const handleCurrentChange = (value: number) => {
-    setActiveVariable('current');
-    setCurrent(value);
-    setResistance(voltage / value);
+    // R = V / I
+    setQuery({ active: 'current', resistance: voltage / value });
   };
 
   const handleResistanceChange = (value: number) => {
-    setActiveVariable('resistance');
-    setResistance(value);
-    setCurrent(voltage / value);
+    // I = V / R
+    setQuery({ active: 'resistance', resistance: value });
   };
 
   return (
@@ -1,18 +1,334 @@
-import { useState } from 'react';
+import { useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { SamplingVisualization } from '../components/SamplingVisualization';
-import { SIGNAL_CONFIG, getSamplingStatus } from '../utils/samplingCalculator';
+import { SignalEditor } from '../components/SignalEditor';
+import { SpectrumFoldingPlot } from '../components/SpectrumFoldingPlot';
+import { SpectrumPanel, type SpectrumSettings } from '../components/SpectrumPanel';
+import { AntiAliasingFilterPanel, type FilterErrors } from '../components/AntiAliasingFilterPanel';
+import { QuantizerPanel } from '../components/QuantizerPanel';
+import { AudioPlaybackPanel, type AudioSettings } from '../components/AudioPlaybackPanel';
+import { SamplingClockPanel, type ClockErrors } from '../components/SamplingClockPanel';
+import { BandpassPanel } from '../components/BandpassPanel';
+import { UndersamplingChart } from '../components/UndersamplingChart';
+import {
+  componentToLatex,
+  DEFAULT_SIGNAL,
+  getSamplingStatus,
+  getSignalConfig,
+  parseComponents,
+  reconstructWindow,
+  serializeComponents,
+  compareReconstructionMethods,
+  componentRecovery,
+  sampleSignal,
+  signalToLatex,
+  type RecoveryStatus,
+  type SignalComponent,
+  type SignalDefinition,
+} from '../utils/samplingCalculator';
+import {
+  DEFAULT_HALF_WIDTH,
+  RECONSTRUCTION_LABELS,
+  RECONSTRUCTION_METHODS,
+  type ReconstructionMethod,
+} from '../utils/reconstruction';
+import {
+  applyFilter,
+  componentAttenuations,
+  FILTER_TYPES,
+  type FilterOptions,
+} from '../utils/antiAliasing';
+import {
+  quantizeSamples,
+  sqnr,
+  QUANTIZER_MODES,
+  type QuantizerOptions,
+} from '../utils/quantization';
+import { AUDIO_RATES, type SamplingChain } from '../utils/audio';
+import {
+  clockTimes,
+  createSampleClock,
+  jitterSnr,
+  CLOCK_LABELS,
+  CLOCK_MODES,
+  JITTER_DISTRIBUTIONS,
+  type ClockOptions,
+} from '../utils/jitter';
+import { DEFAULT_SEED, MAX_SEED } from '../utils/random';
+import {
+  BANDPASS_EXAMPLE,
+  DEFAULT_BAND,
+  undersamplingRanges,
+  type SignalBand,
+} from '../utils/bandpass';
+import { useQueryState } from '../hooks/useQueryState';
+import {
+  computeSpectrum,
+  DEFAULT_SPECTRUM_OPTIONS,
+  SPECTRUM_VIEWS,
+  WINDOW_TYPES,
+  ZERO_PAD_FACTORS,
+} from '../utils/fft';
+import {
+  integerParam,
+  numberParam,
+  booleanParam,
+  enumParam,
+  numberChoiceParam,
+  type QueryParam,
+} from '../utils/queryParams';
 import { InlineMath } from 'react-katex';
 import 'katex/dist/katex.min.css';
 
+const componentsParam: QueryParam<SignalComponent[]> = {
+  defaultValue: DEFAULT_SIGNAL.components,
+  parse: parseComponents,
+  serialize: serializeComponents,
+  equals: (a, b) => serializeComponents(a) === serializeComponents(b),
+};
+
+const RECONSTRUCTION_CHOICES: readonly (ReconstructionMethod | 'none')[] = ['none', ...RECONSTRUCTION_METHODS];
+
+// Observation window limits, in ms
+const WINDOW_START_MAX = 1000;
+const WINDOW_LENGTH_RANGE: [number, number] = [0.5, 200];
+
+const QUERY_SCHEMA = {
+  fs: numberParam({ defaultValue: 500, min: 100, max: 1000, step: 10 }),
+  offset: numberParam({ defaultValue: 0, min: 0, max: 0.95, step: 0.05 }),
+  // Observation window, ms
+  tStart: numberParam({ defaultValue: 0, min: 0, max: WINDOW_START_MAX, step: 0.001 }),
+  tLength: numberParam({ defaultValue: 20, min: WINDOW_LENGTH_RANGE[0], max: WINDOW_LENGTH_RANGE[1], step: 0.001 }),
+  bandpass: booleanParam(false),
+  bandLow: numberParam({ defaultValue: DEFAULT_BAND.low, min: 0, max: 500, step: 5 }),
+  bandHigh: numberParam({ defaultValue: DEFAULT_BAND.high, min: 0, max: 500, step: 5 }),
+  reconstruction: enumParam(RECONSTRUCTION_CHOICES, 'sinc'),
+  halfWidth: integerParam({ defaultValue: DEFAULT_HALF_WIDTH, min: 1, max: 40 }),
+  components: componentsParam,
+  dc: numberParam({ defaultValue: DEFAULT_SIGNAL.dc, min: -100, max: 100 }),
+  window: enumParam(WINDOW_TYPES, DEFAULT_SPECTRUM_OPTIONS.window),
+  pad: numberChoiceParam(ZERO_PAD_FACTORS, DEFAULT_SPECTRUM_OPTIONS.zeroPadFactor),
+  pow2: booleanParam(true),
+  spectrum: enumParam(SPECTRUM_VIEWS, 'magnitude'),
+  filter: enumParam(FILTER_TYPES, 'none'),
+  cutoff: numberParam({ defaultValue: 250, min: 10, max: 500, step: 5 }),
+  order: integerParam({ defaultValue: 4, min: 1, max: 12 }),
+  taps: numberParam({ defaultValue: 101, min: 11, max: 301, step: 2 }),
+  adc: booleanParam(false),
+  bits: integerParam({ defaultValue: 4, min: 1, max: 16 }),
+  adcMin: numberParam({ defaultValue: 2, min: -100, max: 100 }),
+  adcMax: numberParam({ defaultValue: 12, min: -100, max: 100 }),
+  rounding: enumParam(QUANTIZER_MODES, 'round'),
+  dither: booleanParam(false),
+  clock: enumParam(CLOCK_MODES, 'uniform'),
+  jitterDist: enumParam(JITTER_DISTRIBUTIONS, 'gaussian'),
+  jitter: numberParam({ defaultValue: 50, min: 0, max: 500, step: 5 }),  // RMS jitter, µs
+  naive: booleanParam(true),
+  seed: integerParam({ defaultValue: DEFAULT_SEED, min: 0, max: MAX_SEED }),
+  audioRate: numberChoiceParam(AUDIO_RATES, 44100),
+  audioSeconds: integerParam({ defaultValue: 2, min: 1, max: 5 }),
+  sweepFrom: numberParam({ defaultValue: 200, min: 100, max: 1000, step: 10 }),
+  sweepTo: numberParam({ defaultValue: 800, min: 100, max: 1000, step: 10 }),
+  sweepSeconds: integerParam({ defaultValue: 6, min: 2, max: 20 }),
+};
+
+const RECOVERY_STYLES: Record<RecoveryStatus, { label: string; className: string }> = {
+  recovered: { label: 'Preserved', className: 'text-green-700' },
+  critical: { label: 'At f_s/2 - phase lost', className: 'text-orange-700' },
+  aliased: { label: 'Aliased', className: 'text-red-700' },
+};
+
+const SPECTRUM_SAMPLES = 200; // Samples analysed by the DFT
+const JITTER_SAMPLES = 4096;  // Samples behind the measured jitter SNR
+
 export function SamplingRateExercise() {
-  const [samplingRate, setSamplingRate] = useState(500);
-  const [showReconstruction, setShowReconstruction] = useState(true);
-  
-  const { nyquistRate, fMax } = SIGNAL_CONFIG;
-  const sampleStatus = getSamplingStatus(samplingRate);
-  const timeWindow: [number, number] = [0, 0.02]; // 20ms window
+  const [query, setQuery] = useQueryState(QUERY_SCHEMA);
+  const { fs: samplingRate, reconstruction, halfWidth, components, dc } = query;
+
+  const signal: SignalDefinition = useMemo(() => ({ components, dc }), [components, dc]);
+
+  // Observation window; the URL holds its start and length in ms
+  const timeWindow = useMemo<[number, number]>(
+    () => [query.tStart / 1000, (query.tStart + query.tLength) / 1000],
+    [query.tStart, query.tLength]
+  );
+  const { nyquistRate, fMax } = getSignalConfig(signal);
+
+  // The sampler sees the output of the anti-aliasing filter (the signal itself when there is none)
+  const filterOptions = useMemo<FilterOptions>(() => ({
+    type: query.filter,
+    cutoff: query.cutoff,
+    order: query.order,
+    taps: query.taps,
+  }), [query.filter, query.cutoff, query.order, query.taps]);
+  const sampledSignal = useMemo(() => applyFilter(signal, filterOptions), [signal, filterOptions]);
+  const filterActive = filterOptions.type !== 'none';
+
+  // Bandpass mode judges f_s by the undersampling ranges of [f_L, f_H]; an inverted band falls back to the default
+  const band = useMemo<SignalBand>(
+    () => (query.bandHigh > query.bandLow ? { low: query.bandLow, high: query.bandHigh } : DEFAULT_BAND),
+    [query.bandLow, query.bandHigh]
+  );
+  const activeBand = query.bandpass ? band : undefined;
+  const sampleStatus = getSamplingStatus(samplingRate, sampledSignal, activeBand);
+
+  // Sampling phase: the URL holds the offset as a fraction of Ts
+  const sampleOffset = query.offset / samplingRate;
+  const recovery = componentRecovery(signal, samplingRate, sampleOffset);
+
+  // Sampling clock: ideal, jittered or random instants
+  const clockOptions = useMemo<ClockOptions>(() => ({
+    mode: query.clock,
+    distribution: query.jitterDist,
+    rmsJitter: query.jitter * 1e-6,
+    seed: query.seed,
+    assumeUniform: query.naive,
+  }), [query.clock, query.jitterDist, query.jitter, query.seed, query.naive]);
+  const clock = useMemo(() => createSampleClock(samplingRate, clockOptions), [samplingRate, clockOptions]);
+
+  const jitterStats = useMemo(() => {
+    if (clockOptions.mode !== 'jitter') return null;
+    const nominal = Array.from({ length: JITTER_SAMPLES }, (_, n) => sampleOffset + n / samplingRate);
+    const actual = clockTimes(nominal, samplingRate, clockOptions);
+    return jitterSnr(sampledSignal, nominal, actual, clockOptions.rmsJitter);
+  }, [clockOptions, samplingRate, sampleOffset, sampledSignal]);
+
+  // ADC model; an inverted range from the URL falls back to the defaults
+  const quantizerOptions = useMemo<QuantizerOptions>(() => ({
+    bits: query.bits,
+    range: query.adcMax > query.adcMin
+      ? [query.adcMin, query.adcMax]
+      : [QUERY_SCHEMA.adcMin.defaultValue, QUERY_SCHEMA.adcMax.defaultValue],
+    mode: query.rounding,
+    dither: query.dither,
+  }), [query.bits, query.adcMin, query.adcMax, query.rounding, query.dither]);
+  const quantizer = query.adc ? quantizerOptions : undefined;
+  const quantize = useMemo(
+    () => (quantizer ? (values: number[]) => quantizeSamples(values, quantizer).quantized : undefined),
+    [quantizer]
+  );
+
+  // A longer record of samples for the DFT and the SQNR
+  const recordSamples = useMemo(() => {
+    const sampleTimes = Array.from({ length: SPECTRUM_SAMPLES }, (_, n) => sampleOffset + n / samplingRate);
+    return sampleSignal(clock ? clock.times(sampleTimes) : sampleTimes, sampledSignal);
+  }, [sampledSignal, samplingRate, sampleOffset, clock]);
+  const quantization = useMemo(
+    () => quantizeSamples(recordSamples, quantizerOptions),
+    [recordSamples, quantizerOptions]
+  );
+  const sqnrStats = sqnr(recordSamples, quantization, quantizerOptions.bits);
+
+  const reconstructionErrors = useMemo(
+    () => compareReconstructionMethods(sampledSignal, samplingRate, timeWindow, halfWidth, {
+      reference: signal,
+      quantize,
+      offset: sampleOffset,
+      clock,
+    }),
+    [sampledSignal, samplingRate, timeWindow, halfWidth, signal, quantize, sampleOffset, clock]
+  );
+  const filterErrors = useMemo<FilterErrors>(() => {
+    const options = { method: reconstruction === 'none' ? 'sinc' : reconstruction, halfWidth } as const;
+    const error = (sampled: SignalDefinition, reference: SignalDefinition) =>
+      reconstructWindow(sampled, samplingRate, timeWindow, options, {
+        reference,
+        quantize,
+        offset: sampleOffset,
+        clock,
+      }).error;
+    return {
+      unfiltered: error(signal, signal),
+      filtered: error(sampledSignal, signal),
+      filteredOutput: error(sampledSignal, sampledSignal),
+    };
+  }, [signal, sampledSignal, samplingRate, timeWindow, reconstruction, halfWidth, quantize, sampleOffset, clock]);
+  const clockErrors = useMemo<ClockErrors | null>(() => {
+    if (clockOptions.mode === 'uniform') return null;
+    const options = { method: reconstruction === 'none' ? 'sinc' : reconstruction, halfWidth } as const;
+    const error = (assumeUniform: boolean) =>
+      reconstructWindow(sampledSignal, samplingRate, timeWindow, options, {
+        reference: signal,
+        quantize,
+        offset: sampleOffset,
+        clock: createSampleClock(samplingRate, { ...clockOptions, assumeUniform }),
+      }).error;
+    return { naive: error(true), aware: error(false) };
+  }, [clockOptions, sampledSignal, samplingRate, timeWindow, reconstruction, halfWidth, signal, quantize, sampleOffset]);
+
+  const spectrumSettings: SpectrumSettings = {
+    window: query.window,
+    zeroPadFactor: query.pad,
+    powerOfTwo: query.pow2,
+    view: query.spectrum,
+  };
+  const spectrum = useMemo(
+    () => computeSpectrum(query.adc ? quantization.quantized : recordSamples, {
+      sampleRate: samplingRate,
+      window: query.window,
+      zeroPadFactor: query.pad,
+      powerOfTwo: query.pow2,
+    }),
+    [query.adc, quantization, recordSamples, samplingRate, query.window, query.pad, query.pow2]
+  );
+
+  const audioSettings: AudioSettings = {
+    audioRate: query.audioRate,
+    duration: query.audioSeconds,
+    sweep: [query.sweepFrom, query.sweepTo],
+    sweepDuration: query.sweepSeconds,
+  };
+  const audioChain: SamplingChain = {
+    signal,
+    sampled: sampledSignal,
+    samplingRate,
+    reconstruction: { method: reconstruction === 'none' ? 'sinc' : reconstruction, halfWidth },
+    quantize,
+    offset: sampleOffset,
+  };
+
+  const handleQuantizerChange = (changes: Partial<QuantizerOptions> & { enabled?: boolean }) => {
+    setQuery({
+      adc: changes.enabled,
+      bits: changes.bits,
+      adcMin: changes.range?.[0],
+      adcMax: changes.range?.[1],
+      rounding: changes.mode,
+      dither: changes.dither,
+    });
+  };
+
+  // Input range spanning the record, with a 1% margin so the peaks are not clipped
+  const handleFitRange = () => {
+    const low = Math.min(...recordSamples);
+    const high = Math.max(...recordSamples);
+    const margin = Math.max(1e-3, (high - low) * 0.01);
+    setQuery({
+      adcMin: parseFloat((low - margin).toFixed(3)),
+      adcMax: parseFloat((high + margin).toFixed(3)),
+    });
+  };
+
+  // Zoom and pan arrive in seconds; keep the window inside the URL limits
+  const handleTimeWindowChange = ([start, end]: [number, number]) => {
+    const [minLength, maxLength] = WINDOW_LENGTH_RANGE;
+    const length = Math.min(maxLength, Math.max(minLength, (end - start) * 1000));
+    const centre = ((start + end) / 2) * 1000;
+    setQuery({
+      tStart: parseFloat(Math.min(WINDOW_START_MAX, Math.max(0, centre - length / 2)).toFixed(3)),
+      tLength: parseFloat(length.toFixed(3)),
+    });
+  };
+
+  const handleSpectrumChange = (changes: Partial<SpectrumSettings>) => {
+    setQuery({
+      window: changes.window,
+      pad: changes.zeroPadFactor,
+      pow2: changes.powerOfTwo,
+      spectrum: changes.view,
+    });
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
@@ -59,7 +375,7 @@ export function SamplingRateExercise() {
             </p>
             <div className="bg-blue-50 rounded-lg p-4 border-l-4 border-blue-500">
               <div className="text-lg font-mono mb-2">
-                <InlineMath math="x(t) = \cos(100\pi t) + \sin(200\pi t) + \cos(500\pi t + \pi/4) + 7" />
+                <InlineMath math={signalToLatex(signal)} />
               </div>
             </div>
             <p className="text-gray-700">
@@ -68,6 +384,12 @@ export function SamplingRateExercise() {
           </div>
         </div>
 
+        {/* Signal Editor */}
+        <SignalEditor
+          signal={signal}
+          onChange={(next) => setQuery({ components: next.components, dc: next.dc })}
+        />
+
         {/* Solution Steps */}
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
           <h2 className="text-2xl font-semibold mb-4 text-gray-800">Solution</h2>
@@ -76,18 +398,17 @@ export function SamplingRateExercise() {
               To find the minimum sampling rate, we need to identify the maximum frequency component in the signal:
             </p>
             <ul className="list-disc list-inside space-y-2 text-gray-700 ml-4">
-              <li>
-                <InlineMath math="\cos(100\pi t)" />: <InlineMath math="f_1 = 50 \text{ Hz}" />
-              </li>
-              <li>
-                <InlineMath math="\sin(200\pi t)" />: <InlineMath math="f_2 = 100 \text{ Hz}" />
-              </li>
-              <li>
-                <InlineMath math="\cos(500\pi t + \pi/4)" />: <InlineMath math="f_3 = 250 \text{ Hz}" />
-              </li>
-              <li>
-                Constant term: <InlineMath math="f_0 = 0 \text{ Hz}" /> (DC component)
-              </li>
+              {components.map((component, i) => (
+                <li key={i}>
+                  <InlineMath math={componentToLatex(component)} />:{' '}
+                  <InlineMath math={`f_{${i + 1}} = ${component.frequency} \\text{ Hz}`} />
+                </li>
+              ))}
+              {dc !== 0 && (
+                <li>
+                  Constant term: <InlineMath math="f_0 = 0 \text{ Hz}" /> (DC component)
+                </li>
+              )}
             </ul>
             <p className="text-gray-700">
               The maximum frequency is <InlineMath math={`f_{\\text{max}} = ${fMax} \\text{ Hz}`} />.
@@ -95,16 +416,78 @@ export function SamplingRateExercise() {
             <div className="bg-green-50 rounded-lg p-4 border-l-4 border-green-500">
               <p className="text-gray-800 font-semibold mb-2">Nyquist-Shannon Theorem:</p>
               <div className="text-lg mb-2">
-                <InlineMath math={`f_s \\geq 2f_{\\text{max}} = 2 \\times ${fMax} = ${nyquistRate} \\text{ Hz}`} />
+                <InlineMath math={`f_s > 2f_{\\text{max}} = 2 \\times ${fMax} = ${nyquistRate} \\text{ Hz}`} />
               </div>
               <p className="text-gray-700">
-                Therefore, the <strong>minimum sampling rate (Nyquist rate)</strong> required is{' '}
-                <strong>{nyquistRate} Hz</strong>.
+                Therefore, the sampling rate must exceed the <strong>Nyquist rate</strong> of{' '}
+                <strong>{nyquistRate} Hz</strong>; sampling at exactly {nyquistRate} Hz is not enough
+                (see the explanation below).
               </p>
             </div>
           </div>
         </div>
 
+        {/* Bandpass sampling */}
+        <BandpassPanel
+          enabled={query.bandpass}
+          band={band}
+          onChange={(changes) => setQuery({
+            bandpass: changes.enabled,
+            bandLow: changes.low,
+            bandHigh: changes.high,
+          })}
+          onLoadExample={() => setQuery({
+            components: BANDPASS_EXAMPLE.components,
+            dc: BANDPASS_EXAMPLE.dc,
+            bandpass: true,
+            bandLow: DEFAULT_BAND.low,
+            bandHigh: DEFAULT_BAND.high,
+            fs: 280,
+          })}
+          signal={signal}
+          samplingRate={samplingRate}
+        />
+
+        {/* Anti-aliasing filter */}
+        <AntiAliasingFilterPanel
+          options={filterOptions}
+          onChange={(changes) => setQuery({
+            filter: changes.type,
+            cutoff: changes.cutoff,
+            order: changes.order,
+            taps: changes.taps,
+          })}
+          signal={signal}
+          attenuations={componentAttenuations(signal, filterOptions)}
+          errors={filterErrors}
+          samplingRate={samplingRate}
+        />
+
+        {/* ADC quantization */}
+        <QuantizerPanel
+          enabled={query.adc}
+          options={quantizerOptions}
+          onChange={handleQuantizerChange}
+          onFitRange={handleFitRange}
+          result={quantization}
+          stats={sqnrStats}
+        />
+
+        {/* Sampling clock */}
+        <SamplingClockPanel
+          options={clockOptions}
+          onChange={(changes) => setQuery({
+            clock: changes.mode,
+            jitterDist: changes.distribution,
+            jitter: changes.rmsJitter === undefined ? undefined : Math.round(changes.rmsJitter * 1e6),
+            seed: changes.seed,
+            naive: changes.assumeUniform,
+          })}
+          snr={jitterStats}
+          errors={clockErrors}
+          samplingRate={samplingRate}
+        />
+
         {/* Interactive Controls */}
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
           <h2 className="text-2xl font-semibold mb-4 text-gray-800">Interactive Visualization</h2>
@@ -122,7 +505,7 @@ export function SamplingRateExercise() {
                 max="1000"
                 step="10"
                 value={samplingRate}
-                onChange={(e) => setSamplingRate(parseInt(e.target.value))}
+                onChange={(e) => setQuery({ fs: parseInt(e.target.value) })}
                 className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
               />
               <span className="text-sm text-gray-600 w-16">1000 Hz</span>
@@ -139,6 +522,22 @@ export function SamplingRateExercise() {
               </motion.span>
             </div>
             
+            {query.bandpass && (
+              <div className="mt-2">
+                <UndersamplingChart
+                  ranges={undersamplingRanges(band)}
+                  samplingRate={samplingRate}
+                  minRate={100}
+                  maxRate={1000}
+                  width={900}
+                  height={80}
+                />
+                <p className="text-sm text-gray-600">
+                  Green: sampling rates that keep the {band.low}–{band.high} Hz band free of overlapping replicas.
+                </p>
+              </div>
+            )}
+
             {/* Status indicator */}
             <div className={`mt-4 p-3 rounded-lg border-l-4 ${
               sampleStatus.status === 'adequate' 
@@ -159,28 +558,158 @@ export function SamplingRateExercise() {
             </div>
           </div>
 
-          {/* Toggle Reconstruction */}
-          <div className="mb-4">
-            <label className="flex items-center gap-2 cursor-pointer">
+          {/* Sampling phase */}
+          <div className="mb-6">
+            <label className="block text-lg font-semibold text-gray-800 mb-2">
+              Sampling offset: τ = {query.offset.toFixed(2)} T_s ({(sampleOffset * 1000).toFixed(3)} ms)
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={0.95}
+              step={0.05}
+              value={query.offset}
+              onChange={(e) => setQuery({ offset: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+            <p className="text-sm text-gray-600 mt-1">
+              Samples are taken at <InlineMath math="t = \tau + nT_s" />. Below <InlineMath math="f_s/2" /> the
+              offset only moves the dots; a component exactly at <InlineMath math="f_s/2" /> depends on it entirely.
+            </p>
+            {recovery.filter(r => r.status === 'critical').map(r => {
+              const component = components[r.component];
+              return (
+                <div key={r.component} className="mt-3 p-3 rounded-lg border-l-4 bg-orange-50 border-orange-500 text-sm">
+                  <p className="text-gray-800">
+                    <InlineMath math={componentToLatex(component)} /> sits at{' '}
+                    <InlineMath math={`f_s/2 = ${samplingRate / 2} \\text{ Hz}`} />: its samples are{' '}
+                    <InlineMath math="A\cos\theta\,(-1)^n" /> with{' '}
+                    <InlineMath math={`\\theta = ${(r.samplePhase * 180 / Math.PI).toFixed(1)}^\\circ`} />.
+                  </p>
+                  <p className="text-orange-800 font-semibold mt-1">
+                    {r.apparentAmplitude < 1e-6 * Math.abs(component.amplitude)
+                      ? 'Every sample is zero: the component vanishes from the samples.'
+                      : `The samples carry amplitude ${r.apparentAmplitude.toFixed(3)} of ${Math.abs(component.amplitude)}; `
+                        + 'the phase is lost, so no reconstruction can tell which sinusoid produced them.'}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Reconstruction method */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <label className="block">
+              <span className="text-lg font-semibold text-gray-800">Reconstruction method</span>
+              <select
+                value={reconstruction}
+                onChange={(e) => setQuery({ reconstruction: e.target.value as ReconstructionMethod | 'none' })}
+                className="mt-2 block w-full rounded-lg border border-gray-300 p-2"
+              >
+                <option value="none">None (samples only)</option>
+                {RECONSTRUCTION_METHODS.map(method => (
+                  <option key={method} value={method}>{RECONSTRUCTION_LABELS[method]}</option>
+                ))}
+              </select>
+            </label>
+            <div>
+              <label className="block text-lg font-semibold text-gray-800 mb-2">
+                Kernel half-width: {halfWidth} samples
+              </label>
               <input
-                type="checkbox"
-                checked={showReconstruction}
-                onChange={(e) => setShowReconstruction(e.target.checked)}
-                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                type="range"
+                min={1}
+                max={40}
+                value={halfWidth}
+                onChange={(e) => setQuery({ halfWidth: parseInt(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
               />
-              <span className="text-gray-700">Show reconstructed signal (sinc interpolation)</span>
-            </label>
+              <p className="text-sm text-gray-600 mt-1">
+                Samples used on each side by the truncated sinc and Lanczos kernels
+              </p>
+            </div>
+          </div>
+
+          {/* RMS error of every method */}
+          <div className="mt-6 grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+            {RECONSTRUCTION_METHODS.map(method => (
+              <button
+                key={method}
+                onClick={() => setQuery({ reconstruction: method })}
+                className={`rounded-lg p-3 border-2 transition-colors ${
+                  method === reconstruction ? 'border-blue-500 bg-blue-50' : 'border-transparent bg-gray-50 hover:bg-gray-100'
+                }`}
+              >
+                <div className="text-sm text-gray-600">{RECONSTRUCTION_LABELS[method]}</div>
+                <div className="text-lg font-bold text-gray-800">{reconstructionErrors[method].toFixed(4)}</div>
+                <div className="text-xs text-gray-500">RMS error</div>
+              </button>
+            ))}
           </div>
         </div>
 
         {/* Visualization */}
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
           <h2 className="text-xl font-semibold mb-4 text-gray-700">Signal Visualization</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Window start: {query.tStart.toFixed(2)} ms
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={WINDOW_START_MAX}
+                step={0.5}
+                value={Math.min(WINDOW_START_MAX, query.tStart)}
+                onChange={(e) => setQuery({ tStart: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Window length: {query.tLength.toFixed(2)} ms
+              </label>
+              <input
+                type="range"
+                min={WINDOW_LENGTH_RANGE[0]}
+                max={WINDOW_LENGTH_RANGE[1]}
+                step={0.5}
+                value={query.tLength}
+                onChange={(e) => setQuery({ tLength: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+            <div className="flex items-end gap-3">
+              <button
+                onClick={() => setQuery({
+                  tStart: QUERY_SCHEMA.tStart.defaultValue,
+                  tLength: QUERY_SCHEMA.tLength.defaultValue,
+                })}
+                className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                Reset view
+              </button>
+              <span className="text-sm text-gray-500">Scroll to zoom, drag to pan</span>
+            </div>
+          </div>
           <div className="mb-4 text-sm text-gray-600">
             <p className="mb-2">
               <span className="inline-block w-3 h-3 bg-blue-500 mr-2"></span>
               <strong>Blue line:</strong> Original continuous signal
             </p>
+            {filterActive && (
+              <p className="mb-2">
+                <span className="inline-block w-3 h-3 bg-violet-500 mr-2"></span>
+                <strong>Purple line:</strong> Output of the anti-aliasing filter, which is what gets sampled
+              </p>
+            )}
+            {query.adc && (
+              <p className="mb-2">
+                <span className="inline-block w-3 h-3 bg-amber-700 mr-2"></span>
+                <strong>Staircase:</strong> Quantized samples held at their ADC level ({quantizerOptions.bits} bits)
+              </p>
+            )}
             <p className="mb-2">
               <span className={`inline-block w-3 h-3 mr-2 ${
                 sampleStatus.status === 'adequate'
@@ -190,8 +719,9 @@ export function SamplingRateExercise() {
                   : 'bg-red-500'
               }`}></span>
               <strong>Colored dots:</strong> Sampled signal points
+              {clock && ` at the instants of the ${CLOCK_LABELS[clockOptions.mode].toLowerCase()}`}
             </p>
-            {showReconstruction && (
+            {reconstruction !== 'none' && (
               <p>
                 <span className={`inline-block w-3 h-3 border-2 mr-2 ${
                   sampleStatus.status === 'adequate'
@@ -200,16 +730,98 @@ export function SamplingRateExercise() {
                     ? 'border-orange-500'
                     : 'border-red-500'
                 }`}></span>
-                <strong>Dashed line:</strong> Reconstructed signal using sinc interpolation
+                <strong>Dashed line:</strong> Reconstructed signal ({RECONSTRUCTION_LABELS[reconstruction]})
               </p>
             )}
           </div>
           <SamplingVisualization
             samplingRate={samplingRate}
             timeWindow={timeWindow}
+            onTimeWindowChange={handleTimeWindowChange}
             width={900}
             height={400}
-            showReconstruction={showReconstruction}
+            reconstruction={reconstruction}
+            halfWidth={halfWidth}
+            signal={signal}
+            prefiltered={filterActive ? sampledSignal : undefined}
+            quantizer={quantizer}
+            sampleOffset={sampleOffset}
+            clock={clock}
+            band={activeBand}
+          />
+        </div>
+
+        {/* Audio playback */}
+        <AudioPlaybackPanel
+          settings={audioSettings}
+          onChange={(changes) => setQuery({
+            audioRate: changes.audioRate,
+            audioSeconds: changes.duration,
+            sweepFrom: changes.sweep?.[0],
+            sweepTo: changes.sweep?.[1],
+            sweepSeconds: changes.sweepDuration,
+          })}
+          chain={audioChain}
+          nyquistRate={nyquistRate}
+          onSamplingRateChange={(rate) => setQuery({ fs: rate })}
+        />
+
+        {/* Frequency domain */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-700">Frequency Domain</h2>
+          <p className="mb-4 text-sm text-gray-600">
+            Sampling at <InlineMath math="f_s" /> repeats the spectrum at every multiple of{' '}
+            <InlineMath math="f_s" />. Only the shaded band{' '}
+            <InlineMath math="[-f_s/2, f_s/2]" /> can be reconstructed: any line that falls inside it,
+            including a replica of a higher frequency (dashed), is what the samples represent.
+          </p>
+          <SpectrumFoldingPlot
+            signal={sampledSignal}
+            samplingRate={samplingRate}
+            band={activeBand}
+            width={900}
+            height={320}
+          />
+          <table className="w-full text-sm mt-4">
+            <thead>
+              <tr className="text-gray-600 border-b border-gray-200">
+                <th className="text-left py-2">Component</th>
+                <th className="text-left py-2">Frequency</th>
+                <th className="text-left py-2">Apparent frequency after sampling</th>
+                <th className="text-left py-2">Amplitude in the samples</th>
+                <th className="text-left py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recovery.map(r => (
+                <tr key={r.component} className="border-b border-gray-100">
+                  <td className="py-2"><InlineMath math={componentToLatex(components[r.component])} /></td>
+                  <td className="py-2">{r.frequency} Hz</td>
+                  <td className="py-2">{parseFloat(r.alias.toFixed(2))} Hz</td>
+                  <td className="py-2">{r.apparentAmplitude.toFixed(3)}</td>
+                  <td className={`py-2 font-semibold ${RECOVERY_STYLES[r.status].className}`}>
+                    {RECOVERY_STYLES[r.status].label}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* DFT of the samples */}
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-700">Spectrum of the Samples (DFT)</h2>
+          <p className="mb-4 text-sm text-gray-600">
+            The DFT of {SPECTRUM_SAMPLES} samples only covers <InlineMath math="0" /> to{' '}
+            <InlineMath math="f_s/2" />: an aliased component shows up as a peak at its apparent frequency.
+          </p>
+          <SpectrumPanel
+            spectrum={spectrum}
+            settings={spectrumSettings}
+            onChange={handleSpectrumChange}
+            numSamples={SPECTRUM_SAMPLES}
+            width={900}
+            height={300}
           />
         </div>
 
@@ -219,7 +831,7 @@ export function SamplingRateExercise() {
           <div className="space-y-4 text-gray-700">
             <div>
               <h3 className="font-semibold text-lg mb-2 text-green-700">
-                ✓ Adequate Sampling (f_s &gt; 500 Hz)
+                ✓ Adequate Sampling (f_s &gt; {nyquistRate} Hz)
               </h3>
               <p>
                 When sampling above the Nyquist rate, the reconstructed signal perfectly matches the original.
@@ -228,30 +840,35 @@ export function SamplingRateExercise() {
             </div>
             <div>
               <h3 className="font-semibold text-lg mb-2 text-orange-700">
-                ⚠ Nyquist Rate Sampling (f_s = 500 Hz)
+                ⚠ Critical Sampling (f_s = {nyquistRate} Hz)
               </h3>
               <p>
-                At exactly the Nyquist rate, perfect reconstruction is theoretically possible. This is the
-                minimum sampling rate that allows perfect reconstruction. The sinc interpolation should match
-                the original signal.
+                At exactly <InlineMath math="f_s = 2f_{\max}" /> the highest component lands on{' '}
+                <InlineMath math="f_s/2" />, where <InlineMath math="\cos(\pi n + \theta) = \cos\theta\,(-1)^n" />.
+                Every sinusoid of that frequency with the same <InlineMath math="A\cos\theta" /> produces the same
+                samples, so amplitude and phase cannot be separated: the result depends on the sampling offset, and a
+                sine sampled at its zero crossings disappears altogether. This is why the theorem requires the strict
+                inequality <InlineMath math="f_s > 2f_{\max}" />. Move the offset slider above at{' '}
+                <InlineMath math="f_s" /> = {nyquistRate} Hz to see it.
               </p>
             </div>
             <div>
               <h3 className="font-semibold text-lg mb-2 text-red-700">
-                ✗ Insufficient Sampling (f_s &lt; 500 Hz)
+                ✗ Insufficient Sampling (f_s &lt; {nyquistRate} Hz)
               </h3>
               <p>
                 When sampling below the Nyquist rate, <strong>aliasing</strong> occurs. High-frequency components
-                (especially the 250 Hz component) are folded back into lower frequencies, making them
+                (especially the {fMax} Hz component) are folded back into lower frequencies, making them
                 indistinguishable from actual low-frequency components. The reconstructed signal will not match
                 the original, and perfect reconstruction is impossible.
               </p>
             </div>
             <div className="bg-yellow-50 rounded-lg p-4 border-l-4 border-yellow-400 mt-4">
               <p className="text-sm text-yellow-800">
-                <strong>Note:</strong> The reconstruction uses sinc interpolation (Whittaker-Shannon interpolation formula).
-                In practice, perfect reconstruction requires an infinite number of samples, so this visualization uses
-                a finite approximation. The reconstruction quality improves as you sample closer to or above the Nyquist rate.
+                <strong>Note:</strong> Only sinc interpolation (the Whittaker-Shannon interpolation formula) is exact, and
+                it requires an infinite number of samples; this visualization truncates it to the chosen half-width.
+                Zero-order hold, linear and spline interpolation are cheaper but leave an error even above the Nyquist
+                rate, which shrinks as you sample faster. Compare the RMS errors above.
               </p>
             </div>
           </div>
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ANOMALY_METHODS,
+  detectAnomalies,
+  detectContextualAnomalies,
+  injectAnomalies,
+  injectSpikes,
+  MAD_SCALE,
+  median,
+  medianAbsoluteDeviation,
+  THRESHOLD_SPECS,
+  type InjectionOptions,
+} from './anomalyDetection';
+import type { SignalPoint } from './entropyCalculator';
+import { createRandom, gaussian } from './random';
+
+const toSignal = (values: number[]): SignalPoint[] => values.map((value, index) => ({ index, value }));
+
+function noise(length: number, seed: number): number[] {
+  const random = createRandom(seed);
+  return Array.from({ length }, () => gaussian(random));
+}
+
+describe('median and medianAbsoluteDeviation', () => {
+  it('ignores the size of a minority of outliers', () => {
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(medianAbsoluteDeviation([1, 2, 3, 4, 100])).toBe(1);
+  });
+});
+
+describe('detectAnomalies', () => {
+  const clean = noise(1000, 1);
+  const { signal, positions } = injectSpikes(toSignal(clean), 10, 8, createRandom(2));
+
+  it('puts the z-score limits at μ ± kσ', () => {
+    const result = detectAnomalies(toSignal(clean), { method: 'zscore', threshold: 3 });
+    const mu = clean.reduce((sum, v) => sum + v, 0) / clean.length;
+    const sigma = Math.sqrt(clean.reduce((sum, v) => sum + (v - mu) ** 2, 0) / (clean.length - 1));
+    expect(result.center).toBeCloseTo(mu, 12);
+    expect(result.upper).toBeCloseTo(mu + 3 * sigma, 12);
+    expect(result.lower).toBeCloseTo(mu - 3 * sigma, 12);
+  });
+
+  it('puts the robust limits at median ± k · 1.4826 · MAD', () => {
+    const result = detectAnomalies(toSignal(clean), { method: 'mad', threshold: 3.5 });
+    const sigma = MAD_SCALE * medianAbsoluteDeviation(clean);
+    expect(result.upper - result.center).toBeCloseTo(3.5 * sigma, 12);
+    expect(sigma).toBeCloseTo(1, 1);
+  });
+
+  it.each(ANOMALY_METHODS)('finds large spikes (%s)', method => {
+    const threshold = method === 'percentile' ? 0.5 : THRESHOLD_SPECS[method].defaultValue;
+    const result = detectAnomalies(signal, { method, threshold });
+    const found = result.anomalies.map(a => a.position);
+    positions.forEach(p => expect(found).toContain(p));
+  });
+
+  it('keeps the robust limits when spikes inflate σ', () => {
+    const zscore = detectAnomalies(signal, { method: 'zscore', threshold: 3 });
+    const mad = detectAnomalies(signal, { method: 'mad', threshold: 3 });
+    expect(zscore.upper - zscore.center).toBeGreaterThan(mad.upper - mad.center);
+  });
+
+  it('scores percentile limits by the share of samples in the nearer tail', () => {
+    const p = 2;
+    const result = detectAnomalies(signal, { method: 'percentile', threshold: p });
+    result.scores.forEach(score => {
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(50);
+    });
+    result.anomalies.forEach(a => expect(a.score).toBeLessThan(p));
+    const lowest = signal.reduce((best, point, i) => (point.value < signal[best].value ? i : best), 0);
+    expect(result.scores[lowest]).toBe(0);
+  });
+
+  it('scores IQR fences by the distance beyond the nearest quartile', () => {
+    const result = detectAnomalies(toSignal([1, 2, 3, 4, 5, 20]), { method: 'iqr', threshold: 1.5 });
+    // q1 = 2.25, q3 = 4.75, IQR = 2.5
+    expect(result.upper).toBeCloseTo(4.75 + 3.75, 12);
+    expect(result.scores[5]).toBeCloseTo((20 - 4.75) / 2.5, 12);
+    expect(result.scores[2]).toBe(0);
+    expect(result.anomalies.map(a => a.position)).toEqual([5]);
+  });
+});
+
+describe('injectAnomalies', () => {
+  const options: InjectionOptions = {
+    spikes: 6,
+    spikeAmplitude: 10,
+    shifts: 3,
+    shiftSize: 4,
+    bursts: 3,
+    burstStd: 3,
+    segmentLength: 20,
+  };
+  const clean = toSignal(new Array(400).fill(0));
+
+  it.each([1, 2, 3, 4, 5])('places the anomalies apart from each other (seed %i)', seed => {
+    const { injected } = injectAnomalies(clean, options, createRandom(seed));
+    expect(injected.filter(a => a.kind === 'spike')).toHaveLength(6);
+    expect(injected.filter(a => a.kind === 'shift')).toHaveLength(3);
+    expect(injected.filter(a => a.kind === 'burst')).toHaveLength(3);
+    for (let j = 1; j < injected.length; j++) {
+      // At least one untouched sample between neighbours
+      expect(injected[j].start).toBeGreaterThan(injected[j - 1].start + injected[j - 1].length);
+    }
+    injected.forEach(a => {
+      expect(a.start).toBeGreaterThanOrEqual(0);
+      expect(a.start + a.length).toBeLessThanOrEqual(clean.length);
+    });
+  });
+
+  it('only changes the samples of the injected anomalies', () => {
+    const { signal, injected } = injectAnomalies(clean, options, createRandom(9));
+    const touched = new Set(injected.flatMap(a => Array.from({ length: a.length }, (_, j) => a.start + j)));
+    signal.forEach((point, i) => {
+      if (!touched.has(i)) expect(point.value).toBe(0);
+    });
+    injected
+      .filter(a => a.kind === 'spike')
+      .forEach(a => expect(Math.abs(signal[a.start].value)).toBe(10));
+    injected
+      .filter(a => a.kind === 'shift')
+      .forEach(a => expect(Math.abs(signal[a.start + a.length - 1].value)).toBe(4));
+  });
+
+  it('gives up on anomalies that do not fit instead of overlapping them', () => {
+    const { injected } = injectAnomalies(toSignal(new Array(30).fill(0)), { ...options, shifts: 5, bursts: 5 });
+    expect(injected.length).toBeLessThan(16);
+    for (let j = 1; j < injected.length; j++) {
+      expect(injected[j].start).toBeGreaterThan(injected[j - 1].start + injected[j - 1].length);
+    }
+  });
+});
+
+describe('detectContextualAnomalies', () => {
+  it('reuses the window fit for the samples between two updates', () => {
+    const step = 10;
+    const result = detectContextualAnomalies(toSignal(noise(200, 3)), { window: 40, step, threshold: 3, detrend: false });
+    for (let i = 40; i < 200; i++) {
+      const blockStart = Math.floor(i / step) * step;
+      expect(result.lower[i]).toBe(result.lower[blockStart]);
+      expect(result.upper[i]).toBe(result.upper[blockStart]);
+    }
+    expect(result.center[50]).not.toBe(result.center[60]);
+  });
+
+  it('extrapolates a pure ramp exactly when detrending', () => {
+    const ramp = Array.from({ length: 120 }, (_, i) => 2 + 0.5 * i);
+    const detrended = detectContextualAnomalies(toSignal(ramp), { window: 20, step: 5, threshold: 3, detrend: true });
+    detrended.center.forEach((expected, i) => expect(expected).toBeCloseTo(ramp[i], 9));
+    expect(detrended.anomalies).toHaveLength(0);
+
+    // A constant mean lags behind the ramp
+    const flat = detectContextualAnomalies(toSignal(ramp), { window: 20, step: 5, threshold: 3, detrend: false });
+    expect(flat.center[100]).toBeLessThan(ramp[100] - 5);
+  });
+
+  it('finds a spike inside the first window, without its own σ hiding it', () => {
+    const values = noise(200, 11).map(v => 0.1 * v);
+    values[5] += 2;
+    const result = detectContextualAnomalies(toSignal(values), { window: 50, step: 1, threshold: 4, detrend: false });
+    expect(result.anomalies.map(a => a.position)).toContain(5);
+    expect(result.scores[5]).toBeGreaterThan(10);
+  });
+});
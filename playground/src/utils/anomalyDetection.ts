@@ -0,0 +1,336 @@
+/**
+ * Anomaly detection on 1D signals
+ * Every method turns the samples into a lower and an upper limit; a sample outside [lower, upper] is flagged.
+ * The z-score assumes Gaussian data (the 68-95-99.7 rule), while the median, MAD and quartiles barely move
+ * when the anomalies themselves are part of the data. Global methods find point anomalies; the sliding-window
+ * detector finds contextual ones, values that are only unusual for their neighbourhood
+ */
+
+import type { SignalPoint } from './entropyCalculator';
+import { mean, quantile, standardDeviation } from './densityEstimation';
+import { createRandom, DEFAULT_SEED, gaussian, type RandomSource } from './random';
+
+export type AnomalyMethod = 'zscore' | 'mad' | 'percentile' | 'iqr';
+
+export const ANOMALY_METHODS: readonly AnomalyMethod[] = ['zscore', 'mad', 'percentile', 'iqr'];
+
+export const ANOMALY_METHOD_LABELS: Record<AnomalyMethod, string> = {
+  zscore: 'Global z-score',
+  mad: 'Robust z-score (MAD)',
+  percentile: 'Percentile limits',
+  iqr: 'IQR fences',
+};
+
+export interface ThresholdSpec {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+}
+
+/**
+ * Meaning and range of the threshold of each method
+ */
+export const THRESHOLD_SPECS: Record<AnomalyMethod, ThresholdSpec> = {
+  zscore: { label: 'k (standard deviations)', min: 1, max: 5, step: 0.1, defaultValue: 3 },
+  mad: { label: 'k (robust standard deviations)', min: 1, max: 6, step: 0.1, defaultValue: 3.5 },
+  percentile: { label: 'p (% cut from each tail)', min: 0.5, max: 10, step: 0.5, defaultValue: 1 },
+  iqr: { label: 'k (interquartile ranges)', min: 0.5, max: 4, step: 0.1, defaultValue: 1.5 },
+};
+
+export interface DetectorOptions {
+  method: AnomalyMethod;
+  threshold: number;
+}
+
+export interface Anomaly {
+  position: number;    // Position in the signal array
+  index: number;       // Sample index i
+  value: number;
+  score: number;
+}
+
+export interface DetectionResult {
+  lower: number;
+  upper: number;
+  center: number;      // Mean, median or midpoint of the limits
+  scores: number[];    // Score of every sample, in the units of the threshold (see detectAnomalies)
+  anomalies: Anomaly[];
+}
+
+/**
+ * Scale factor that makes the MAD a consistent estimate of σ for Gaussian data: σ ≈ 1.4826 · MAD
+ */
+export const MAD_SCALE = 1.4826;
+
+export function median(values: number[]): number {
+  return quantile([...values].sort((a, b) => a - b), 0.5);
+}
+
+/**
+ * Median absolute deviation from the median
+ */
+export function medianAbsoluteDeviation(values: number[]): number {
+  const center = median(values);
+  return median(values.map(v => Math.abs(v - center)));
+}
+
+/**
+ * Score every sample and flag the ones outside the limits of the chosen method
+ * z-scores and IQR distances flag large |score| > k; the percentile score is the % of samples in the nearer
+ * tail, which flags small scores < p
+ */
+export function detectAnomalies(signal: SignalPoint[], { method, threshold }: DetectorOptions): DetectionResult {
+  const values = signal.map(p => p.value);
+  if (values.length === 0) return { lower: 0, upper: 0, center: 0, scores: [], anomalies: [] };
+  const sorted = [...values].sort((a, b) => a - b);
+
+  let lower: number;
+  let upper: number;
+  let center: number;
+  let score: (value: number) => number;
+
+  switch (method) {
+    case 'zscore': {
+      const mu = mean(values);
+      const sigma = standardDeviation(values) || 1;
+      [lower, upper, center] = [mu - threshold * sigma, mu + threshold * sigma, mu];
+      score = v => (v - mu) / sigma;
+      break;
+    }
+    case 'mad': {
+      const med = quantile(sorted, 0.5);
+      const sigma = MAD_SCALE * medianAbsoluteDeviation(values) || 1;
+      [lower, upper, center] = [med - threshold * sigma, med + threshold * sigma, med];
+      score = v => (v - med) / sigma;
+      break;
+    }
+    case 'percentile': {
+      lower = quantile(sorted, threshold / 100);
+      upper = quantile(sorted, 1 - threshold / 100);
+      center = quantile(sorted, 0.5);
+      // Percentile rank of the value, folded onto the nearer tail, in %
+      score = v => {
+        const rank = (100 * sorted.filter(s => s < v).length) / Math.max(1, sorted.length - 1);
+        return Math.min(rank, 100 - rank);
+      };
+      break;
+    }
+    case 'iqr': {
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      const iqr = q3 - q1 || 1;
+      [lower, upper, center] = [q1 - threshold * iqr, q3 + threshold * iqr, (q1 + q3) / 2];
+      // Distance beyond the nearest quartile, in IQRs
+      score = v => (v > q3 ? (v - q3) / iqr : v < q1 ? (v - q1) / iqr : 0);
+      break;
+    }
+  }
+
+  const scores = values.map(score);
+  const anomalies = signal.flatMap((point, position) =>
+    point.value < lower || point.value > upper
+      ? [{ position, index: point.index, value: point.value, score: scores[position] }]
+      : []
+  );
+  return { lower, upper, center, scores, anomalies };
+}
+
+/**
+ * Add `count` spikes of ±amplitude at distinct random positions
+ * Returns the new signal and the sorted spike positions, the ground truth for the detectors
+ */
+export function injectSpikes(
+  signal: SignalPoint[],
+  count: number,
+  amplitude: number,
+  random: RandomSource = createRandom(DEFAULT_SEED)
+): { signal: SignalPoint[]; positions: number[] } {
+  const positions = new Set<number>();
+  while (positions.size < Math.min(count, signal.length)) {
+    positions.add(Math.floor(random() * signal.length));
+  }
+  const signs = new Map([...positions].map(p => [p, random() < 0.5 ? -1 : 1]));
+  return {
+    signal: signal.map((point, position) => ({
+      ...point,
+      value: point.value + (signs.get(position) ?? 0) * amplitude,
+    })),
+    positions: [...positions].sort((a, b) => a - b),
+  };
+}
+
+export type InjectedKind = 'spike' | 'shift' | 'burst';
+
+export const INJECTED_KINDS: readonly InjectedKind[] = ['spike', 'shift', 'burst'];
+
+export const INJECTED_KIND_LABELS: Record<InjectedKind, string> = {
+  spike: 'Spikes',
+  shift: 'Level shifts',
+  burst: 'Variance bursts',
+};
+
+export interface InjectedAnomaly {
+  kind: InjectedKind;
+  start: number;       // Position of the first affected sample
+  length: number;
+}
+
+export interface InjectionOptions {
+  spikes: number;
+  spikeAmplitude: number;
+  shifts: number;
+  shiftSize: number;
+  bursts: number;
+  burstStd: number;    // Standard deviation of the extra noise inside a burst
+  segmentLength: number;
+}
+
+const MAX_PLACEMENT_ATTEMPTS = 100;
+
+/**
+ * Add spikes (one sample ±amplitude), level shifts (a segment moved by ±size) and variance bursts (a segment
+ * with extra Gaussian noise) at random positions that do not overlap
+ * Returns the new signal and the injected anomalies sorted by position, the ground truth for the detectors
+ */
+export function injectAnomalies(
+  signal: SignalPoint[],
+  { spikes, spikeAmplitude, shifts, shiftSize, bursts, burstStd, segmentLength }: InjectionOptions,
+  random: RandomSource = createRandom(DEFAULT_SEED)
+): { signal: SignalPoint[]; injected: InjectedAnomaly[] } {
+  const values = signal.map(p => p.value);
+  const injected: InjectedAnomaly[] = [];
+  const length = Math.min(segmentLength, values.length);
+
+  const place = (kind: InjectedKind, size: number) => {
+    for (let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS; attempt++) {
+      const start = Math.floor(random() * (values.length - size + 1));
+      // Keep one free sample between anomalies so that they stay distinguishable
+      const overlaps = injected.some(a => start <= a.start + a.length && a.start <= start + size);
+      if (!overlaps) {
+        injected.push({ kind, start, length: size });
+        return injected[injected.length - 1];
+      }
+    }
+    return null;
+  };
+
+  for (let i = 0; i < shifts; i++) {
+    const shift = place('shift', length);
+    const sign = random() < 0.5 ? -1 : 1;
+    for (let j = 0; shift && j < shift.length; j++) values[shift.start + j] += sign * shiftSize;
+  }
+  for (let i = 0; i < bursts; i++) {
+    const burst = place('burst', length);
+    for (let j = 0; burst && j < burst.length; j++) values[burst.start + j] += burstStd * gaussian(random);
+  }
+  for (let i = 0; i < spikes; i++) {
+    const spike = place('spike', 1);
+    if (spike) values[spike.start] += (random() < 0.5 ? -1 : 1) * spikeAmplitude;
+  }
+
+  return {
+    signal: signal.map((point, i) => ({ ...point, value: values[i] })),
+    injected: injected.sort((a, b) => a.start - b.start),
+  };
+}
+
+export interface LocalDetectorOptions {
+  window: number;      // Samples of past context
+  step: number;        // Samples between updates of the local statistics
+  threshold: number;   // k, in local standard deviations
+  detrend: boolean;    // Fit a line in every window and extrapolate it, instead of a constant mean
+}
+
+export interface LocalDetectionResult {
+  lower: number[];     // Limits of every sample, from its context window
+  upper: number[];
+  center: number[];    // Expected value
+  scores: number[];    // Local z-score (x_i - expected_i) / σ_local
+  anomalies: Anomaly[];
+}
+
+interface WindowFit {
+  intercept: number;   // Expected value a + b · position
+  slope: number;
+  sigma: number;
+}
+
+/**
+ * Least-squares line (or mean, without detrending) and residual standard deviation of values[start, end),
+ * leaving out position `skip` if it lies in the window
+ */
+function fitWindow(values: number[], start: number, end: number, detrend: boolean, skip = -1): WindowFit {
+  let n = 0;
+  let sumX = 0;
+  for (let i = start; i < end; i++) {
+    if (i === skip) continue;
+    n++;
+    sumX += i;
+  }
+  const middle = sumX / n;
+  let sum = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+  for (let i = start; i < end; i++) {
+    if (i === skip) continue;
+    sum += values[i];
+    sumXY += (i - middle) * values[i];
+    sumXX += (i - middle) ** 2;
+  }
+  const slope = detrend && sumXX > 0 ? sumXY / sumXX : 0;
+  const mu = sum / n;
+
+  let squares = 0;
+  for (let i = start; i < end; i++) {
+    if (i === skip) continue;
+    squares += (values[i] - mu - slope * (i - middle)) ** 2;
+  }
+  const dof = Math.max(1, n - (detrend ? 2 : 1));
+  return { intercept: mu - slope * middle, slope, sigma: Math.sqrt(squares / dof) || 1 };
+}
+
+/**
+ * Contextual anomalies: every sample is compared with the statistics of the samples just before it instead of
+ * the whole signal. The context is the last `window` samples before the most recent multiple of `step`, so
+ * the sample itself never inflates its own σ; the first samples, without enough history, share the first
+ * window and are scored against it without themselves (leave-one-out)
+ */
+export function detectContextualAnomalies(
+  signal: SignalPoint[],
+  { window, step, threshold, detrend }: LocalDetectorOptions
+): LocalDetectionResult {
+  const values = signal.map(p => p.value);
+  const N = values.length;
+  const size = Math.max(3, Math.min(window, N));
+  const fits = new Map<number, WindowFit>();
+
+  const lower: number[] = [];
+  const upper: number[] = [];
+  const center: number[] = [];
+  const scores: number[] = [];
+  for (let i = 0; i < N; i++) {
+    const end = Math.min(N, Math.max(size, Math.floor(i / Math.max(1, step)) * Math.max(1, step)));
+    // Only the warm-up samples lie inside their own window
+    const inside = i >= end - size && i < end;
+    let fit = inside ? fitWindow(values, end - size, end, detrend, i) : fits.get(end);
+    if (!fit) {
+      fit = fitWindow(values, end - size, end, detrend);
+      fits.set(end, fit);
+    }
+    const { intercept, slope, sigma } = fit;
+    const expected = intercept + slope * i;
+    center.push(expected);
+    lower.push(expected - threshold * sigma);
+    upper.push(expected + threshold * sigma);
+    scores.push((values[i] - expected) / sigma);
+  }
+
+  const anomalies = signal.flatMap((point, position) =>
+    Math.abs(scores[position]) > threshold
+      ? [{ position, index: point.index, value: point.value, score: scores[position] }]
+      : []
+  );
+  return { lower, upper, center, scores, anomalies };
+}
@@ -0,0 +1,141 @@
+/**
+ * Anti-aliasing low-pass filters applied before sampling
+ * The signal is a sum of sinusoids, so each filter acts on every component through its
+ * frequency response H(f): the steady-state output is |H(f)| A cos(2πft + φ + ∠H(f))
+ */
+
+import type { SignalComponent, SignalDefinition } from './samplingCalculator';
+
+export type FilterType = 'none' | 'ideal' | 'butterworth' | 'fir';
+
+export const FILTER_TYPES: readonly FilterType[] = ['none', 'ideal', 'butterworth', 'fir'];
+
+export const FILTER_LABELS: Record<FilterType, string> = {
+  none: 'No filter',
+  ideal: 'Ideal low-pass (brick wall)',
+  butterworth: 'Butterworth (analog)',
+  fir: 'FIR windowed-sinc (Hamming)',
+};
+
+export interface FilterOptions {
+  type: FilterType;
+  cutoff: number;  // Hz
+  order: number;   // Butterworth order n
+  taps: number;    // FIR length (odd, so the delay is a whole number of samples)
+}
+
+export interface FilterResponse {
+  gain: number;    // |H(f)|
+  phase: number;   // ∠H(f) in radians
+}
+
+export interface ComponentAttenuation {
+  component: number;
+  frequency: number;
+  gain: number;
+  gainDb: number;
+  phase: number;
+}
+
+// FIR filters run on an oversampled version of the continuous signal
+export const FIR_RATE = 2000; // Hz, four times the highest component frequency
+
+/**
+ * Windowed-sinc FIR low-pass h[n] = 2f_c/F · sinc(2f_c/F · (n - M/2)) · w[n], normalized to unit DC gain
+ */
+export function firCoefficients(taps: number, cutoff: number, rate: number = FIR_RATE): number[] {
+  const M = taps - 1;
+  const fc = cutoff / rate;
+  const h = Array.from({ length: taps }, (_, n) => {
+    const x = n - M / 2;
+    const ideal = x === 0 ? 2 * fc : Math.sin(2 * Math.PI * fc * x) / (Math.PI * x);
+    const hamming = M > 0 ? 0.54 - 0.46 * Math.cos((2 * Math.PI * n) / M) : 1;
+    return ideal * hamming;
+  });
+  const sum = h.reduce((total, v) => total + v, 0) || 1;
+  return h.map(v => v / sum);
+}
+
+/**
+ * Analog Butterworth H(jω) = Π 1 / (jω/ω_c - p_k), with poles p_k = e^(jπ(2k + n - 1) / 2n)
+ */
+function butterworthResponse(frequency: number, cutoff: number, order: number): FilterResponse {
+  const w = frequency / cutoff;
+  let re = 1;
+  let im = 0;
+  for (let k = 1; k <= order; k++) {
+    const angle = (Math.PI * (2 * k + order - 1)) / (2 * order);
+    // Denominator factor d = jw - p_k
+    const dRe = -Math.cos(angle);
+    const dIm = w - Math.sin(angle);
+    const norm = dRe * dRe + dIm * dIm;
+    // Multiply by 1 / d
+    const nextRe = (re * dRe + im * dIm) / norm;
+    const nextIm = (im * dRe - re * dIm) / norm;
+    re = nextRe;
+    im = nextIm;
+  }
+  return { gain: Math.hypot(re, im), phase: Math.atan2(im, re) };
+}
+
+/**
+ * Frequency response of an FIR filter at frequency f for the sampling rate F
+ */
+function firResponse(frequency: number, coefficients: number[], rate: number = FIR_RATE): FilterResponse {
+  let re = 0;
+  let im = 0;
+  coefficients.forEach((h, n) => {
+    const angle = (-2 * Math.PI * frequency * n) / rate;
+    re += h * Math.cos(angle);
+    im += h * Math.sin(angle);
+  });
+  return { gain: Math.hypot(re, im), phase: Math.atan2(im, re) };
+}
+
+/**
+ * Frequency response of the selected filter at f (Hz)
+ */
+export function filterResponse(frequency: number, options: FilterOptions): FilterResponse {
+  switch (options.type) {
+    case 'ideal':
+      return { gain: frequency <= options.cutoff ? 1 : 0, phase: 0 };
+    case 'butterworth':
+      return butterworthResponse(frequency, options.cutoff, Math.max(1, Math.round(options.order)));
+    case 'fir':
+      return firResponse(frequency, firCoefficients(options.taps, options.cutoff));
+    default:
+      return { gain: 1, phase: 0 };
+  }
+}
+
+/**
+ * Signal at the output of the filter: every component scaled and phase-shifted by H(f)
+ */
+export function applyFilter(signal: SignalDefinition, options: FilterOptions): SignalDefinition {
+  if (options.type === 'none') return signal;
+  const coefficients = options.type === 'fir' ? firCoefficients(options.taps, options.cutoff) : [];
+  const response = (f: number) =>
+    options.type === 'fir' ? firResponse(f, coefficients) : filterResponse(f, options);
+
+  const components: SignalComponent[] = signal.components.map(c => {
+    const { gain, phase } = response(c.frequency);
+    return { ...c, amplitude: c.amplitude * gain, phase: c.phase + phase };
+  });
+  return { components, dc: signal.dc * response(0).gain };
+}
+
+/**
+ * Gain and phase applied to each component of the signal
+ */
+export function componentAttenuations(signal: SignalDefinition, options: FilterOptions): ComponentAttenuation[] {
+  return signal.components.map((c, component) => {
+    const { gain, phase } = filterResponse(c.frequency, options);
+    return {
+      component,
+      frequency: c.frequency,
+      gain,
+      gainDb: gain > 0 ? 20 * Math.log10(gain) : -Infinity,
+      phase,
+    };
+  });
+}
@@ -0,0 +1,263 @@
+/**
+ * Approximate Entropy (ApEn) and Sample Entropy (SampEn)
+ * Pattern-based entropy estimates from subseries of length m and m + 1
+ */
+
+import type { SignalPoint, EntropyStep } from './entropyCalculator';
+
+export interface ApproximateEntropyResult {
+  apEn: number;
+  sampEn: number;
+  entropyM: number;        // H^(m)
+  entropyM1: number;       // H^(m+1)
+  counts: number[];        // N^(m)(i), number of subseries similar to x_i^(m)
+  probabilities: number[]; // C^(m)(i)
+  stepByStep: EntropyStep[];
+}
+
+/**
+ * Extract all subseries x_i^(m) = [x_i, ..., x_{i+m-1}] for i = 1..N-m+1
+ */
+export function extractSubseries(values: number[], m: number): number[][] {
+  const subseries: number[][] = [];
+  for (let i = 0; i + m <= values.length; i++) {
+    subseries.push(values.slice(i, i + m));
+  }
+  return subseries;
+}
+
+/**
+ * Chebyshev distance: maximum absolute difference between corresponding elements
+ */
+export function chebyshevDistance(a: number[], b: number[]): number {
+  let distance = 0;
+  for (let k = 0; k < a.length; k++) {
+    distance = Math.max(distance, Math.abs(a[k] - b[k]));
+  }
+  return distance;
+}
+
+/**
+ * Start indices (0-based) of every subseries similar to x_i^(m), including itself
+ */
+export function findSimilarSubseries(
+  signal: SignalPoint[],
+  m: number,
+  r: number,
+  i: number
+): number[] {
+  const subseries = extractSubseries(signal.map(p => p.value), m);
+  if (i < 0 || i >= subseries.length) return [];
+
+  const matches: number[] = [];
+  subseries.forEach((candidate, j) => {
+    if (chebyshevDistance(subseries[i], candidate) <= r) {
+      matches.push(j);
+    }
+  });
+  return matches;
+}
+
+/**
+ * Count, for each subseries, how many subseries are within tolerance r
+ * Self-matches are included, as in ApEn
+ */
+function countSimilar(subseries: number[][], r: number): number[] {
+  return subseries.map(template =>
+    subseries.filter(candidate => chebyshevDistance(template, candidate) <= r).length
+  );
+}
+
+/**
+ * H^(m) = -1/(N-m+1) Σ log₂ C^(m)(i)
+ */
+function subseriesEntropy(values: number[], m: number, r: number): {
+  entropy: number;
+  counts: number[];
+  probabilities: number[];
+} {
+  const subseries = extractSubseries(values, m);
+  const counts = countSimilar(subseries, r);
+  const probabilities = counts.map(count => count / subseries.length);
+  const entropy = probabilities.length > 0
+    ? -probabilities.reduce((sum, c) => sum + Math.log2(c), 0) / probabilities.length
+    : 0;
+  return { entropy, counts, probabilities };
+}
+
+/**
+ * Count pairs (i < j) of the first N - m subseries of length m and m + 1 that match
+ * Self-matches are excluded, as in SampEn
+ */
+function countSamplePairs(values: number[], m: number, r: number): { B: number; A: number } {
+  const numTemplates = values.length - m;
+  let B = 0;
+  let A = 0;
+
+  for (let i = 0; i < numTemplates; i++) {
+    for (let j = i + 1; j < numTemplates; j++) {
+      const a = values.slice(i, i + m);
+      const b = values.slice(j, j + m);
+      if (chebyshevDistance(a, b) <= r) {
+        B++;
+        if (Math.abs(values[i + m] - values[j + m]) <= r) {
+          A++;
+        }
+      }
+    }
+  }
+
+  return { B, A };
+}
+
+/**
+ * Calculate ApEn(m, r, N) and SampEn(m, r, N) following the lecture methodology:
+ * 1. Extract subseries of length m
+ * 2. Find similar subseries within tolerance r (Chebyshev distance)
+ * 3. C^(m)(i) = N^(m)(i) / (N - m + 1)
+ * 4. H^(m) = -1/(N-m+1) Σ log₂ C^(m)(i)
+ * ApEn is the increase in entropy from m to m + 1: H^(m+1) - H^(m)
+ */
+export function calculateApproximateEntropy(
+  signal: SignalPoint[],
+  m: number = 2,
+  r: number = 0.2
+): ApproximateEntropyResult {
+  const N = signal.length;
+  if (N < m + 2) {
+    return {
+      apEn: 0,
+      sampEn: 0,
+      entropyM: 0,
+      entropyM1: 0,
+      counts: [],
+      probabilities: [],
+      stepByStep: []
+    };
+  }
+
+  const values = signal.map(p => p.value);
+  const orderM = subseriesEntropy(values, m, r);
+  const orderM1 = subseriesEntropy(values, m + 1, r);
+  const apEn = orderM1.entropy - orderM.entropy;
+
+  const { A, B } = countSamplePairs(values, m, r);
+  // SampEn is undefined when no pairs match; report infinity as the limit
+  const sampEn = A > 0 && B > 0 ? -Math.log2(A / B) : Infinity;
+
+  const numSubseries = N - m + 1;
+  const maxCount = Math.max(...orderM.counts);
+  const bestIndex = orderM.counts.indexOf(maxCount);
+  const fmt = (x: number) => x.toFixed(2);
+
+  const stepByStep: EntropyStep[] = [
+    {
+      step: '1',
+      value: numSubseries,
+      description: `Extract ${numSubseries} subseries of length m = ${m}`,
+      detailedExplanation: {
+        title: 'Extract Subseries',
+        substeps: [
+          `Slide a window of length m = ${m} over the N = ${N} samples`,
+          `This gives N - m + 1 = ${numSubseries} subseries x_i^(${m})`,
+          ...extractSubseries(values, m).slice(0, 3).map((sub, i) =>
+            `x_${i + 1}^(${m}) = [${sub.map(fmt).join(', ')}]`
+          ),
+          numSubseries > 3 ? '...' : 'All subseries listed'
+        ],
+        formula: `x_i^{(${m})} = [x_i, x_{i+1}, \\ldots, x_{i+${m - 1}}], \\quad i = 1, \\ldots, ${numSubseries}`
+      }
+    },
+    {
+      step: '2',
+      value: maxCount,
+      description: `Find similar subseries within tolerance r = ${r.toFixed(2)}`,
+      detailedExplanation: {
+        title: 'Find Similar Subseries',
+        substeps: [
+          'Two subseries are similar when every pair of corresponding samples differs by at most r',
+          'This is the Chebyshev distance: the maximum absolute difference',
+          'N^(m)(i) counts the subseries similar to x_i^(m), including x_i^(m) itself',
+          `The most common pattern is x_${bestIndex + 1}^(${m}) with N^(${m})(${bestIndex + 1}) = ${maxCount} matches`,
+          'Select a subseries on the plot to highlight its matches'
+        ],
+        formula: `d[x_i^{(m)}, x_j^{(m)}] = \\max_k |x_{i+k} - x_{j+k}| \\leq r`
+      }
+    },
+    {
+      step: '3',
+      value: orderM.probabilities[bestIndex],
+      description: 'Calculate the probability C^(m)(i) of each pattern',
+      detailedExplanation: {
+        title: 'Calculate Probabilities',
+        substeps: [
+          `Divide each count by the ${numSubseries} subseries of length ${m}`,
+          'C^(m)(i) is the probability of finding a subseries similar to x_i^(m) in the series',
+          ...orderM.probabilities.slice(0, 3).map((c, i) =>
+            `C^(${m})(${i + 1}) = ${orderM.counts[i]} / ${numSubseries} = ${c.toFixed(4)}`
+          ),
+          'Regular signals repeat their patterns, so their probabilities are high'
+        ],
+        formula: `C^{(m)}(i) = \\frac{N^{(m)}(i)}{N - m + 1}`
+      }
+    },
+    {
+      step: '4',
+      value: orderM.entropy,
+      description: `Estimate H^(${m}) = ${orderM.entropy.toFixed(4)} and H^(${m + 1}) = ${orderM1.entropy.toFixed(4)} bits`,
+      detailedExplanation: {
+        title: 'Estimate Entropy',
+        substeps: [
+          'Apply Shannon entropy to the pattern probabilities',
+          `For m = ${m}: H^(${m}) = ${orderM.entropy.toFixed(4)} bits`,
+          `Repeat steps 1-3 with subseries of length m + 1 = ${m + 1}: H^(${m + 1}) = ${orderM1.entropy.toFixed(4)} bits`,
+          'Longer subseries are harder to match, so H^(m+1) ≥ H^(m)'
+        ],
+        formula: `H_N^{(m)} = -\\frac{1}{N - m + 1} \\sum_{i=1}^{N-m+1} \\log_2[C^{(m)}(i)]`
+      }
+    },
+    {
+      step: '5',
+      value: apEn,
+      description: `ApEn(${m}, ${r.toFixed(2)}, ${N}) = ${apEn.toFixed(4)} bits`,
+      detailedExplanation: {
+        title: 'Approximate Entropy',
+        substeps: [
+          'ApEn measures how much entropy increases when the subseries grow from m to m + 1 samples',
+          'It is the average information gained by one more sample once m samples match: an approximation of the entropy rate',
+          `ApEn = ${orderM1.entropy.toFixed(4)} - ${orderM.entropy.toFixed(4)} = ${apEn.toFixed(4)} bits`,
+          'Self-matches keep every C^(m)(i) > 0 but bias ApEn towards regularity for short signals'
+        ],
+        formula: `\\text{ApEn}(m, r, N) = H_N^{(m+1)} - H_N^{(m)} = ${apEn.toFixed(4)}`
+      }
+    },
+    {
+      step: '6',
+      value: sampEn,
+      description: `SampEn(${m}, ${r.toFixed(2)}, ${N}) = ${Number.isFinite(sampEn) ? sampEn.toFixed(4) : '∞'} bits`,
+      detailedExplanation: {
+        title: 'Sample Entropy',
+        substeps: [
+          'Sample Entropy removes the self-match bias of ApEn',
+          `B = ${B} pairs of different subseries of length ${m} are similar`,
+          `A = ${A} of those pairs are still similar when extended to length ${m + 1}`,
+          'SampEn is the negative log of the conditional probability A / B',
+          A === 0
+            ? 'No pair matches at length m + 1: SampEn is undefined (infinite). Increase r or N'
+            : `SampEn = -log₂(${A} / ${B}) = ${sampEn.toFixed(4)} bits`
+        ],
+        formula: `\\text{SampEn}(m, r, N) = -\\log_2 \\frac{A}{B}`
+      }
+    }
+  ];
+
+  return {
+    apEn,
+    sampEn,
+    entropyM: orderM.entropy,
+    entropyM1: orderM1.entropy,
+    counts: orderM.counts,
+    probabilities: orderM.probabilities,
+    stepByStep
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav, normalizeAudio, renderSource, renderSweep, sweepRateAt, type SamplingChain } from './audio';
+
+const audioRate = 8000;
+const fade = 80;  // FADE_SECONDS at the audio rate
+
+const chain: SamplingChain = {
+  signal: { components: [{ type: 'sin', amplitude: 2, frequency: 50, phase: 0 }], dc: 1 },
+  sampled: { components: [{ type: 'sin', amplitude: 2, frequency: 50, phase: 0 }], dc: 1 },
+  samplingRate: 400,
+  reconstruction: { method: 'sinc', halfWidth: 20 },
+};
+
+const peak = (values: Float32Array) => values.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+
+describe('normalizeAudio', () => {
+  const values = Array.from({ length: 1000 }, (_, i) => 3 + 5 * Math.sin((2 * Math.PI * 7 * i) / 1000));
+  const out = normalizeAudio(values, audioRate);
+
+  it('removes the mean and scales the peak to 0.9', () => {
+    expect(peak(out)).toBeCloseTo(0.9, 6);
+    const middle = out.subarray(fade, out.length - fade);
+    const mean = middle.reduce((sum, v) => sum + v, 0) / middle.length;
+    expect(Math.abs(mean)).toBeLessThan(0.05);
+  });
+
+  it('fades in and out from silence', () => {
+    expect(Math.abs(out[0])).toBe(0);
+    expect(Math.abs(out[out.length - 1])).toBe(0);
+    expect(Math.abs(out[fade / 2])).toBeLessThanOrEqual(0.45 + 1e-6);
+  });
+});
+
+describe('renderSource', () => {
+  const options = { audioRate, duration: 0.5 };
+
+  it('renders the requested duration at the audio rate', () => {
+    for (const source of ['original', 'sampled', 'reconstructed'] as const) {
+      const out = renderSource(source, chain, options);
+      expect(out.length).toBe(4000);
+      expect(peak(out)).toBeCloseTo(0.9, 2);
+    }
+  });
+
+  it('holds every sample for one sampling period', () => {
+    const out = renderSource('sampled', chain, options);
+    const period = audioRate / chain.samplingRate;
+    for (let start = fade; start + period < out.length - fade; start += period) {
+      const held = out.subarray(start, start + period);
+      expect(held.every(v => v === held[0])).toBe(true);
+    }
+  });
+
+  it('reconstructs a well-sampled tone', () => {
+    const original = renderSource('original', chain, options);
+    const reconstructed = renderSource('reconstructed', chain, options);
+    for (let i = 0; i < original.length; i++) {
+      expect(Math.abs(reconstructed[i] - original[i])).toBeLessThan(0.02);
+    }
+  });
+});
+
+describe('renderSweep', () => {
+  it('slides the sampling rate linearly', () => {
+    expect(sweepRateAt(-1, [100, 300], 2)).toBe(100);
+    expect(sweepRateAt(1, [100, 300], 2)).toBe(200);
+    expect(sweepRateAt(3, [100, 300], 2)).toBe(300);
+  });
+
+  it('holds shorter and shorter samples as the rate rises', () => {
+    const duration = 1;
+    const out = renderSweep(chain, [100, 300], { audioRate, duration });
+    expect(out.length).toBe(audioRate * duration);
+
+    // Lengths of the runs of equal values, inside the fades
+    const runs: number[] = [];
+    let run = 1;
+    for (let i = fade + 1; i < out.length - fade; i++) {
+      if (out[i] === out[i - 1]) run++;
+      else {
+        runs.push(run);
+        run = 1;
+      }
+    }
+    const inner = runs.slice(1);  // The first run is cut by the fade
+    expect(inner[0]).toBeGreaterThan(audioRate / 110);
+    expect(inner[inner.length - 1]).toBeLessThan(audioRate / 290);
+    // ∫ f_s dt = 200 samples, less the ones inside the fades
+    expect(runs.length).toBeGreaterThan(180);
+    expect(runs.length).toBeLessThan(200);
+  });
+});
+
+describe('encodeWav', () => {
+  const read = async (samples: number[], rate = 22050) =>
+    new DataView(await encodeWav(new Float32Array(samples), rate).arrayBuffer());
+  const text = (view: DataView, offset: number) =>
+    String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+
+  it('writes a mono 16-bit PCM RIFF header', async () => {
+    const view = await read([0, 0.5, -0.5], 22050);
+    expect(view.byteLength).toBe(44 + 6);
+    expect(text(view, 0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 6);
+    expect(text(view, 8)).toBe('WAVE');
+    expect(text(view, 12)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(22050);
+    expect(view.getUint32(28, true)).toBe(44100);
+    expect(view.getUint16(32, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(text(view, 36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(6);
+  });
+
+  it('scales to 16 bits and clips outside [-1, 1]', async () => {
+    const view = await read([0, 1, -1, 2, -2, 0.5]);
+    const pcm = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + 2 * i, true));
+    expect(pcm).toEqual([0, 32767, -32768, 32767, -32768, 16383]);
+  });
+});
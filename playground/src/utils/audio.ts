@@ -0,0 +1,172 @@
+/**
+ * Audio rendering of the sampling exercise
+ * Signals are evaluated at the audio rate, normalized to ±0.9 around zero (the DC offset is
+ * inaudible and would clip), and can be rendered offline or exported as 16-bit WAV
+ */
+
+import { originalSignal, sampleSignal, type SignalDefinition } from './samplingCalculator';
+import { createReconstructor, type ReconstructionOptions } from './reconstruction';
+
+export type AudioSource = 'original' | 'sampled' | 'reconstructed';
+
+export const AUDIO_SOURCES: readonly AudioSource[] = ['original', 'sampled', 'reconstructed'];
+
+export const AUDIO_SOURCE_LABELS: Record<AudioSource, string> = {
+  original: 'Original x(t)',
+  sampled: 'Sampled and held',
+  reconstructed: 'Reconstructed',
+};
+
+export const AUDIO_RATES: readonly number[] = [22050, 44100, 48000];
+
+export interface AudioRenderOptions {
+  audioRate: number;  // Playback sample rate (Hz)
+  duration: number;   // Seconds
+}
+
+export interface SamplingChain {
+  signal: SignalDefinition;                     // What the listener should have heard
+  sampled: SignalDefinition;                    // What reaches the sampler (after any prefilter)
+  samplingRate: number;
+  reconstruction: ReconstructionOptions;
+  quantize?: (values: number[]) => number[];
+  offset?: number;                              // Sampling phase: samples at offset + n·Ts (s)
+}
+
+const PEAK_LEVEL = 0.9;
+const FADE_SECONDS = 0.01; // Fade in and out to avoid clicks
+
+/**
+ * Remove the mean, scale to ±PEAK_LEVEL and fade the ends
+ */
+export function normalizeAudio(values: number[], audioRate: number): Float32Array {
+  const mean = values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+  const peak = values.reduce((max, v) => Math.max(max, Math.abs(v - mean)), 1e-12);
+  const fade = Math.max(1, Math.round(FADE_SECONDS * audioRate));
+  const out = new Float32Array(values.length);
+  values.forEach((v, i) => {
+    const envelope = Math.min(1, i / fade, (values.length - 1 - i) / fade);
+    out[i] = ((v - mean) / peak) * PEAK_LEVEL * Math.max(0, envelope);
+  });
+  return out;
+}
+
+/**
+ * Samples of the chosen stage of the sampling chain at the audio rate
+ */
+export function renderSource(source: AudioSource, chain: SamplingChain, options: AudioRenderOptions): Float32Array {
+  const { audioRate, duration } = options;
+  const length = Math.max(1, Math.round(audioRate * duration));
+  const times = Array.from({ length }, (_, i) => i / audioRate);
+
+  if (source === 'original') {
+    return normalizeAudio(times.map(t => originalSignal(t, chain.signal)), audioRate);
+  }
+
+  // Samples extend a kernel half-width past both ends so the reconstruction has no edge transient
+  const Ts = 1 / chain.samplingRate;
+  const offset = chain.offset ?? 0;
+  const margin = chain.reconstruction.halfWidth;
+  const count = Math.ceil(duration * chain.samplingRate) + 1 + 2 * margin;
+  const sampleTimes = Array.from({ length: count }, (_, n) => offset + (n - margin) * Ts);
+  const exact = sampleSignal(sampleTimes, chain.sampled);
+  const samples = chain.quantize ? chain.quantize(exact) : exact;
+
+  if (source === 'sampled') {
+    return normalizeAudio(times.map(t => samples[margin + Math.floor((t - offset) / Ts + 1e-9)]), audioRate);
+  }
+
+  const reconstructor = createReconstructor(sampleTimes, samples, Ts, chain.reconstruction);
+  return normalizeAudio(times.map(reconstructor), audioRate);
+}
+
+/**
+ * Sample-and-hold output while the sampling rate slides linearly from fsStart to fsEnd
+ * Each sample instant advances by the period at the current rate: t_{k+1} = t_k + 1 / f_s(t_k)
+ */
+export function renderSweep(
+  chain: SamplingChain,
+  [fsStart, fsEnd]: [number, number],
+  options: AudioRenderOptions
+): Float32Array {
+  const { audioRate, duration } = options;
+  const length = Math.max(1, Math.round(audioRate * duration));
+
+  const sampleTimes: number[] = [];
+  for (let t = 0; t < duration; t += 1 / sweepRateAt(t, [fsStart, fsEnd], duration)) {
+    sampleTimes.push(t);
+  }
+  const exact = sampleSignal(sampleTimes, chain.sampled);
+  const samples = chain.quantize ? chain.quantize(exact) : exact;
+
+  const values: number[] = new Array(length);
+  let k = 0;
+  for (let i = 0; i < length; i++) {
+    const t = i / audioRate;
+    while (k + 1 < sampleTimes.length && sampleTimes[k + 1] <= t) k++;
+    values[i] = samples[k];
+  }
+  return normalizeAudio(values, audioRate);
+}
+
+/**
+ * Sampling rate reached at time t of a sweep
+ */
+export function sweepRateAt(t: number, [fsStart, fsEnd]: [number, number], duration: number): number {
+  return fsStart + (fsEnd - fsStart) * Math.max(0, Math.min(1, t / duration));
+}
+
+/**
+ * Copy samples into an AudioBuffer of the given context
+ */
+export function createAudioBuffer(context: BaseAudioContext, samples: Float32Array, audioRate: number): AudioBuffer {
+  const buffer = context.createBuffer(1, samples.length, audioRate);
+  buffer.copyToChannel(samples as Float32Array<ArrayBuffer>, 0);
+  return buffer;
+}
+
+/**
+ * Render samples through an OfflineAudioContext, without any audio device
+ */
+export async function renderOffline(samples: Float32Array, audioRate: number): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(1, samples.length, audioRate);
+  const source = context.createBufferSource();
+  source.buffer = createAudioBuffer(context, samples, audioRate);
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+}
+
+/**
+ * Encode mono samples in [-1, 1] as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, audioRate: number): Blob {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);                          // fmt chunk size
+  view.setUint16(20, 1, true);                           // PCM
+  view.setUint16(22, 1, true);                           // Mono
+  view.setUint32(24, audioRate, true);
+  view.setUint32(28, audioRate * bytesPerSample, true);  // Byte rate
+  view.setUint16(32, bytesPerSample, true);              // Block align
+  view.setUint16(34, 8 * bytesPerSample, true);          // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * bytesPerSample, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { BANDPASS_EXAMPLE, bandOfSignal, DEFAULT_BAND, foldBand, undersamplingRanges } from './bandpass';
+
+describe('undersamplingRanges', () => {
+  it('lists 2f_H / n ≤ f_s ≤ 2f_L / (n - 1) for n = 1 … ⌊f_H / B⌋', () => {
+    const ranges = undersamplingRanges(DEFAULT_BAND);
+    expect(ranges.map(r => r.n)).toEqual([1, 2, 3, 4]);
+    expect(ranges[0]).toEqual({ n: 1, min: 800, max: Infinity });
+    expect(ranges[1]).toEqual({ n: 2, min: 400, max: 600 });
+    expect(ranges[2].min).toBeCloseTo(800 / 3, 9);
+    expect(ranges[2].max).toBe(300);
+    expect(ranges[3]).toEqual({ n: 4, min: 200, max: 200 });
+  });
+
+  it('has no ranges for an empty band', () => {
+    expect(undersamplingRanges({ low: 300, high: 300 })).toEqual([]);
+    expect(undersamplingRanges({ low: 0, high: 0 })).toEqual([]);
+  });
+
+  it('folds the band without overlap at every allowed rate', () => {
+    undersamplingRanges({ low: 310, high: 390 }).forEach(({ min, max }) => {
+      const fs = Number.isFinite(max) ? (min + max) / 2 : 2 * min;
+      expect(foldBand({ low: 310, high: 390 }, fs).valid).toBe(true);
+    });
+  });
+});
+
+describe('foldBand', () => {
+  it('shifts a band in an even zone', () => {
+    expect(foldBand(DEFAULT_BAND, 280)).toEqual({ zone: 2, low: 20, high: 120, inverted: false, valid: true });
+  });
+
+  it('mirrors a band in an odd zone', () => {
+    expect(foldBand(DEFAULT_BAND, 500)).toEqual({ zone: 1, low: 100, high: 200, inverted: true, valid: true });
+  });
+
+  it('flags a band that straddles two zones', () => {
+    const folded = foldBand(DEFAULT_BAND, 250);
+    expect(folded.zone).toBe(2);
+    expect(folded.valid).toBe(false);
+  });
+});
+
+describe('bandOfSignal', () => {
+  it('spans the components with a non-zero amplitude', () => {
+    expect(bandOfSignal(BANDPASS_EXAMPLE)).toEqual({ low: 310, high: 390 });
+    expect(bandOfSignal({ components: [{ type: 'sin', amplitude: 0, frequency: 50, phase: 0 }], dc: 1 }))
+      .toEqual({ low: 0, high: 0 });
+  });
+});
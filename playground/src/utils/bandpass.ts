@@ -0,0 +1,80 @@
+/**
+ * Bandpass sampling (undersampling)
+ * A signal confined to [f_L, f_H] with bandwidth B = f_H - f_L can be sampled below 2·f_H as long as no
+ * replica of the band overlaps another: 2f_H / n ≤ f_s ≤ 2f_L / (n - 1) for n = 1 … ⌊f_H / B⌋
+ */
+
+import type { SignalDefinition } from './samplingCalculator';
+
+export interface SignalBand {
+  low: number;   // f_L (Hz)
+  high: number;  // f_H (Hz)
+}
+
+export interface UndersamplingRange {
+  n: number;    // Number of replicas of the band in [0, f_H]; n = 1 is ordinary baseband sampling
+  min: number;  // 2f_H / n
+  max: number;  // 2f_L / (n - 1), Infinity for n = 1
+}
+
+export interface FoldedBand {
+  zone: number;       // Nyquist zone [k·f_s/2, (k+1)·f_s/2] holding f_L, from 0
+  low: number;        // Edges of the band after folding into [0, f_s/2]
+  high: number;
+  inverted: boolean;  // Odd zones fold the band mirrored
+  valid: boolean;     // The whole band lies in one zone, so it folds without overlapping itself
+}
+
+export const DEFAULT_BAND: SignalBand = { low: 300, high: 400 };
+
+/**
+ * Three tones inside the default band: f_max = 390 Hz, yet f_s = 280 Hz is enough
+ */
+export const BANDPASS_EXAMPLE: SignalDefinition = {
+  components: [
+    { type: 'cos', amplitude: 1, frequency: 310, phase: 0 },
+    { type: 'cos', amplitude: 0.8, frequency: 350, phase: 0 },
+    { type: 'sin', amplitude: 0.6, frequency: 390, phase: 0 },
+  ],
+  dc: 0,
+};
+
+/**
+ * Smallest band holding every component with a non-zero amplitude
+ */
+export function bandOfSignal(signal: SignalDefinition): SignalBand {
+  const frequencies = signal.components.filter(c => c.amplitude !== 0).map(c => c.frequency);
+  if (frequencies.length === 0) return { low: 0, high: 0 };
+  return { low: Math.min(...frequencies), high: Math.max(...frequencies) };
+}
+
+/**
+ * Every range of sampling rates that keeps the band free of overlapping replicas
+ */
+export function undersamplingRanges({ low, high }: SignalBand): UndersamplingRange[] {
+  const bandwidth = high - low;
+  if (bandwidth <= 0 || high <= 0) return [];
+
+  const ranges: UndersamplingRange[] = [];
+  const maxZones = Math.floor(high / bandwidth);
+  for (let n = 1; n <= maxZones; n++) {
+    const min = (2 * high) / n;
+    const max = n === 1 ? Infinity : (2 * low) / (n - 1);
+    if (min <= max) ranges.push({ n, min, max });
+  }
+  return ranges;
+}
+
+/**
+ * Where the band lands after sampling at fs
+ */
+export function foldBand({ low, high }: SignalBand, fs: number): FoldedBand {
+  const halfRate = fs / 2;
+  const zone = Math.floor(low / halfRate + 1e-9);
+  const lastZone = Math.max(zone, Math.ceil(high / halfRate - 1e-9) - 1);
+  const inverted = zone % 2 === 1;
+  const edge = zone * halfRate;
+  return inverted
+    ? { zone, low: edge + halfRate - high, high: edge + halfRate - low, inverted, valid: lastZone === zone }
+    : { zone, low: low - edge, high: high - edge, inverted, valid: lastZone === zone };
+}
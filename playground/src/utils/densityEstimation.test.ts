@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_DENSITY_OPTIONS,
+  estimateDensity,
+  freedmanDiaconisWidth,
+  gaussianKde,
+  histogram,
+  MAX_BINS,
+  mean,
+  numBinsForRule,
+  quantile,
+  silvermanBandwidth,
+  standardDeviation,
+  sturgesBins,
+} from './densityEstimation';
+import { createRandom, gaussian } from './random';
+
+function normalSamples(length: number, seed: number): number[] {
+  const random = createRandom(seed);
+  return Array.from({ length }, () => gaussian(random));
+}
+
+describe('summary statistics', () => {
+  it('computes the mean, the sample standard deviation and interpolated quantiles', () => {
+    expect(mean([1, 2, 3, 6])).toBe(3);
+    expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(Math.sqrt(32 / 7), 12);
+    expect(quantile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantile([1, 2, 3, 4], 0.25)).toBe(1.75);
+    expect(quantile([], 0.5)).toBe(0);
+  });
+});
+
+describe('bin and bandwidth rules', () => {
+  const values = Array.from({ length: 9 }, (_, i) => i);  // IQR = 4, σ = √7.5
+
+  it('follows the closed-form rules', () => {
+    expect(sturgesBins(1000)).toBe(11);
+    expect(sturgesBins(1024)).toBe(11);
+    expect(freedmanDiaconisWidth(values)).toBeCloseTo(2 * 4 * Math.pow(9, -1 / 3), 12);
+    const spread = Math.min(Math.sqrt(7.5), 4 / 1.34);
+    expect(silvermanBandwidth(values)).toBeCloseTo(0.9 * spread * Math.pow(9, -1 / 5), 12);
+  });
+
+  it('keeps every bin count in [1, MAX_BINS]', () => {
+    // A few huge outliers over a tight cluster: Freedman–Diaconis would ask for millions of bins
+    const outliers = [...normalSamples(1000, 1).map(v => 0.01 * v), 1e6, -1e6];
+    expect(numBinsForRule(outliers, 'freedman-diaconis', 20, 2e6)).toBe(MAX_BINS);
+    expect(numBinsForRule(outliers, 'fixed', 1e9, 2e6)).toBe(MAX_BINS);
+    expect(numBinsForRule(outliers, 'fixed', 0, 2e6)).toBe(1);
+    expect(numBinsForRule(outliers, 'fixed', NaN, 2e6)).toBe(1);
+    expect(numBinsForRule(outliers, 'fixed', 12.4, 2e6)).toBe(12);
+  });
+
+  it('falls back to Sturges for a degenerate IQR', () => {
+    expect(numBinsForRule(new Array(100).fill(3), 'freedman-diaconis', 20, 0)).toBe(sturgesBins(100));
+  });
+});
+
+describe('histogram', () => {
+  it('adds up to 1 and puts values outside the range in the edge bins', () => {
+    const probabilities = histogram([-5, 0.1, 0.6, 0.7, 5], 2, [0, 1]);
+    expect(probabilities).toEqual([0.4, 0.6]);
+  });
+
+  it('never allocates more than MAX_BINS bins', () => {
+    expect(histogram([0, 1], 1e9, [0, 1])).toHaveLength(MAX_BINS);
+  });
+});
+
+describe('gaussianKde and estimateDensity', () => {
+  const samples = normalSamples(2000, 2);
+
+  it('integrates to 1', () => {
+    const kde = gaussianKde(samples, 0.3);
+    let integral = 0;
+    for (let x = -8; x < 8; x += 0.01) integral += kde(x) * 0.01;
+    expect(integral).toBeCloseTo(1, 3);
+  });
+
+  it('estimates the differential entropy of a standard normal, ½ log₂(2πe)', () => {
+    const estimate = estimateDensity(samples, { ...DEFAULT_DENSITY_OPTIONS, mode: 'differential' });
+    expect(estimate.entropy).toBeCloseTo(0.5 * Math.log2(2 * Math.PI * Math.E), 1);
+  });
+
+  it('gives H ≈ h - log₂ Δ for the histogram entropy', () => {
+    const estimate = estimateDensity(samples, { ...DEFAULT_DENSITY_OPTIONS, numBins: 40, range: [-5, 5] });
+    expect(estimate.probabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 12);
+    expect(estimate.entropy).toBeCloseTo(estimate.differentialEntropy - Math.log2(estimate.binWidth), 1);
+  });
+});
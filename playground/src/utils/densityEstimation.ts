@@ -0,0 +1,239 @@
+/**
+ * Density estimation for the marginal distribution of a signal
+ * Histogram (fixed count, Sturges, Freedman–Diaconis) and Gaussian KDE (Silverman or manual bandwidth)
+ */
+
+export type DensityMode = 'histogram' | 'kde' | 'differential';
+export type BinRule = 'fixed' | 'sturges' | 'freedman-diaconis';
+export type BandwidthRule = 'silverman' | 'manual';
+
+export const DENSITY_MODES: readonly DensityMode[] = ['histogram', 'kde', 'differential'];
+export const BIN_RULES: readonly BinRule[] = ['fixed', 'sturges', 'freedman-diaconis'];
+export const BANDWIDTH_RULES: readonly BandwidthRule[] = ['silverman', 'manual'];
+
+export interface DensityOptions {
+  mode: DensityMode;
+  binRule: BinRule;
+  numBins: number;          // Used by the 'fixed' bin rule
+  bandwidthRule: BandwidthRule;
+  bandwidth: number;        // Used by the 'manual' bandwidth rule
+  range?: [number, number]; // Defaults to the data range
+}
+
+export interface DensityPoint {
+  x: number;
+  density: number;
+}
+
+export interface DensityEstimate {
+  mode: DensityMode;
+  binEdges: number[];
+  probabilities: number[];  // Probability mass per bin
+  binWidth: number;
+  bandwidth: number;        // KDE bandwidth h (Silverman or manual)
+  pdf: DensityPoint[];      // KDE curve, evaluated on a grid
+  entropy: number;          // Bits: discrete for 'histogram' and 'kde', differential for 'differential'
+  differentialEntropy: number;
+}
+
+export const DEFAULT_DENSITY_OPTIONS: DensityOptions = {
+  mode: 'histogram',
+  binRule: 'fixed',
+  numBins: 20,
+  bandwidthRule: 'silverman',
+  bandwidth: 0.2,
+};
+
+const GRID_POINTS = 200;
+// Upper bound on the number of histogram bins: a few outliers make the Freedman–Diaconis count explode
+export const MAX_BINS = 512;
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function standardDeviation(values: number[]): number {
+  const mu = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - mu) * (v - mu), 0) / Math.max(1, values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Linear-interpolated quantile of sorted values, q in [0, 1]
+ */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function interquartileRange(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return quantile(sorted, 0.75) - quantile(sorted, 0.25);
+}
+
+/**
+ * Sturges' rule: k = ⌈log₂ n⌉ + 1 bins
+ */
+export function sturgesBins(n: number): number {
+  return Math.ceil(Math.log2(Math.max(1, n))) + 1;
+}
+
+/**
+ * Freedman–Diaconis rule: bin width Δ = 2 · IQR · n^(-1/3)
+ */
+export function freedmanDiaconisWidth(values: number[]): number {
+  return 2 * interquartileRange(values) * Math.pow(values.length, -1 / 3);
+}
+
+/**
+ * Silverman's rule of thumb: h = 0.9 · min(σ, IQR / 1.34) · n^(-1/5)
+ */
+export function silvermanBandwidth(values: number[]): number {
+  const sigma = standardDeviation(values);
+  const iqr = interquartileRange(values) / 1.34;
+  const spread = iqr > 0 ? Math.min(sigma, iqr) : sigma;
+  return 0.9 * spread * Math.pow(values.length, -1 / 5);
+}
+
+function clampBins(numBins: number): number {
+  return Number.isFinite(numBins) ? Math.max(1, Math.min(MAX_BINS, Math.round(numBins))) : 1;
+}
+
+/**
+ * Number of bins for the chosen rule over a range of the given width, in [1, MAX_BINS]
+ */
+export function numBinsForRule(values: number[], rule: BinRule, numBins: number, rangeWidth: number): number {
+  if (rule === 'sturges') return clampBins(sturgesBins(values.length));
+  if (rule === 'freedman-diaconis') {
+    const width = freedmanDiaconisWidth(values);
+    // Degenerate IQR (e.g. constant signal): fall back to Sturges
+    if (width <= 0 || rangeWidth <= 0) return clampBins(sturgesBins(values.length));
+    return clampBins(Math.ceil(rangeWidth / width));
+  }
+  return clampBins(numBins);
+}
+
+/**
+ * Histogram probabilities over numBins equal intervals of range
+ * Values outside the range are assigned to the first or last bin
+ */
+export function histogram(values: number[], numBins: number, [min, max]: [number, number]): number[] {
+  const bins = clampBins(numBins);
+  const counts = new Array(bins).fill(0);
+  const binWidth = (max - min) / bins || 1;
+
+  values.forEach(value => {
+    const bin = Math.floor((value - min) / binWidth);
+    counts[Math.max(0, Math.min(bins - 1, bin))]++;
+  });
+
+  return counts.map(count => count / Math.max(1, values.length));
+}
+
+/**
+ * Gaussian kernel density estimate f̂(x) = 1/(n·h) Σ φ((x - x_i) / h)
+ */
+export function gaussianKde(values: number[], bandwidth: number): (x: number) => number {
+  const norm = 1 / (values.length * bandwidth * Math.sqrt(2 * Math.PI));
+  return (x: number) => {
+    let sum = 0;
+    for (const v of values) {
+      const u = (x - v) / bandwidth;
+      sum += Math.exp(-0.5 * u * u);
+    }
+    return norm * sum;
+  };
+}
+
+/**
+ * Shannon entropy (bits) of a probability vector
+ */
+function discreteEntropy(probabilities: number[]): number {
+  return probabilities.reduce((sum, p) => (p > 0 ? sum - p * Math.log2(p) : sum), 0);
+}
+
+/**
+ * Differential entropy h = -∫ f(x) log₂ f(x) dx by the trapezoidal rule
+ */
+function integrateDifferentialEntropy(pdf: DensityPoint[]): number {
+  let entropy = 0;
+  for (let i = 1; i < pdf.length; i++) {
+    const dx = pdf[i].x - pdf[i - 1].x;
+    const term = (p: DensityPoint) => (p.density > 0 ? -p.density * Math.log2(p.density) : 0);
+    entropy += 0.5 * (term(pdf[i]) + term(pdf[i - 1])) * dx;
+  }
+  return entropy;
+}
+
+/**
+ * Estimate the marginal density of a signal and its entropy
+ * - histogram: H = -Σ p_i log₂ p_i over the chosen bins
+ * - kde: the same sum with p_i the KDE probability mass of each bin
+ * - differential: h = -∫ f̂ log₂ f̂ dx of the KDE (H ≈ h - log₂ Δ for small bins)
+ */
+export function estimateDensity(values: number[], options: DensityOptions): DensityEstimate {
+  if (values.length === 0) {
+    return {
+      mode: options.mode,
+      binEdges: [],
+      probabilities: [],
+      binWidth: 0,
+      bandwidth: 0,
+      pdf: [],
+      entropy: 0,
+      differentialEntropy: 0,
+    };
+  }
+
+  const dataMin = Math.min(...values);
+  const dataMax = Math.max(...values);
+  const [min, max] = options.range ?? (dataMax > dataMin ? [dataMin, dataMax] : [dataMin - 0.5, dataMax + 0.5]);
+  const numBins = numBinsForRule(values, options.binRule, options.numBins, max - min);
+  const binWidth = (max - min) / numBins;
+  const binEdges = Array.from({ length: numBins + 1 }, (_, i) => min + i * binWidth);
+
+  const silverman = silvermanBandwidth(values);
+  const bandwidth = options.bandwidthRule === 'manual' || silverman <= 0
+    ? Math.max(1e-3, options.bandwidth)
+    : silverman;
+  const kde = gaussianKde(values, bandwidth);
+
+  // Evaluate the KDE beyond the data so its tails integrate to ~1
+  const gridMin = min - 3 * bandwidth;
+  const gridMax = max + 3 * bandwidth;
+  const pdf: DensityPoint[] = Array.from({ length: GRID_POINTS }, (_, i) => {
+    const x = gridMin + (i / (GRID_POINTS - 1)) * (gridMax - gridMin);
+    return { x, density: kde(x) };
+  });
+  const differentialEntropy = integrateDifferentialEntropy(pdf);
+
+  let probabilities: number[];
+  if (options.mode === 'histogram') {
+    probabilities = histogram(values, numBins, [min, max]);
+  } else {
+    // KDE mass per bin (midpoint rule with 10 sub-intervals), renormalized over the range
+    const mass = binEdges.slice(0, -1).map(left => {
+      let sum = 0;
+      for (let k = 0; k < 10; k++) {
+        sum += kde(left + (k + 0.5) * binWidth / 10) * binWidth / 10;
+      }
+      return sum;
+    });
+    const total = mass.reduce((sum, p) => sum + p, 0) || 1;
+    probabilities = mass.map(p => p / total);
+  }
+
+  return {
+    mode: options.mode,
+    binEdges,
+    probabilities,
+    binWidth,
+    bandwidth,
+    pdf,
+    entropy: options.mode === 'differential' ? differentialEntropy : discreteEntropy(probabilities),
+    differentialEntropy,
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBlockEntropies, calculateEntropy, shannonEntropy, type SignalPoint } from './entropyCalculator';
+import { createRandom } from './random';
+
+const toSignal = (values: number[]): SignalPoint[] => values.map((value, index) => ({ index, value }));
+
+// Alternating -1.5, 1.5: two symbols with Q = 2 over [-2, 2], and the next one is always known
+const alternating = toSignal(Array.from({ length: 64 }, (_, i) => (i % 2 === 0 ? -1.5 : 1.5)));
+
+describe('shannonEntropy', () => {
+  it('is log₂ of the number of equally likely symbols', () => {
+    expect(shannonEntropy([5, 5, 5, 5], 20)).toBeCloseTo(2, 12);
+    expect(shannonEntropy([0, 7, 0], 7)).toBe(0);
+    expect(shannonEntropy([1, 3], 4)).toBeCloseTo(-(0.25 * Math.log2(0.25) + 0.75 * Math.log2(0.75)), 12);
+  });
+});
+
+describe('calculateBlockEntropies', () => {
+  it('finds no new information in a periodic signal', () => {
+    const blocks = calculateBlockEntropies(alternating, 2, 4);
+    expect(blocks.map(b => b.m)).toEqual([1, 2, 3, 4]);
+    blocks.forEach(b => {
+      expect(b.entropy).toBeCloseTo(1, 2);
+      expect(b.distinctWords).toBe(2);
+      expect(b.numWords).toBe(64 - b.m + 1);
+    });
+    expect(blocks[0].conditionalEntropy).toBeCloseTo(1, 2);
+    blocks.slice(1).forEach(b => expect(Math.abs(b.conditionalEntropy)).toBeLessThan(0.01));
+  });
+
+  it('adds log₂ Q bits per sample for independent uniform symbols', () => {
+    const random = createRandom(5);
+    const signal = toSignal(Array.from({ length: 20000 }, () => -2 + 4 * random()));
+    const blocks = calculateBlockEntropies(signal, 4, 3);
+    blocks.forEach(b => {
+      expect(b.entropy).toBeCloseTo(2 * b.m, 1);
+      expect(b.reliable).toBe(true);
+    });
+  });
+
+  it('flags word lengths with more possible words than windows', () => {
+    const random = createRandom(6);
+    const signal = toSignal(Array.from({ length: 50 }, () => -2 + 4 * random()));
+    const blocks = calculateBlockEntropies(signal, 8, 3);
+    expect(blocks[0].reliable).toBe(true);
+    expect(blocks[2].reliable).toBe(false);
+  });
+});
+
+describe('calculateEntropy', () => {
+  it('extrapolates H_N = H_k + (N - k)·h_k', () => {
+    const result = calculateEntropy(alternating, { numBins: 2, maxBlockLength: 3 });
+    const chosen = result.blockEntropies[result.blockLength - 1];
+    expect(result.entropy).toBeCloseTo(chosen.entropy + (64 - result.blockLength) * result.entropyRate, 9);
+    expect(result.entropy).toBeLessThan(1.5);
+    expect(result.probabilities).toEqual([0.5, 0.5]);
+  });
+
+  it('returns zero for an empty signal', () => {
+    const result = calculateEntropy([]);
+    expect(result.entropy).toBe(0);
+    expect(result.blockEntropies).toEqual([]);
+  });
+});
@@ -1,23 +1,33 @@
 /**
- * Simplified entropy calculation for stochastic processes
- * Uses discretization/histogram approach to approximate the joint PDF
+ * Entropy calculation for stochastic processes
+ * Uses block entropies of the quantized signal to approximate the joint PDF
  */
 
+import { histogram } from './densityEstimation';
+import { createRandom, DEFAULT_SEED, type RandomSource } from './random';
+
 export interface SignalPoint {
   index: number;
   value: number;
 }
 
 /**
- * Generate a signal with Gaussian noise
+ * Generate one sine period plus uniform noise
+ * The noise is uniform on [-a, a] with a = √(3·noiseVariance), so its variance is noiseVariance
+ * See stochasticProcesses.ts for other processes
  */
-export function generateSignal(N: number, noiseVariance: number = 0.5): SignalPoint[] {
+export function generateSignal(
+  N: number,
+  noiseVariance: number = 0.5,
+  random: RandomSource = createRandom(DEFAULT_SEED)
+): SignalPoint[] {
   const signal: SignalPoint[] = [];
+  const a = Math.sqrt(3 * noiseVariance);
   
   for (let i = 1; i <= N; i++) {
     // Generate a value with some pattern + noise
     const baseValue = Math.sin((i / N) * 2 * Math.PI) * 0.5;
-    const noise = (Math.random() - 0.5) * 2 * Math.sqrt(noiseVariance);
+    const noise = (random() - 0.5) * 2 * a;
     const value = baseValue + noise;
     
     signal.push({
@@ -29,12 +39,58 @@ export function generateSignal(N: number, noiseVariance: number = 0.5): SignalPo
   return signal;
 }
 
+/**
+ * One entry of a step-by-step derivation, rendered by FormulaBreakdown
+ */
+export interface EntropyStep {
+  step: string;
+  value: number;
+  description: string;
+  detailedExplanation?: {
+    title: string;
+    substeps: string[];
+    formula?: string;
+  };
+}
+
+/**
+ * Block entropy of words of length m
+ */
+export interface BlockEntropy {
+  m: number;
+  entropy: number;               // H_m
+  conditionalEntropy: number;    // h_m = H_m - H_{m-1}
+  numWords: number;              // Number of length-m windows: N - m + 1
+  distinctWords: number;
+  reliable: boolean;             // Enough windows to populate the Q^m possible words
+}
+
+const DEFAULT_RANGE: [number, number] = [-2, 2];
+
+export interface EntropyOptions {
+  numBins?: number;         // Quantization levels Q
+  maxBlockLength?: number;  // Largest word length k
+  range?: [number, number]; // Quantization range, [-2, 2] by default
+}
+
+export interface EntropyResult {
+  entropy: number;          // Estimated joint entropy H_N
+  entropyRate: number;      // Estimated entropy rate (bits/sample)
+  blockLength: number;      // Word length used for the H_N extrapolation
+  reliable: boolean;
+  probabilities: number[];
+  blockEntropies: BlockEntropy[];
+  stepByStep: EntropyStep[];
+}
+
 /**
  * Discretize signal values into bins
  */
-function discretizeSignal(signal: SignalPoint[], numBins: number = 20): number[] {
-  const min = -2;
-  const max = 2;
+function discretizeSignal(
+  signal: SignalPoint[],
+  numBins: number = 20,
+  [min, max]: [number, number] = DEFAULT_RANGE
+): number[] {
   const binWidth = (max - min) / numBins;
   
   return signal.map(point => {
@@ -43,145 +99,224 @@ function discretizeSignal(signal: SignalPoint[], numBins: number = 20): number[]
   });
 }
 
+/**
+ * Shannon entropy (bits) of a list of counts
+ */
+export function shannonEntropy(counts: Iterable<number>, total: number): number {
+  let entropy = 0;
+  for (const count of counts) {
+    if (count > 0) {
+      const p = count / total;
+      entropy -= p * Math.log2(p);
+    }
+  }
+  return entropy;
+}
+
+/**
+ * Count the length-m words of a symbol sequence
+ * Each word is the tuple (s_i, s_{i+1}, ..., s_{i+m-1}) of a sliding window
+ */
+function countWords(symbols: number[], m: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + m <= symbols.length; i++) {
+    const word = symbols.slice(i, i + m).join(',');
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Calculate block entropies H_1, ..., H_k of the quantized signal
+ * H_m is the Shannon entropy of the empirical distribution of length-m words,
+ * i.e. a histogram estimate of the m-dimensional joint PDF p(x_i, ..., x_{i+m-1})
+ */
+export function calculateBlockEntropies(
+  signal: SignalPoint[],
+  numBins: number = 20,
+  maxBlockLength: number = 4,
+  range: [number, number] = DEFAULT_RANGE
+): BlockEntropy[] {
+  const symbols = discretizeSignal(signal, numBins, range);
+  const alphabetSize = new Set(symbols).size;
+  const k = Math.min(maxBlockLength, symbols.length);
+  const blocks: BlockEntropy[] = [];
+  let previous = 0;
+
+  for (let m = 1; m <= k; m++) {
+    const counts = countWords(symbols, m);
+    const numWords = symbols.length - m + 1;
+    const entropy = shannonEntropy(counts.values(), numWords);
+    blocks.push({
+      m,
+      entropy,
+      conditionalEntropy: entropy - previous,
+      numWords,
+      distinctWords: counts.size,
+      reliable: numWords >= Math.pow(alphabetSize, m),
+    });
+    previous = entropy;
+  }
+
+  return blocks;
+}
+
 /**
  * Calculate joint probability using histogram approach
- * For simplicity, we use a 1D histogram (marginal distribution)
- * In the real formula, this would be an N-dimensional joint PDF
+ * This is the marginal (m = 1) distribution of the quantized signal
  */
-function calculateJointProbability(signal: SignalPoint[], numBins: number = 20): number[] {
-  const discretized = discretizeSignal(signal, numBins);
-  const counts = new Array(numBins).fill(0);
-  
-  discretized.forEach(bin => {
-    counts[bin]++;
-  });
-  
-  // Normalize to get probabilities
-  const total = signal.length;
-  return counts.map(count => count / total);
+function calculateJointProbability(
+  signal: SignalPoint[],
+  numBins: number = 20,
+  range: [number, number] = DEFAULT_RANGE
+): number[] {
+  return histogram(signal.map(point => point.value), numBins, range);
 }
 
 /**
- * Calculate entropy H_N using simplified approach
+ * Calculate entropy H_N using block entropies
  * Real formula: H_N = -∫ log₂[p(x₁, x₂, ..., x_N)] · p(x₁, x₂, ..., x_N) dx₁...dx_N
- * Simplified: We use the marginal distribution and Shannon's entropy formula
+ * Estimate: count length-m words of the quantized signal (m = 1..k) and apply the chain rule
+ * H_N ≈ H_k + (N - k) · h_k, where h_k = H_k - H_{k-1} estimates the entropy rate
+ * k is the longest word length for which N is long enough to give a reliable estimate
  */
-export function calculateEntropy(signal: SignalPoint[]): {
-  entropy: number;
-  probabilities: number[];
-  stepByStep: {
-    step: string;
-    value: number;
-    description: string;
-    detailedExplanation?: {
-      title: string;
-      substeps: string[];
-      formula?: string;
-    };
-  }[];
-} {
+export function calculateEntropy(
+  signal: SignalPoint[],
+  { numBins = 20, maxBlockLength = 4, range = DEFAULT_RANGE }: EntropyOptions = {}
+): EntropyResult {
   if (signal.length === 0) {
     return {
       entropy: 0,
+      entropyRate: 0,
+      blockLength: 0,
+      reliable: false,
       probabilities: [],
+      blockEntropies: [],
       stepByStep: []
     };
   }
   
-  const numBins = 20;
-  const probabilities = calculateJointProbability(signal, numBins);
+  const N = signal.length;
+  const probabilities = calculateJointProbability(signal, numBins, range);
+  const alphabetSize = probabilities.filter(p => p > 0).length;
+  const blockEntropies = calculateBlockEntropies(signal, numBins, maxBlockLength, range);
+  const [min, max] = range;
   
-  const stepByStep: { step: string; value: number; description: string }[] = [];
-  let entropy = 0;
+  // Longest reliable word length (H_1 is always used as a fallback)
+  const reliableBlocks = blockEntropies.filter(b => b.reliable);
+  const chosen = reliableBlocks.length > 0
+    ? reliableBlocks[reliableBlocks.length - 1]
+    : blockEntropies[0];
+  const k = chosen.m;
+  const entropyRate = Math.max(0, chosen.conditionalEntropy);
+  const entropy = chosen.entropy + (N - k) * entropyRate;
+  const reliable = blockEntropies.length === Math.min(maxBlockLength, N) &&
+    blockEntropies.every(b => b.reliable);
+  const unreliableFrom = blockEntropies.find(b => !b.reliable);
+  
+  const stepByStep: EntropyStep[] = [];
   
   stepByStep.push({
     step: '1',
-    value: signal.length,
-    description: `Signal length N = ${signal.length} samples`,
+    value: N,
+    description: `Signal length N = ${N} samples`,
     detailedExplanation: {
       title: 'Understanding Signal Length',
       substeps: [
         'A stochastic process is represented as a sequence of N random variable realizations',
-        `In this case, we have ${signal.length} samples: x₁, x₂, ..., x_${signal.length}`,
+        `In this case, we have ${N} samples: x₁, x₂, ..., x_${N}`,
         'Each sample x_i represents a measurement at time index i',
         'The length N determines the dimensionality of the joint probability distribution',
         'Longer signals contain more information, potentially increasing entropy'
       ],
-      formula: `\\mathbf{x} = x_1, x_2, \\ldots, x_${signal.length}`
+      formula: `\\mathbf{x} = x_1, x_2, \\ldots, x_{${N}}`
     }
   });
   
   stepByStep.push({
     step: '2',
-    value: probabilities.filter(p => p > 0).length,
-    description: `Discretize signal into bins and count occurrences`,
+    value: alphabetSize,
+    description: `Quantize the signal into Q = ${numBins} levels`,
     detailedExplanation: {
-      title: 'Discretization Process',
+      title: 'Quantization',
       substeps: [
-        'Since computing the full N-dimensional joint PDF is computationally expensive, we use a simplified approach',
-        'We divide the signal value range into discrete bins (typically 20 bins)',
-        'Each signal value is assigned to a bin based on its magnitude',
-        'We count how many samples fall into each bin',
-        `This gives us a histogram approximation of the probability distribution`,
-        `Currently, ${probabilities.filter(p => p > 0).length} bins contain samples (non-zero probability)`,
-        'The probability of each bin is calculated as: p_i = (number of samples in bin) / (total samples)'
+        `The range [${min}, ${max}] is divided into ${numBins} equal intervals`,
+        'Each sample x_i is replaced by the symbol s_i of the interval it falls into',
+        `${alphabetSize} of the ${numBins} symbols actually occur in this signal`,
+        'The marginal probability of each symbol is p_i = (number of samples in interval i) / N',
+        'Fewer levels give fewer possible words, so short signals can support longer words'
       ],
-      formula: `p_i = \\frac{\\text{count in bin } i}{N}`
+      formula: `s_i = \\left\\lfloor \\frac{x_i - (${min})}{\\Delta} \\right\\rfloor, \\quad \\Delta = \\frac{${max - min}}{${numBins}}`
     }
   });
   
-  // Calculate entropy: H = -Σ p_i · log₂(p_i)
-  const contributions: number[] = [];
-  probabilities.forEach((p, i) => {
-    if (p > 0) {
-      const logP = Math.log2(p);
-      const contribution = -p * logP;
-      contributions.push(contribution);
-      entropy += contribution;
+  stepByStep.push({
+    step: '3',
+    value: blockEntropies[blockEntropies.length - 1].entropy,
+    description: `Count length-m words and compute H_m for m = 1..${blockEntropies.length}`,
+    detailedExplanation: {
+      title: 'Block Entropies',
+      substeps: [
+        'A word of length m is a window (s_i, s_{i+1}, ..., s_{i+m-1}) of consecutive symbols',
+        'Sliding the window over the signal gives N - m + 1 words',
+        'The relative frequency of each distinct word estimates the m-dimensional joint PDF',
+        'H_m is the Shannon entropy of that word distribution',
+        ...blockEntropies.map(b =>
+          `H_${b.m} = ${b.entropy.toFixed(4)} bits (${b.distinctWords} distinct words out of ${b.numWords})`
+        )
+      ],
+      formula: `H_m = -\\sum_{w \\in \\mathcal{A}^m} p(w) \\log_2 p(w)`
     }
   });
   
   stepByStep.push({
-    step: '3',
-    value: entropy,
-    description: `Calculate H_N = -Σ p_i · log₂(p_i) for each bin`,
+    step: '4',
+    value: entropyRate,
+    description: `Conditional entropy h_m = H_m − H_{m−1} and entropy rate h ≈ ${entropyRate.toFixed(4)} bits/sample`,
     detailedExplanation: {
-      title: 'Shannon Entropy Calculation',
+      title: 'Conditional Entropy and Entropy Rate',
       substeps: [
-        'For each bin i with probability p_i > 0, we calculate the information content: -log₂(p_i)',
-        'Less probable values carry more information (surprise effect)',
-        'The entropy contribution from bin i is: -p_i · log₂(p_i)',
-        'We sum all contributions to get the total entropy',
-        `Mathematically: H_N = -Σ_{i=1}^{M} p_i · log₂(p_i) where M is the number of bins`,
-        `This is Shannon's entropy formula applied to the discretized distribution`,
-        `The result represents the average information content (in bits) per sample`
+        'h_m is the new information carried by one sample once the previous m - 1 samples are known',
+        'For a stationary process h_m never increases with m and converges to the entropy rate h',
+        ...blockEntropies.map(b =>
+          `h_${b.m} = ${b.conditionalEntropy.toFixed(4)} bits${b.reliable ? '' : ' (unreliable)'}`
+        ),
+        unreliableFrom
+          ? `From m = ${unreliableFrom.m} on, N - m + 1 is smaller than the ${alphabetSize}^m possible words: N is too short for a reliable estimate`
+          : 'N is long enough for every word length considered',
+        `The entropy rate is estimated with h_${k}`
       ],
-      formula: `H_N = -\\sum_{i=1}^{M} p_i \\log_2(p_i)`
+      formula: `h_m = H_m - H_{m-1}, \\quad h = \\lim_{m \\to \\infty} h_m \\approx h_{${k}}`
     }
   });
   
   stepByStep.push({
-    step: '4',
+    step: '5',
     value: entropy,
     description: `Final entropy H_N = ${entropy.toFixed(4)} bits`,
     detailedExplanation: {
       title: 'Interpreting the Result',
       substeps: [
-        `The final entropy value is H_N = ${entropy.toFixed(4)} bits`,
-        'This represents the average information content in the signal',
+        `By the chain rule, the joint entropy of N samples is H_${k} plus h_${k} bits for each of the remaining N - ${k} samples`,
+        `H_${N} ≈ ${chosen.entropy.toFixed(4)} + ${N - k} · ${entropyRate.toFixed(4)} = ${entropy.toFixed(4)} bits`,
         'Higher entropy means more uncertainty and less predictability',
         'Lower entropy indicates more regular, predictable patterns',
-        'In the context of stochastic processes, entropy measures the complexity of the signal',
         'If we add noise to the signal, entropy typically increases',
-        'The theoretical formula uses the full joint PDF, but this approximation gives us a practical estimate'
+        reliable
+          ? 'All block entropies were estimated from enough words'
+          : 'Warning: N is too short to estimate every block entropy reliably, longer words were ignored'
       ],
-      formula: `H_N = ${entropy.toFixed(4)} \\text{ bits}`
+      formula: `H_{${N}} \\approx H_{${k}} + (N - ${k})\\,h_{${k}} = ${entropy.toFixed(4)} \\text{ bits}`
     }
   });
   
   return {
     entropy: Math.max(0, entropy), // Ensure non-negative
+    entropyRate,
+    blockLength: k,
+    reliable,
     probabilities,
+    blockEntropies,
     stepByStep
   };
 }
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { computeSpectrum, fft, fftRadix2, ifft, type ComplexArray } from './fft';
+import { createRandom } from './random';
+
+const LENGTHS = [1, 2, 8, 64, 256, 12, 100];
+
+function randomComplex(N: number, seed: number): ComplexArray {
+  const random = createRandom(seed);
+  return {
+    re: Array.from({ length: N }, () => 2 * random() - 1),
+    im: Array.from({ length: N }, () => 2 * random() - 1),
+  };
+}
+
+/**
+ * Textbook DFT, written out independently of the module
+ */
+function referenceDft({ re, im }: ComplexArray): ComplexArray {
+  const N = re.length;
+  const out: ComplexArray = { re: [], im: [] };
+  for (let k = 0; k < N; k++) {
+    let sumRe = 0;
+    let sumIm = 0;
+    for (let n = 0; n < N; n++) {
+      const angle = (-2 * Math.PI * k * n) / N;
+      sumRe += re[n] * Math.cos(angle) - im[n] * Math.sin(angle);
+      sumIm += re[n] * Math.sin(angle) + im[n] * Math.cos(angle);
+    }
+    out.re.push(sumRe);
+    out.im.push(sumIm);
+  }
+  return out;
+}
+
+function maxError(a: ComplexArray, b: ComplexArray): number {
+  return Math.max(...a.re.map((v, i) => Math.max(Math.abs(v - b.re[i]), Math.abs(a.im[i] - b.im[i]))));
+}
+
+describe('fft', () => {
+  it.each(LENGTHS)('matches the direct DFT for N = %i', N => {
+    const x = randomComplex(N, N);
+    expect(maxError(fft(x), referenceDft(x))).toBeLessThan(1e-9);
+  });
+
+  it('rejects non-power-of-two lengths in the radix-2 kernel', () => {
+    expect(() => fftRadix2(randomComplex(12, 1))).toThrow();
+  });
+
+  it.each(LENGTHS)('IFFT(FFT(x)) gives back x for N = %i', N => {
+    const x = randomComplex(N, 100 + N);
+    expect(maxError(ifft(fft(x)), x)).toBeLessThan(1e-12);
+  });
+
+  it.each(LENGTHS)("satisfies Parseval's theorem for N = %i", N => {
+    const x = randomComplex(N, 200 + N);
+    const X = fft(x);
+    const timeEnergy = x.re.reduce((sum, v, n) => sum + v * v + x.im[n] * x.im[n], 0);
+    const frequencyEnergy = X.re.reduce((sum, v, k) => sum + v * v + X.im[k] * X.im[k], 0) / N;
+    expect(frequencyEnergy).toBeCloseTo(timeEnergy, 9);
+  });
+});
+
+describe('computeSpectrum', () => {
+  it.each(['rectangular', 'hann', 'hamming', 'blackman'] as const)(
+    'reads a sine of amplitude A as A at its bin with a %s window',
+    window => {
+      const N = 256;
+      const A = 1.7;
+      const bin = 32;
+      const values = Array.from({ length: N }, (_, n) => A * Math.sin((2 * Math.PI * bin * n) / N));
+      const spectrum = computeSpectrum(values, { sampleRate: N, window, zeroPadFactor: 1 });
+      expect(spectrum.frequencies[bin]).toBe(bin);
+      expect(spectrum.magnitude[bin]).toBeCloseTo(A, 2);
+      expect(spectrum.magnitude.indexOf(Math.max(...spectrum.magnitude))).toBe(bin);
+    }
+  );
+});
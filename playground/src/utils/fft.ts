@@ -0,0 +1,194 @@
+/**
+ * Discrete Fourier transform utilities
+ * Radix-2 FFT for power-of-two lengths, direct DFT otherwise, with windowing and zero-padding
+ */
+
+export type WindowType = 'rectangular' | 'hann' | 'hamming' | 'blackman';
+
+export type SpectrumView = 'magnitude' | 'phase' | 'psd';
+
+export const WINDOW_TYPES: readonly WindowType[] = ['rectangular', 'hann', 'hamming', 'blackman'];
+export const SPECTRUM_VIEWS: readonly SpectrumView[] = ['magnitude', 'phase', 'psd'];
+export const ZERO_PAD_FACTORS: readonly number[] = [1, 2, 4, 8];
+
+export interface ComplexArray {
+  re: number[];
+  im: number[];
+}
+
+export interface SpectrumOptions {
+  sampleRate: number;      // Samples per second; 1 gives frequencies in cycles/sample
+  window: WindowType;
+  zeroPadFactor: number;   // FFT length is at least zeroPadFactor * N
+  powerOfTwo?: boolean;    // Round the FFT length up to a power of two (radix-2), default true
+}
+
+export interface Spectrum {
+  frequencies: number[];   // One-sided, 0 to sampleRate / 2
+  magnitude: number[];     // Amplitude spectrum: a sinusoid of amplitude A peaks near A
+  phase: number[];         // Radians, in (-π, π]
+  psd: number[];           // Power spectral density (units² per frequency unit), one-sided
+  fftSize: number;
+  resolution: number;      // Bin spacing sampleRate / fftSize
+}
+
+export const DEFAULT_SPECTRUM_OPTIONS: SpectrumOptions = {
+  sampleRate: 1,
+  window: 'hann',
+  zeroPadFactor: 1,
+  powerOfTwo: true,
+};
+
+export function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+export function nextPowerOfTwo(n: number): number {
+  let power = 1;
+  while (power < n) power *= 2;
+  return power;
+}
+
+/**
+ * Window coefficients w[n], n = 0..N-1 (symmetric form)
+ */
+export function windowCoefficients(type: WindowType, N: number): number[] {
+  if (N <= 1) return new Array(N).fill(1);
+  return Array.from({ length: N }, (_, n) => {
+    const x = (2 * Math.PI * n) / (N - 1);
+    switch (type) {
+      case 'hann':
+        return 0.5 - 0.5 * Math.cos(x);
+      case 'hamming':
+        return 0.54 - 0.46 * Math.cos(x);
+      case 'blackman':
+        return 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+      default:
+        return 1;
+    }
+  });
+}
+
+/**
+ * Iterative radix-2 Cooley–Tukey FFT; the input length must be a power of two
+ */
+export function fftRadix2({ re, im }: ComplexArray): ComplexArray {
+  const N = re.length;
+  if (!isPowerOfTwo(N)) {
+    throw new Error(`Radix-2 FFT requires a power-of-two length, got ${N}`);
+  }
+  const outRe = [...re];
+  const outIm = [...im];
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < N; i++) {
+    let bit = N >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [outRe[i], outRe[j]] = [outRe[j], outRe[i]];
+      [outIm[i], outIm[j]] = [outIm[j], outIm[i]];
+    }
+  }
+
+  // Butterflies: X[k] = E[k] + W^k O[k], X[k + N/2] = E[k] - W^k O[k]
+  for (let size = 2; size <= N; size *= 2) {
+    const half = size / 2;
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < N; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wRe = Math.cos(angle * k);
+        const wIm = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + half;
+        const tRe = wRe * outRe[b] - wIm * outIm[b];
+        const tIm = wRe * outIm[b] + wIm * outRe[b];
+        outRe[b] = outRe[a] - tRe;
+        outIm[b] = outIm[a] - tIm;
+        outRe[a] += tRe;
+        outIm[a] += tIm;
+      }
+    }
+  }
+
+  return { re: outRe, im: outIm };
+}
+
+/**
+ * Direct DFT X[k] = Σ x[n] e^(-j2πkn/N) for any length, O(N²)
+ */
+export function dft({ re, im }: ComplexArray): ComplexArray {
+  const N = re.length;
+  const outRe = new Array(N).fill(0);
+  const outIm = new Array(N).fill(0);
+  for (let k = 0; k < N; k++) {
+    for (let n = 0; n < N; n++) {
+      const angle = (-2 * Math.PI * ((k * n) % N)) / N;
+      const c = Math.cos(angle);
+      const s = Math.sin(angle);
+      outRe[k] += re[n] * c - im[n] * s;
+      outIm[k] += re[n] * s + im[n] * c;
+    }
+  }
+  return { re: outRe, im: outIm };
+}
+
+/**
+ * DFT of any length: radix-2 FFT when possible, direct DFT otherwise
+ */
+export function fft(input: ComplexArray): ComplexArray {
+  return isPowerOfTwo(input.re.length) ? fftRadix2(input) : dft(input);
+}
+
+/**
+ * Inverse DFT x[n] = 1/N Σ X[k] e^(j2πkn/N), via the conjugate trick
+ */
+export function ifft({ re, im }: ComplexArray): ComplexArray {
+  const N = re.length;
+  const result = fft({ re, im: im.map(v => -v) });
+  return {
+    re: result.re.map(v => v / N),
+    im: result.im.map(v => -v / N),
+  };
+}
+
+/**
+ * One-sided spectrum of a real signal after windowing and zero-padding
+ * Magnitude is scaled by 2 / Σw so a sinusoid's peak reads its amplitude;
+ * the PSD is |X|² / (fs Σw²), doubled except at DC and Nyquist
+ */
+export function computeSpectrum(values: number[], options: SpectrumOptions): Spectrum {
+  const N = values.length;
+  const { sampleRate, window, zeroPadFactor, powerOfTwo = true } = options;
+  if (N === 0) {
+    return { frequencies: [], magnitude: [], phase: [], psd: [], fftSize: 0, resolution: 0 };
+  }
+
+  const padded = Math.max(N, Math.round(N * Math.max(1, zeroPadFactor)));
+  const fftSize = powerOfTwo ? nextPowerOfTwo(padded) : padded;
+  const w = windowCoefficients(window, N);
+  const windowSum = w.reduce((sum, v) => sum + v, 0);
+  const windowPower = w.reduce((sum, v) => sum + v * v, 0);
+
+  const re = new Array(fftSize).fill(0);
+  values.forEach((value, n) => {
+    re[n] = value * w[n];
+  });
+  const X = fft({ re, im: new Array(fftSize).fill(0) });
+
+  const numBins = Math.floor(fftSize / 2) + 1;
+  const frequencies: number[] = [];
+  const magnitude: number[] = [];
+  const phase: number[] = [];
+  const psd: number[] = [];
+  for (let k = 0; k < numBins; k++) {
+    const edge = k === 0 || (fftSize % 2 === 0 && k === fftSize / 2);
+    const power = X.re[k] * X.re[k] + X.im[k] * X.im[k];
+    frequencies.push((k * sampleRate) / fftSize);
+    magnitude.push(((edge ? 1 : 2) * Math.sqrt(power)) / windowSum);
+    phase.push(Math.atan2(X.im[k], X.re[k]));
+    psd.push(((edge ? 1 : 2) * power) / (sampleRate * windowPower));
+  }
+
+  return { frequencies, magnitude, phase, psd, fftSize, resolution: sampleRate / fftSize };
+}
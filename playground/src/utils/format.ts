@@ -0,0 +1,13 @@
+/**
+ * Formatting of computed values for the readouts
+ */
+
+/**
+ * Ratio in dB with two decimals; an undefined ratio (e.g. no signal power) shows as '—', an error-free
+ * one as '∞'
+ */
+export function formatDb(value: number): string {
+  if (Number.isNaN(value)) return '—';
+  if (!Number.isFinite(value)) return value > 0 ? '∞' : '−∞';
+  return `${value.toFixed(2)} dB`;
+}
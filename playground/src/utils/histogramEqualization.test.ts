@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import {
+  equalizationLut,
+  equalizeHistogram,
+  EQUALIZATION_EXAMPLE,
+  histogramStats,
+  mapHistogram,
+} from './histogramEqualization';
+
+describe('histogramStats', () => {
+  it('normalizes the counts into a PDF and a CDF that ends at 1', () => {
+    const { total, pdf, cdf } = histogramStats([1, 3, 0, 4]);
+    expect(total).toBe(8);
+    expect(pdf).toEqual([0.125, 0.375, 0, 0.5]);
+    expect(cdf).toEqual([0.125, 0.5, 0.5, 1]);
+  });
+
+  it('handles an empty histogram', () => {
+    expect(histogramStats([0, 0]).pdf).toEqual([0, 0]);
+  });
+});
+
+describe('equalizeHistogram', () => {
+  // The 64×64, 3-bit lecture example
+  const result = equalizeHistogram(EQUALIZATION_EXAMPLE);
+
+  it('maps the levels with s_k = round(7 · CDF(r_k))', () => {
+    expect(result.total).toBe(4096);
+    expect(result.lut).toEqual([1, 3, 5, 6, 6, 7, 7, 7]);
+  });
+
+  it('merges the levels that share an output level', () => {
+    expect(result.equalizedCounts).toEqual([0, 790, 0, 1023, 0, 850, 985, 448]);
+    expect(result.equalizedCounts.reduce((sum, n) => sum + n, 0)).toBe(4096);
+  });
+
+  it('explains every step', () => {
+    expect(result.stepByStep.length).toBeGreaterThan(0);
+    result.stepByStep.forEach(step => expect(Number.isFinite(step.value)).toBe(true));
+  });
+});
+
+describe('equalizationLut and mapHistogram', () => {
+  it('leaves a flat histogram almost unchanged', () => {
+    const lut = equalizationLut(histogramStats(new Array(8).fill(10)).cdf);
+    expect(lut).toEqual([1, 2, 3, 4, 4, 5, 6, 7]);
+  });
+
+  it('moves the counts to the mapped levels', () => {
+    expect(mapHistogram([5, 1, 2], [2, 2, 0])).toEqual([2, 0, 6]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Histogram equalization
+ * With n_k pixels at level r_k out of MN, p_r(r_k) = n_k / MN and the discrete transformation
+ * s_k = T(r_k) = round((L - 1) · Σ_{j ≤ k} p_r(r_j)) spreads the levels so the output histogram is as flat as
+ * integer levels allow
+ */
+
+import type { EntropyStep } from './entropyCalculator';
+
+export interface HistogramStats {
+  counts: number[];  // n_k
+  total: number;     // MN
+  pdf: number[];     // p_r(r_k) = n_k / MN
+  cdf: number[];     // Σ_{j ≤ k} p_r(r_j)
+}
+
+export interface EqualizationResult extends HistogramStats {
+  levels: number;            // L
+  lut: number[];             // s_k for every r_k
+  equalizedCounts: number[]; // Histogram of the output levels
+  stepByStep: EntropyStep[];
+}
+
+/**
+ * The 64×64, 3-bit (L = 8) image of the lecture example
+ */
+export const EQUALIZATION_EXAMPLE: number[] = [790, 1023, 850, 656, 329, 245, 122, 81];
+
+// Levels listed one by one in the step-by-step explanation; longer histograms are summarized
+const MAX_LISTED_LEVELS = 16;
+
+const round = (value: number, digits: number = 4) => parseFloat(value.toFixed(digits)).toString();
+
+export function histogramStats(counts: number[]): HistogramStats {
+  const total = counts.reduce((sum, n) => sum + n, 0);
+  const pdf = counts.map(n => (total > 0 ? n / total : 0));
+  let sum = 0;
+  const cdf = pdf.map(p => (sum += p));
+  return { counts, total, pdf, cdf };
+}
+
+/**
+ * Equalization lookup table s_k = round((L - 1) · CDF(r_k))
+ */
+export function equalizationLut(cdf: number[]): number[] {
+  const maxLevel = cdf.length - 1;
+  return cdf.map(c => Math.min(maxLevel, Math.round(maxLevel * c)));
+}
+
+/**
+ * Histogram of the levels a lookup table produces from the given input histogram
+ */
+export function mapHistogram(counts: number[], lut: number[]): number[] {
+  const mapped = new Array<number>(counts.length).fill(0);
+  counts.forEach((n, r) => {
+    mapped[lut[r]] += n;
+  });
+  return mapped;
+}
+
+/**
+ * Equalize a histogram of L = counts.length levels, with a step-by-step derivation
+ */
+export function equalizeHistogram(counts: number[]): EqualizationResult {
+  const levels = counts.length;
+  const stats = histogramStats(counts);
+  const { total, pdf, cdf } = stats;
+  const lut = equalizationLut(cdf);
+  const equalizedCounts = mapHistogram(counts, lut);
+
+  const occupied = counts.map((_, k) => k).filter(k => counts[k] > 0);
+  const outputLevels = equalizedCounts.filter(n => n > 0).length;
+  const bits = Math.log2(levels);
+
+  // Spell out every occupied level, or only the first and last three of a full 8-bit histogram
+  const perLevel = (line: (k: number) => string) =>
+    occupied.length <= MAX_LISTED_LEVELS
+      ? occupied.map(line)
+      : [
+          ...occupied.slice(0, 3).map(line),
+          `… ${occupied.length - 6} more occupied levels`,
+          ...occupied.slice(-3).map(line),
+        ];
+
+  const stepByStep: EntropyStep[] = [
+    {
+      step: '1',
+      value: total,
+      description: `Histogram n_k over L = ${levels} levels${Number.isInteger(bits) ? ` (${bits} bits)` : ''} and MN = ${total} pixels`,
+      detailedExplanation: {
+        title: 'Counting Pixels',
+        substeps: [
+          'n_k is the number of pixels whose intensity is r_k',
+          `${occupied.length} of the ${levels} levels occur in the image`,
+          ...perLevel(k => `n_${k} = ${counts[k]}`),
+          `The counts add up to MN = ${total}`,
+        ],
+        formula: `h(r_k) = n_k, \\quad k = 0, 1, \\ldots, ${levels - 1}`,
+      },
+    },
+    {
+      step: '2',
+      value: Math.max(0, ...pdf),
+      description: 'Normalize the histogram into the PDF p_r(r_k) = n_k / MN',
+      detailedExplanation: {
+        title: 'Probability of Each Level',
+        substeps: [
+          'Dividing by the number of pixels turns counts into probabilities that add up to 1',
+          ...perLevel(k => `p_r(r_${k}) = ${counts[k]} / ${total} = ${round(pdf[k])}`),
+        ],
+        formula: `p_r(r_k) = \\frac{n_k}{MN} = \\frac{n_k}{${total}}`,
+      },
+    },
+    {
+      step: '3',
+      value: cdf[levels - 1] ?? 0,
+      description: 'Accumulate the PDF into the CDF',
+      detailedExplanation: {
+        title: 'Cumulative Distribution',
+        substeps: [
+          'The CDF at r_k is the fraction of pixels at level r_k or darker',
+          'It never decreases and reaches 1 at the last level',
+          ...perLevel(k => `CDF(r_${k}) = ${round(cdf[k])}`),
+        ],
+        formula: 'CDF(r_k) = \\sum_{j=0}^{k} p_r(r_j)',
+      },
+    },
+    {
+      step: '4',
+      value: lut[occupied[occupied.length - 1] ?? 0] ?? 0,
+      description: `Scale by L − 1 = ${levels - 1} and round: s_k = round((L − 1)·CDF(r_k))`,
+      detailedExplanation: {
+        title: 'Equalization Mapping',
+        substeps: [
+          'Scaling the CDF stretches it over the whole output range [0, L − 1]',
+          'Rounding brings every value back to an integer level',
+          ...perLevel(k => `s_${k} = round(${levels - 1} · ${round(cdf[k])}) = round(${round((levels - 1) * cdf[k], 2)}) = ${lut[k]}`),
+        ],
+        formula: `s_k = T(r_k) = \\operatorname{round}\\left((L - 1) \\sum_{j=0}^{k} p_r(r_j)\\right) = \\operatorname{round}\\left(${levels - 1} \\cdot CDF(r_k)\\right)`,
+      },
+    },
+    {
+      step: '5',
+      value: outputLevels,
+      description: `Map every pixel r_k → s_k: ${outputLevels} distinct output levels`,
+      detailedExplanation: {
+        title: 'The Equalized Histogram',
+        substeps: [
+          'Every pixel at level r_k moves to s_k, so n_k pixels are added to the bin of s_k',
+          'Input levels that round to the same s_k merge, and some output levels stay empty',
+          ...(levels <= MAX_LISTED_LEVELS
+            ? equalizedCounts.map((n, s) => `level ${s}: ${n} pixels (${round(n / (total || 1))})`)
+            : [`${outputLevels} of the ${levels} output levels are used`]),
+          'The result is only approximately flat: a discrete histogram cannot be split, only moved',
+        ],
+        formula: 'p_s(s_k) = \\sum_{j \\,:\\, T(r_j) = s_k} p_r(r_j)',
+      },
+    },
+  ];
+
+  return { ...stats, levels, lut, equalizedCounts, stepByStep };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { EQUALIZATION_EXAMPLE } from './histogramEqualization';
+import { expandBins, inverseMapping, matchHistogram, shapeHistogram } from './histogramMatching';
+
+describe('matchHistogram', () => {
+  // The lecture example: the 3-bit image above matched to p_z = (0, 0, 0, 0.15, 0.2, 0.3, 0.2, 0.15)
+  const result = matchHistogram(EQUALIZATION_EXAMPLE, [0, 0, 0, 15, 20, 30, 20, 15]);
+
+  it('computes G(z_q) = round(7 · CDF_z(z_q))', () => {
+    expect(result.equalization).toEqual([1, 3, 5, 6, 6, 7, 7, 7]);
+    expect(result.targetTransform).toEqual([0, 0, 0, 1, 2, 5, 6, 7]);
+  });
+
+  it('maps r → G⁻¹(T(r))', () => {
+    expect(result.lut).toEqual([3, 4, 5, 6, 6, 7, 7, 7]);
+    expect(result.matchedCounts).toEqual([0, 0, 0, 790, 1023, 850, 985, 448]);
+  });
+
+  it('keeps an image whose levels are all distinct after equalization', () => {
+    const counts = [10, 20, 30, 40];
+    const identity = matchHistogram(counts, counts);
+    expect(identity.lut).toEqual([0, 1, 2, 3]);
+    expect(identity.matchedCounts).toEqual(counts);
+  });
+});
+
+describe('inverseMapping', () => {
+  it('picks the closest z, the smallest on ties', () => {
+    expect(inverseMapping([0, 0, 2, 3])).toEqual([0, 0, 2, 3]);
+    expect(inverseMapping([1, 1, 3, 3])).toEqual([0, 0, 0, 2]);
+  });
+});
+
+describe('shapeHistogram and expandBins', () => {
+  it('covers 2·spread + 1 levels with a uniform shape', () => {
+    const uniform = shapeHistogram({ shape: 'uniform', center: 100, spread: 20 });
+    expect(uniform).toHaveLength(256);
+    expect(uniform.filter(v => v > 0)).toHaveLength(41);
+  });
+
+  it('peaks at the centre of a Gaussian and at both modes of a bimodal shape', () => {
+    const gaussian = shapeHistogram({ shape: 'gaussian', center: 80, spread: 10 });
+    expect(gaussian.indexOf(Math.max(...gaussian))).toBe(80);
+    const bimodal = shapeHistogram({ shape: 'bimodal', center: 128, spread: 40 });
+    expect(bimodal[88]).toBeGreaterThan(bimodal[128]);
+    expect(bimodal[168]).toBeCloseTo(bimodal[88], 12);
+  });
+
+  it('repeats every bar over L / bins levels', () => {
+    expect(expandBins([1, 2], 6)).toEqual([1, 1, 1, 2, 2, 2]);
+    expect(expandBins([5, 6, 7, 8], 256).filter(v => v === 7)).toHaveLength(64);
+  });
+});
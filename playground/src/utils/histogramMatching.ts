@@ -0,0 +1,110 @@
+/**
+ * Histogram matching (specification)
+ * Equalize the input, s_k = T(r_k) = round((L - 1)·CDF_r(r_k)), equalize the target the same way,
+ * G(z_q) = round((L - 1)·CDF_z(z_q)), and send each s_k back through the inverse of G: z = G⁻¹(T(r))
+ */
+
+import { GRAY_LEVELS } from './image';
+import { equalizationLut, histogramStats, mapHistogram, type HistogramStats } from './histogramEqualization';
+
+export type TargetSource = 'image' | 'drawn' | 'shape';
+export type TargetShape = 'gaussian' | 'uniform' | 'bimodal';
+
+export const TARGET_SOURCES: readonly TargetSource[] = ['shape', 'drawn', 'image'];
+export const TARGET_SHAPES: readonly TargetShape[] = ['gaussian', 'uniform', 'bimodal'];
+
+export const TARGET_SOURCE_LABELS: Record<TargetSource, string> = {
+  shape: 'Parametric shape',
+  drawn: 'Drawn by hand',
+  image: 'Second image',
+};
+
+export const TARGET_SHAPE_LABELS: Record<TargetShape, string> = {
+  gaussian: 'Gaussian',
+  uniform: 'Uniform',
+  bimodal: 'Bimodal',
+};
+
+export interface ShapeOptions {
+  shape: TargetShape;
+  center: number;  // Mean of the Gaussian, middle of the uniform range, midpoint between the two modes
+  spread: number;  // σ of the Gaussian, half-width of the uniform range, distance from the midpoint to each mode
+}
+
+export interface MatchingResult {
+  source: HistogramStats;
+  target: HistogramStats;
+  equalization: number[];     // s_k = T(r_k)
+  targetTransform: number[];  // G(z_q)
+  inverse: number[];          // G⁻¹(s) for every level s
+  lut: number[];              // z = G⁻¹(T(r)) for every input level r
+  matchedCounts: number[];    // Histogram of the output image
+}
+
+// Resolution of the hand-drawn histogram: each bar covers L / DRAWN_BINS levels
+export const DRAWN_BINS = 32;
+export const MAX_DRAWN_HEIGHT = 100;
+
+export const DEFAULT_DRAWN_HISTOGRAM: number[] = Array.from({ length: DRAWN_BINS }, (_, i) =>
+  Math.round(MAX_DRAWN_HEIGHT * (0.15 + 0.85 * Math.exp(-(((i - 22) / 5) ** 2))))
+);
+
+/**
+ * Relative frequency of every level for a parametric target shape
+ */
+export function shapeHistogram({ shape, center, spread }: ShapeOptions, levels: number = GRAY_LEVELS): number[] {
+  const bell = (z: number, mean: number, sigma: number) => Math.exp(-0.5 * ((z - mean) / sigma) ** 2);
+  return Array.from({ length: levels }, (_, z) => {
+    switch (shape) {
+      case 'gaussian':
+        return bell(z, center, spread);
+      case 'uniform':
+        return Math.abs(z - center) <= spread ? 1 : 0;
+      case 'bimodal':
+        return bell(z, center - spread, spread / 2) + bell(z, center + spread, spread / 2);
+    }
+  });
+}
+
+/**
+ * Spread coarse bars (e.g. a hand-drawn histogram) over every level
+ */
+export function expandBins(bins: number[], levels: number = GRAY_LEVELS): number[] {
+  return Array.from({ length: levels }, (_, z) => bins[Math.floor((z * bins.length) / levels)] ?? 0);
+}
+
+/**
+ * Inverse of a non-decreasing mapping G: for every s the z whose G(z) is closest, the smallest on ties
+ */
+export function inverseMapping(mapping: number[]): number[] {
+  return mapping.map((_, s) => {
+    let best = 0;
+    mapping.forEach((g, z) => {
+      if (Math.abs(g - s) < Math.abs(mapping[best] - s)) best = z;
+    });
+    return best;
+  });
+}
+
+/**
+ * Lookup table that gives an image with histogram sourceCounts the histogram targetCounts, as closely as
+ * integer levels allow. Both histograms must have the same number of levels
+ */
+export function matchHistogram(sourceCounts: number[], targetCounts: number[]): MatchingResult {
+  const source = histogramStats(sourceCounts);
+  const target = histogramStats(targetCounts);
+  const equalization = equalizationLut(source.cdf);
+  const targetTransform = equalizationLut(target.cdf);
+  const inverse = inverseMapping(targetTransform);
+  const lut = equalization.map(s => inverse[s]);
+
+  return {
+    source,
+    target,
+    equalization,
+    targetTransform,
+    inverse,
+    lut,
+    matchedCounts: mapHistogram(sourceCounts, lut),
+  };
+}
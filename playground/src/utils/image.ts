@@ -0,0 +1,250 @@
+/**
+ * Image core: typed 8-bit image matrices, decoding, luminance conversion and synthetic test images
+ * Pixels are stored row by row, f(x, y) = data[(y · width + x) · channels + c], with L = 256 levels per channel
+ */
+
+import { createRandom, DEFAULT_SEED, gaussian } from './random';
+
+export const GRAY_LEVELS = 256;
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  channels: 1;
+  data: Uint8ClampedArray;
+}
+
+export interface RgbImage {
+  width: number;
+  height: number;
+  channels: 3;
+  data: Uint8ClampedArray;  // Interleaved R, G, B
+}
+
+export type RasterImage = GrayImage | RgbImage;
+
+export type LumaStandard = 'bt601' | 'bt709';
+
+export const LUMA_STANDARDS: readonly LumaStandard[] = ['bt601', 'bt709'];
+
+export const LUMA_LABELS: Record<LumaStandard, string> = {
+  bt601: 'BT.601 (SDTV)',
+  bt709: 'BT.709 (HDTV)',
+};
+
+// Y = w_R·R + w_G·G + w_B·B
+export const LUMA_WEIGHTS: Record<LumaStandard, [number, number, number]> = {
+  bt601: [0.299, 0.587, 0.114],
+  bt709: [0.2126, 0.7152, 0.0722],
+};
+
+export type TestImage = 'scene' | 'gradient' | 'radial' | 'checkerboard' | 'noise';
+
+export const TEST_IMAGES: readonly TestImage[] = ['scene', 'gradient', 'radial', 'checkerboard', 'noise'];
+
+export const TEST_IMAGE_LABELS: Record<TestImage, string> = {
+  scene: 'Low-contrast scene',
+  gradient: 'Horizontal gradient',
+  radial: 'Radial gradient',
+  checkerboard: 'Checkerboard',
+  noise: 'Gaussian noise',
+};
+
+// Uploads are scaled down so their longest side is at most this many pixels
+export const MAX_IMAGE_SIZE = 1024;
+
+export function createGrayImage(width: number, height: number): GrayImage {
+  return { width, height, channels: 1, data: new Uint8ClampedArray(width * height) };
+}
+
+export function createRgbImage(width: number, height: number): RgbImage {
+  return { width, height, channels: 3, data: new Uint8ClampedArray(3 * width * height) };
+}
+
+/**
+ * Gray image whose pixel (x, y) is value(x, y)
+ */
+function fillGrayImage(width: number, height: number, value: (x: number, y: number) => number): GrayImage {
+  const image = createGrayImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      image.data[y * width + x] = value(x, y);
+    }
+  }
+  return image;
+}
+
+/**
+ * Low-contrast scene: a shaded background with a few discs, squeezed into [70, 170]
+ */
+function sceneImage(size: number, seed: number): GrayImage {
+  const random = createRandom(seed);
+  const discs = [
+    { x: 0.3, y: 0.35, radius: 0.18, value: 0.85 },
+    { x: 0.7, y: 0.3, radius: 0.12, value: 0.15 },
+    { x: 0.55, y: 0.72, radius: 0.2, value: 0.65 },
+  ];
+  return fillGrayImage(size, size, (x, y) => {
+    const u = x / size;
+    const v = y / size;
+    let value = 0.35 + 0.25 * u * v;
+    discs.forEach(d => {
+      if ((u - d.x) ** 2 + (v - d.y) ** 2 < d.radius ** 2) value = d.value;
+    });
+    return 70 + 100 * value + 3 * gaussian(random);
+  });
+}
+
+/**
+ * Built-in synthetic test image, size × size pixels
+ */
+export function testImage(kind: TestImage, size: number = 256, seed: number = DEFAULT_SEED): GrayImage {
+  const maxLevel = GRAY_LEVELS - 1;
+  switch (kind) {
+    case 'scene':
+      return sceneImage(size, seed);
+    case 'gradient':
+      // Every level covers the same number of columns
+      return fillGrayImage(size, size, x => Math.round((x * maxLevel) / Math.max(1, size - 1)));
+    case 'radial': {
+      // Bright centre fading to black at the corners, so dark levels cover most of the image
+      const centre = (size - 1) / 2;
+      const maxRadius = Math.SQRT2 * centre;
+      return fillGrayImage(size, size, (x, y) =>
+        Math.round(maxLevel * (1 - Math.hypot(x - centre, y - centre) / maxRadius))
+      );
+    }
+    case 'checkerboard': {
+      const square = Math.max(1, Math.round(size / 8));
+      return fillGrayImage(size, size, (x, y) =>
+        (Math.floor(x / square) + Math.floor(y / square)) % 2 === 0 ? 40 : 215
+      );
+    }
+    case 'noise': {
+      const random = createRandom(seed);
+      return fillGrayImage(size, size, () => 128 + 32 * gaussian(random));
+    }
+  }
+}
+
+/**
+ * Decode a PNG/JPEG file through an offscreen canvas. Transparent pixels are composited over white
+ */
+export async function decodeImage(file: Blob, maxSize: number = MAX_IMAGE_SIZE): Promise<RgbImage> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas 2D context is not available');
+  }
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, width, height);
+  const image = createRgbImage(width, height);
+  for (let i = 0; i < width * height; i++) {
+    image.data[3 * i] = data[4 * i];
+    image.data[3 * i + 1] = data[4 * i + 1];
+    image.data[3 * i + 2] = data[4 * i + 2];
+  }
+  return image;
+}
+
+/**
+ * Luminance Y of every pixel; a gray image is returned unchanged
+ */
+export function toGray(image: RasterImage, standard: LumaStandard = 'bt601'): GrayImage {
+  if (image.channels === 1) return image;
+  const [wr, wg, wb] = LUMA_WEIGHTS[standard];
+  const gray = createGrayImage(image.width, image.height);
+  for (let i = 0; i < gray.data.length; i++) {
+    gray.data[i] = wr * image.data[3 * i] + wg * image.data[3 * i + 1] + wb * image.data[3 * i + 2];
+  }
+  return gray;
+}
+
+/**
+ * Values of the pixel at column x, row y: one per channel
+ */
+export function pixelAt(image: RasterImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * image.channels;
+  return Array.from(image.data.subarray(offset, offset + image.channels));
+}
+
+/**
+ * Draw the image on a canvas element, ready to be shown by a Konva Image
+ */
+export function imageToCanvas(image: RasterImage): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const context = canvas.getContext('2d');
+  if (!context) return canvas;
+
+  const pixels = context.createImageData(image.width, image.height);
+  const { channels, data } = image;
+  for (let i = 0; i < image.width * image.height; i++) {
+    pixels.data[4 * i] = data[channels * i];
+    pixels.data[4 * i + 1] = data[channels * i + (channels === 3 ? 1 : 0)];
+    pixels.data[4 * i + 2] = data[channels * i + (channels === 3 ? 2 : 0)];
+    pixels.data[4 * i + 3] = 255;
+  }
+  context.putImageData(pixels, 0, 0);
+  return canvas;
+}
+
+/**
+ * Pixel count n_k of every intensity level r_k
+ */
+export function grayHistogram(image: GrayImage): number[] {
+  const counts = new Array<number>(GRAY_LEVELS).fill(0);
+  image.data.forEach(value => counts[value]++);
+  return counts;
+}
+
+/**
+ * Map every pixel through a lookup table s = T(r)
+ */
+export function applyLut(image: GrayImage, lut: ArrayLike<number>): GrayImage {
+  const result = createGrayImage(image.width, image.height);
+  image.data.forEach((value, i) => {
+    result.data[i] = lut[value];
+  });
+  return result;
+}
+
+/**
+ * Colour stops of the heat map, from the lowest to the highest value
+ */
+export const HEAT_STOPS: readonly [number, number, number][] = [
+  [0, 0, 4],
+  [87, 16, 110],
+  [188, 55, 84],
+  [249, 142, 9],
+  [252, 255, 164],
+];
+
+/**
+ * Values in [0, max] coloured by linear interpolation between the heat map stops
+ */
+export function heatmapImage(values: ArrayLike<number>, width: number, height: number, max: number): RgbImage {
+  const image = createRgbImage(width, height);
+  const segments = HEAT_STOPS.length - 1;
+  for (let i = 0; i < width * height; i++) {
+    const t = max > 0 ? Math.max(0, Math.min(1, values[i] / max)) * segments : 0;
+    const k = Math.min(segments - 1, Math.floor(t));
+    const from = HEAT_STOPS[k];
+    const to = HEAT_STOPS[k + 1];
+    for (let c = 0; c < 3; c++) {
+      image.data[i * 3 + c] = from[c] + (to[c] - from[c]) * (t - k);
+    }
+  }
+  return image;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createGrayImage } from './image';
+import { addDisc, averageNoisyCopies, shiftImage, subtractImages } from './imageArithmetic';
+
+const flat = (value: number, width = 64, height = 64) => {
+  const image = createGrayImage(width, height);
+  image.data.fill(value);
+  return image;
+};
+
+describe('averageNoisyCopies', () => {
+  const image = flat(128);
+  const options = { sigma: 10, seed: 4, quantize: false };
+
+  it('divides the noise variance by K', () => {
+    const { curve, variance } = averageNoisyCopies(image, 16, options);
+    expect(curve).toHaveLength(16);
+    expect(variance).toBe(curve[15]);
+    [1, 2, 4, 8, 16].forEach(k => {
+      expect(curve[k - 1] / (100 / k)).toBeGreaterThan(0.9);
+      expect(curve[k - 1] / (100 / k)).toBeLessThan(1.1);
+    });
+  });
+
+  it('draws the same first copies whatever K is', () => {
+    const few = averageNoisyCopies(image, 3, options);
+    const many = averageNoisyCopies(image, 10, options);
+    expect(many.curve.slice(0, 3)).toEqual(few.curve);
+    expect(many.firstCopy.data).toEqual(few.firstCopy.data);
+  });
+
+  it('biases the average of clipped copies near black', () => {
+    const dark = averageNoisyCopies(flat(2), 16, { ...options, quantize: true });
+    const mean = dark.average.data.reduce((sum, v) => sum + v, 0) / dark.average.data.length;
+    expect(mean).toBeGreaterThan(4);
+  });
+});
+
+describe('subtractImages', () => {
+  const a = flat(100, 4, 1);
+  const b = flat(100, 4, 1);
+  b.data.set([50, 100, 150, 200]);
+
+  it('reports the raw range and the share of negative differences', () => {
+    const result = subtractImages(a, b, 'saturate');
+    expect([result.min, result.max]).toEqual([-100, 50]);
+    expect(result.negative).toBe(0.5);
+  });
+
+  it('saturates, wraps or rescales the difference', () => {
+    expect(Array.from(subtractImages(a, b, 'saturate').image.data)).toEqual([50, 0, 0, 0]);
+    expect(Array.from(subtractImages(a, b, 'wrap').image.data)).toEqual([50, 0, 206, 156]);
+    expect(Array.from(subtractImages(a, b, 'rescale').image.data)).toEqual([255, 170, 85, 0]);
+  });
+
+  it('finds only the change between aligned images', () => {
+    const scene = flat(80);
+    const difference = subtractImages(addDisc(scene, 0.5, 0.5, 0.2, 60), scene, 'saturate');
+    expect(difference.min).toBe(0);
+    expect(difference.max).toBe(60);
+    expect(subtractImages(shiftImage(scene, 3, -2), scene, 'saturate').max).toBe(0);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Arithmetic between images
+ * Averaging K copies g_i = f + η_i with independent zero-mean noise of variance σ² keeps f and divides the
+ * noise variance by K. Subtracting two images g = f₁ - f₂ shows what changed between them, but the
+ * difference spans [-(L - 1), L - 1] and has to be brought back into [0, L - 1]
+ */
+
+import { createGrayImage, GRAY_LEVELS, type GrayImage } from './image';
+import { createRandom, gaussian } from './random';
+
+export type DifferenceMode = 'saturate' | 'wrap' | 'rescale';
+
+export const DIFFERENCE_MODES: readonly DifferenceMode[] = ['saturate', 'wrap', 'rescale'];
+
+export const DIFFERENCE_LABELS: Record<DifferenceMode, string> = {
+  saturate: 'Saturate',
+  wrap: 'Wrap around',
+  rescale: 'Rescale',
+};
+
+export interface NoiseOptions {
+  sigma: number;       // Standard deviation of the additive Gaussian noise, in gray levels
+  seed: number;
+  quantize: boolean;   // Store every copy as 8 bits, rounded and clipped to [0, L - 1], as a camera would
+}
+
+export interface AverageResult {
+  average: GrayImage;
+  firstCopy: GrayImage;
+  variance: number;    // Mean squared difference between the average and the clean image
+  curve: number[];     // Variance of the average of the first k copies, k = 1 … K
+}
+
+export interface DifferenceResult {
+  image: GrayImage;
+  min: number;         // Range of the raw difference f₁ - f₂
+  max: number;
+  negative: number;    // Fraction of pixels with a negative raw difference, outside [0, L - 1]
+}
+
+const MAX_LEVEL = GRAY_LEVELS - 1;
+
+/**
+ * Calls visit(copy, k) for the noisy copies k = 1 … count, all drawn from one seeded stream so that the first
+ * K copies are always the same whatever the count
+ */
+function forEachNoisyCopy(
+  image: GrayImage,
+  count: number,
+  { sigma, seed, quantize }: NoiseOptions,
+  visit: (copy: Float64Array, k: number) => void
+) {
+  const random = createRandom(seed);
+  const copy = new Float64Array(image.data.length);
+  for (let k = 1; k <= count; k++) {
+    for (let i = 0; i < copy.length; i++) {
+      const value = image.data[i] + sigma * gaussian(random);
+      copy[i] = quantize ? Math.max(0, Math.min(MAX_LEVEL, Math.round(value))) : value;
+    }
+    visit(copy, k);
+  }
+}
+
+function meanSquaredError(sum: Float64Array, k: number, image: GrayImage): number {
+  let total = 0;
+  for (let i = 0; i < sum.length; i++) {
+    total += (sum[i] / k - image.data[i]) ** 2;
+  }
+  return total / sum.length;
+}
+
+/**
+ * Average of K noisy copies of the image, with the variance of every partial average along the way
+ */
+export function averageNoisyCopies(image: GrayImage, copies: number, options: NoiseOptions): AverageResult {
+  const sum = new Float64Array(image.data.length);
+  const firstCopy = createGrayImage(image.width, image.height);
+  const curve: number[] = [];
+  forEachNoisyCopy(image, copies, options, (copy, k) => {
+    if (k === 1) firstCopy.data.set(copy.map(Math.round));
+    copy.forEach((value, i) => {
+      sum[i] += value;
+    });
+    curve.push(meanSquaredError(sum, k, image));
+  });
+
+  const average = createGrayImage(image.width, image.height);
+  sum.forEach((value, i) => {
+    average.data[i] = Math.round(value / copies);
+  });
+  return { average, firstCopy, variance: curve[curve.length - 1] ?? 0, curve };
+}
+
+/**
+ * Image translated by (dx, dy) pixels, repeating the border pixels into the uncovered strip
+ */
+export function shiftImage(image: GrayImage, dx: number, dy: number): GrayImage {
+  const { width, height } = image;
+  const shifted = createGrayImage(width, height);
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.max(0, Math.min(height - 1, y - dy));
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.max(0, Math.min(width - 1, x - dx));
+      shifted.data[y * width + x] = image.data[sourceY * width + sourceX];
+    }
+  }
+  return shifted;
+}
+
+/**
+ * Copy of the image with a disc of the given centre and radius (as fractions of the width) brightened by delta
+ */
+export function addDisc(image: GrayImage, cx: number, cy: number, radius: number, delta: number): GrayImage {
+  const { width, height } = image;
+  const result = createGrayImage(width, height);
+  result.data.set(image.data);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if ((x / width - cx) ** 2 + (y / width - cy) ** 2 < radius ** 2) {
+        result.data[y * width + x] = image.data[y * width + x] + delta;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * g = f₁ - f₂, brought back into [0, L - 1] by clipping, modulo L, or a linear map of [min, max]
+ */
+export function subtractImages(a: GrayImage, b: GrayImage, mode: DifferenceMode): DifferenceResult {
+  const difference = new Int16Array(a.data.length);
+  let min = Infinity;
+  let max = -Infinity;
+  let negative = 0;
+  a.data.forEach((value, i) => {
+    const d = value - b.data[i];
+    difference[i] = d;
+    min = Math.min(min, d);
+    max = Math.max(max, d);
+    if (d < 0) negative++;
+  });
+
+  const image = createGrayImage(a.width, a.height);
+  difference.forEach((d, i) => {
+    switch (mode) {
+      case 'saturate':
+        image.data[i] = d;  // Uint8ClampedArray clips to [0, L - 1]
+        break;
+      case 'wrap':
+        image.data[i] = ((d % GRAY_LEVELS) + GRAY_LEVELS) % GRAY_LEVELS;
+        break;
+      case 'rescale':
+        image.data[i] = max > min ? Math.round(((d - min) * MAX_LEVEL) / (max - min)) : 0;
+        break;
+    }
+  });
+  return { image, min, max, negative: negative / Math.max(1, a.data.length) };
+}
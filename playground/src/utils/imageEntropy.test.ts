@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createGrayImage, grayHistogram, type GrayImage } from './image';
+import { shannonEntropy } from './entropyCalculator';
+import { differenceImage, gradientImage, imageEntropy, localEntropyMap, requantizationLut } from './imageEntropy';
+import { createRandom } from './random';
+
+function imageOf(width: number, height: number, pixel: (x: number, y: number) => number): GrayImage {
+  const image = createGrayImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) image.data[y * width + x] = pixel(x, y);
+  }
+  return image;
+}
+
+describe('imageEntropy', () => {
+  it('is 0 bits for a constant image and log₂ n for n equally frequent levels', () => {
+    expect(imageEntropy(imageOf(8, 8, () => 17))).toBe(0);
+    expect(imageEntropy(imageOf(8, 8, x => (x < 4 ? 0 : 255)))).toBeCloseTo(1, 12);
+    expect(imageEntropy(imageOf(16, 16, (x, y) => 16 * y + x))).toBeCloseTo(8, 12);
+  });
+});
+
+describe('localEntropyMap', () => {
+  it('matches the entropy of every cropped window computed directly', () => {
+    const random = createRandom(3);
+    const image = imageOf(13, 9, () => Math.floor(random() * 6));
+    const size = 5;
+    const half = 2;
+    const map = localEntropyMap(image, size);
+    for (let y = 0; y < image.height; y++) {
+      for (let x = 0; x < image.width; x++) {
+        const counts = new Map<number, number>();
+        let n = 0;
+        for (let v = Math.max(0, y - half); v <= Math.min(image.height - 1, y + half); v++) {
+          for (let u = Math.max(0, x - half); u <= Math.min(image.width - 1, x + half); u++) {
+            const level = image.data[v * image.width + u];
+            counts.set(level, (counts.get(level) ?? 0) + 1);
+            n++;
+          }
+        }
+        expect(map[y * image.width + x]).toBeCloseTo(shannonEntropy(counts.values(), n), 5);
+      }
+    }
+  });
+});
+
+describe('gradientImage and differenceImage', () => {
+  const ramp = imageOf(32, 8, x => 4 * x);
+
+  it('finds a single difference value on a horizontal ramp', () => {
+    const { image, entropy } = differenceImage(ramp);
+    expect(entropy).toBe(0);
+    expect(image.data[5]).toBe(128 + 4);
+    expect(image.data[0]).toBe(128);
+  });
+
+  it('has far less entropy than the ramp itself', () => {
+    expect(imageEntropy(ramp)).toBeCloseTo(5, 12);
+    const { image, entropy } = gradientImage(ramp);
+    expect(image.data[0]).toBe(4);
+    expect(entropy).toBeLessThan(0.5);
+  });
+});
+
+describe('requantizationLut', () => {
+  it('spreads 2^bits levels over [0, 255]', () => {
+    expect(Array.from(requantizationLut(8))).toEqual(Array.from({ length: 256 }, (_, r) => r));
+    const oneBit = requantizationLut(1);
+    expect(oneBit[0]).toBe(0);
+    expect(oneBit[127]).toBe(0);
+    expect(oneBit[128]).toBe(255);
+    const twoBits = requantizationLut(2);
+    expect(new Set(twoBits)).toEqual(new Set([0, 85, 170, 255]));
+    expect(grayHistogram(imageOf(256, 1, x => twoBits[x])).filter(n => n > 0)).toEqual([64, 64, 64, 64]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Entropy of 8-bit images
+ * The gray levels are treated as symbols of a memoryless source with probabilities p_k = n_k / MN, so
+ * H = -Σ p_k log₂ p_k is at most log₂ L = 8 bits per pixel. The local version looks at the histogram of a
+ * window around every pixel, and the entropy of gradient and difference images measures how predictable a
+ * pixel is from its neighbours rather than how spread its levels are
+ */
+
+import { createGrayImage, grayHistogram, GRAY_LEVELS, type GrayImage } from './image';
+import { shannonEntropy } from './entropyCalculator';
+
+export const LOCAL_WINDOWS: readonly number[] = [5, 9, 15, 21, 31];
+
+export interface DerivedImage {
+  image: GrayImage;    // Displayable version of the derived values
+  entropy: number;     // Entropy of the derived values themselves, in bits per pixel
+}
+
+/**
+ * Global gray-level entropy in bits per pixel
+ */
+export function imageEntropy(image: GrayImage): number {
+  return shannonEntropy(grayHistogram(image), image.data.length);
+}
+
+/**
+ * Entropy of the histogram of the size × size window centred on every pixel, cropped at the borders
+ * The window slides along each row and only the entering and leaving columns update the histogram. With
+ * H = log₂ n - (1/n) Σ c log₂ c, every update also touches a single term of the sum
+ */
+export function localEntropyMap(image: GrayImage, size: number): Float32Array {
+  const { width, height, data } = image;
+  const half = Math.floor(size / 2);
+  const map = new Float32Array(width * height);
+  const counts = new Uint32Array(GRAY_LEVELS);
+  const cLogC = Float64Array.from({ length: size * size + 1 }, (_, c) => (c > 0 ? c * Math.log2(c) : 0));
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - half);
+    const bottom = Math.min(height - 1, y + half);
+    counts.fill(0);
+    let n = 0;
+    let sum = 0;
+    const updateColumn = (x: number, delta: 1 | -1) => {
+      for (let row = top; row <= bottom; row++) {
+        const level = data[row * width + x];
+        sum -= cLogC[counts[level]];
+        counts[level] += delta;
+        sum += cLogC[counts[level]];
+      }
+      n += delta * (bottom - top + 1);
+    };
+
+    for (let x = 0; x <= Math.min(half, width - 1); x++) updateColumn(x, 1);
+    for (let x = 0; x < width; x++) {
+      map[y * width + x] = Math.max(0, Math.log2(n) - sum / n);
+      if (x - half >= 0) updateColumn(x - half, -1);
+      if (x + half + 1 < width) updateColumn(x + half + 1, 1);
+    }
+  }
+  return map;
+}
+
+/**
+ * Gradient magnitude √(Δx² + Δy²) from forward differences, clipped to [0, L - 1]
+ */
+export function gradientImage(image: GrayImage): DerivedImage {
+  const { width, height, data } = image;
+  const gradient = createGrayImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const dx = x + 1 < width ? data[i + 1] - data[i] : 0;
+      const dy = y + 1 < height ? data[i + width] - data[i] : 0;
+      gradient.data[i] = Math.sqrt(dx * dx + dy * dy);
+    }
+  }
+  return { image: gradient, entropy: imageEntropy(gradient) };
+}
+
+/**
+ * Horizontal difference d(x, y) = f(x, y) - f(x - 1, y), the prediction error of "same as the left neighbour"
+ * The entropy counts all 2L - 1 signed values; the image shows d + L/2 clipped, so mid-gray means no change
+ */
+export function differenceImage(image: GrayImage): DerivedImage {
+  const { width, height, data } = image;
+  const difference = createGrayImage(width, height);
+  const counts = new Array<number>(2 * GRAY_LEVELS - 1).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const d = x > 0 ? data[i] - data[i - 1] : 0;
+      if (x > 0) counts[d + GRAY_LEVELS - 1]++;
+      difference.data[i] = d + GRAY_LEVELS / 2;
+    }
+  }
+  return { image: difference, entropy: shannonEntropy(counts, Math.max(1, (width - 1) * height)) };
+}
+
+/**
+ * Lookup table that requantizes to 2^bits levels spread over [0, L - 1]
+ */
+export function requantizationLut(bits: number): Uint8Array {
+  const levels = 2 ** bits;
+  const step = GRAY_LEVELS / levels;
+  return Uint8Array.from({ length: GRAY_LEVELS }, (_, r) =>
+    levels > 1 ? Math.round((Math.floor(r / step) * (GRAY_LEVELS - 1)) / (levels - 1)) : 0
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Point intensity transformations s = T(r) on L = 256 gray levels
+ * Negative s = L - 1 - r, log s = c·log(1 + r), power law s = (L - 1)·(r / (L - 1))^γ, and
+ * piecewise-linear contrast stretching through the control points (r1, s1) and (r2, s2)
+ */
+
+import { GRAY_LEVELS } from './image';
+
+export type IntensityTransform = 'negative' | 'log' | 'gamma' | 'piecewise';
+
+export const INTENSITY_TRANSFORMS: readonly IntensityTransform[] = ['negative', 'log', 'gamma', 'piecewise'];
+
+export const TRANSFORM_LABELS: Record<IntensityTransform, string> = {
+  negative: 'Negative',
+  log: 'Logarithmic',
+  gamma: 'Power law (gamma)',
+  piecewise: 'Piecewise linear',
+};
+
+export interface ControlPoint {
+  r: number;  // Input level
+  s: number;  // Output level
+}
+
+export interface TransformOptions {
+  transform: IntensityTransform;
+  gamma: number;
+  points: [ControlPoint, ControlPoint];  // (r1, s1) and (r2, s2), with r1 ≤ r2
+}
+
+export const DEFAULT_CONTROL_POINTS: [ControlPoint, ControlPoint] = [
+  { r: 64, s: 32 },
+  { r: 160, s: 224 },
+];
+
+const MAX_LEVEL = GRAY_LEVELS - 1;
+
+/**
+ * Piecewise-linear map through (0, 0), (r1, s1), (r2, s2) and (L - 1, L - 1)
+ */
+function piecewiseLinear(r: number, [p1, p2]: [ControlPoint, ControlPoint]): number {
+  const knots = [{ r: 0, s: 0 }, p1, p2, { r: MAX_LEVEL, s: MAX_LEVEL }];
+  for (let i = 1; i < knots.length; i++) {
+    const a = knots[i - 1];
+    const b = knots[i];
+    if (r <= b.r) {
+      // A vertical segment (r1 = r2, a threshold) jumps straight to its upper end
+      return b.r === a.r ? b.s : a.s + ((r - a.r) * (b.s - a.s)) / (b.r - a.r);
+    }
+  }
+  return MAX_LEVEL;
+}
+
+/**
+ * Output level of a single input level
+ */
+export function transformLevel(r: number, { transform, gamma, points }: TransformOptions): number {
+  switch (transform) {
+    case 'negative':
+      return MAX_LEVEL - r;
+    case 'log':
+      // c = (L - 1) / log(L) maps r = L - 1 onto s = L - 1
+      return (MAX_LEVEL / Math.log(GRAY_LEVELS)) * Math.log(1 + r);
+    case 'gamma':
+      return MAX_LEVEL * Math.pow(r / MAX_LEVEL, gamma);
+    case 'piecewise':
+      return piecewiseLinear(r, points);
+  }
+}
+
+/**
+ * Lookup table T(r_k) for every level, rounded to the nearest integer
+ */
+export function transformLut(options: TransformOptions): Uint8Array {
+  const lut = new Uint8Array(GRAY_LEVELS);
+  for (let r = 0; r < GRAY_LEVELS; r++) {
+    lut[r] = Math.max(0, Math.min(MAX_LEVEL, Math.round(transformLevel(r, options))));
+  }
+  return lut;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { clockTimes, jitterSnr, type ClockOptions } from './jitter';
+import { generateSampleTimePoints, type SignalDefinition } from './samplingCalculator';
+
+const fs = 100;
+const offset = 0.3 / fs;
+const options: ClockOptions = {
+  mode: 'jitter',
+  distribution: 'gaussian',
+  rmsJitter: 1e-3,
+  seed: 7,
+  assumeUniform: false,
+};
+
+describe('clockTimes', () => {
+  // Two windows that share the nominal instants of [0.5 s, 1 s]
+  const first = generateSampleTimePoints(0, 1, fs, offset);
+  const second = generateSampleTimePoints(0.5, 2, fs, offset);
+
+  it.each(['gaussian', 'uniform'] as const)('jitters sample n the same way in every window (%s)', distribution => {
+    const jitterOptions = { ...options, distribution };
+    const a = clockTimes(first, fs, jitterOptions);
+    const b = clockTimes(second, fs, jitterOptions);
+    const shift = first.indexOf(second[0]);
+    expect(shift).toBeGreaterThan(0);
+    for (let i = shift; i < first.length; i++) {
+      expect(b[i - shift]).toBe(a[i]);
+    }
+  });
+
+  it('draws a new clock for a new seed', () => {
+    const a = clockTimes(first, fs, options);
+    const b = clockTimes(first, fs, { ...options, seed: 8 });
+    expect(a.some((t, i) => t !== b[i])).toBe(true);
+  });
+
+  it('keeps the random clock on the same arrivals in every window and spreads them over the window', () => {
+    const randomOptions = { ...options, mode: 'random' as const };
+    const a = clockTimes(first, fs, randomOptions);
+    const b = clockTimes(second, fs, randomOptions);
+    const overlap = (times: number[]) => times.filter(t => t >= second[0] && t < first[first.length - 1]);
+    expect(overlap(b)).toEqual(overlap(a));
+
+    // About one arrival per period, in order, up to the end of the window
+    expect(Math.abs(b.length - second.length)).toBeLessThan(4 * Math.sqrt(second.length));
+    expect(b.every((t, i) => i === 0 || t >= b[i - 1])).toBe(true);
+    expect(b[b.length - 1]).toBeGreaterThan(2 - 5 / fs);
+  });
+
+  it('returns the grid for an ideal clock', () => {
+    expect(clockTimes(first, fs, { ...options, mode: 'uniform' })).toBe(first);
+  });
+});
+
+describe('jitterSnr', () => {
+  const tone: SignalDefinition = { components: [{ type: 'sin', amplitude: 1, frequency: 10, phase: 0 }], dc: 0.5 };
+  const nominal = Array.from({ length: 4096 }, (_, n) => offset + n / fs);
+
+  it('follows the first-order formula for small jitter', () => {
+    const stats = jitterSnr(tone, nominal, clockTimes(nominal, fs, options), options.rmsJitter);
+    const expected = -20 * Math.log10(2 * Math.PI * 10 * options.rmsJitter);
+    expect(stats.theoretical).toBeCloseTo(expected, 9);
+    expect(stats.singleTone).toBeCloseTo(expected, 9);
+    expect(Math.abs(stats.measured - expected)).toBeLessThan(0.5);
+  });
+
+  it('is infinite without jitter and undefined without signal', () => {
+    const exact = jitterSnr(tone, nominal, nominal, 0);
+    expect(exact.measured).toBe(Infinity);
+    expect(exact.theoretical).toBe(Infinity);
+    const silent = jitterSnr({ components: [], dc: 1 }, nominal, clockTimes(nominal, fs, options), options.rmsJitter);
+    expect(silent.measured).toBeNaN();
+    expect(silent.theoretical).toBeNaN();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Sampling clocks with timing errors
+ * A jittered clock takes sample n at nT_s + e_n with e_n of RMS σ_t; a random (non-uniform) clock takes
+ * samples at the arrivals of a Poisson process with mean spacing T_s. The randomness of sample n (or of the
+ * n-th sampling period) only depends on the seed and n, so every window onto the signal sees the same clock
+ */
+
+import { originalSignal, type SampleClock, type SignalDefinition } from './samplingCalculator';
+import { createIndexedRandom, gaussian, type RandomSource } from './random';
+
+export type ClockMode = 'uniform' | 'jitter' | 'random';
+
+export type JitterDistribution = 'gaussian' | 'uniform';
+
+export const CLOCK_MODES: readonly ClockMode[] = ['uniform', 'jitter', 'random'];
+
+export const JITTER_DISTRIBUTIONS: readonly JitterDistribution[] = ['gaussian', 'uniform'];
+
+export const CLOCK_LABELS: Record<ClockMode, string> = {
+  uniform: 'Ideal clock',
+  jitter: 'Jittered clock',
+  random: 'Random (non-uniform) sampling',
+};
+
+export interface ClockOptions {
+  mode: ClockMode;
+  distribution: JitterDistribution;
+  rmsJitter: number;       // σ_t in seconds ('jitter' mode)
+  seed: number;
+  assumeUniform: boolean;  // Reconstruct as if the samples were taken at nT_s (naive receiver)
+}
+
+export interface JitterSnr {
+  measured: number;     // 10 log₁₀(P_signal / P_error) with e[n] = x(t_n) - x(nT_s), dB
+  theoretical: number;  // 10 log₁₀(Σ A²/2 / Σ (A²/2)(2πfσ_t)²), dB
+  singleTone: number;   // -20 log₁₀(2π f_max σ_t), the usual full-scale sine formula, dB
+}
+
+/**
+ * Timing error with zero mean and the given RMS
+ * A uniform error of RMS σ spans ±√3·σ
+ */
+function timingError(distribution: JitterDistribution, rms: number, random: RandomSource): number {
+  return distribution === 'gaussian'
+    ? rms * gaussian(random)
+    : rms * Math.sqrt(3) * (2 * random() - 1);
+}
+
+/**
+ * Index n of a nominal instant t₀ + nT_s, for a grid offset t₀ in [0, T_s)
+ */
+function gridIndex(t: number, fs: number): number {
+  return Math.floor(t * fs + 1e-6);
+}
+
+/**
+ * Number of arrivals of a Poisson process with mean 1 (Knuth's method)
+ */
+function poissonCount(random: RandomSource): number {
+  const limit = Math.exp(-1);
+  let count = 0;
+  for (let p = random(); p > limit; p *= random()) count++;
+  return count;
+}
+
+/**
+ * Actual sample instants of the clock for the nominal grid t_n = t₀ + nT_s, in increasing order
+ * A jittered clock moves every instant; a random clock replaces the grid by the Poisson arrivals inside
+ * [t_n, t_n + T_s) for every n, so it returns about as many instants as the grid, but not exactly as many
+ */
+export function clockTimes(nominal: number[], fs: number, options: ClockOptions): number[] {
+  switch (options.mode) {
+    case 'jitter':
+      return nominal.map(t =>
+        t + timingError(options.distribution, options.rmsJitter, createIndexedRandom(options.seed, gridIndex(t, fs)))
+      );
+
+    case 'random':
+      return nominal.flatMap(t => {
+        const random = createIndexedRandom(options.seed, gridIndex(t, fs));
+        const count = poissonCount(random);
+        return Array.from({ length: count }, () => t + random() / fs).sort((a, b) => a - b);
+      });
+
+    default:
+      return nominal;
+  }
+}
+
+/**
+ * Clock for reconstructWindow, or undefined for an ideal clock
+ */
+export function createSampleClock(fs: number, options: ClockOptions): SampleClock | undefined {
+  if (options.mode === 'uniform') return undefined;
+  return {
+    times: nominal => clockTimes(nominal, fs, options),
+    assumeUniform: options.assumeUniform,
+  };
+}
+
+/**
+ * Measured SNR of jittered samples against the first-order jitter formula
+ * For x(t) = A·sin(2πft), e ≈ x'(t)·Δt gives a noise power (A²/2)(2πfσ_t)²; the DC offset is not
+ * part of the signal power. Without signal power the ratios are undefined (NaN); without jitter they are +∞
+ */
+export function jitterSnr(
+  signal: SignalDefinition,
+  nominal: number[],
+  actual: number[],
+  rmsJitter: number
+): JitterSnr {
+  const n = Math.max(1, nominal.length);
+  const ideal = nominal.map(t => originalSignal(t, signal));
+  const mean = ideal.reduce((sum, v) => sum + v, 0) / n;
+  const signalPower = ideal.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / n;
+  const errorPower = actual.reduce((sum, t, i) => {
+    const error = originalSignal(t, signal) - ideal[i];
+    return sum + error * error;
+  }, 0) / n;
+
+  const active = signal.components.filter(c => c.amplitude !== 0);
+  const tonePower = active.reduce((sum, c) => sum + (c.amplitude * c.amplitude) / 2, 0);
+  const noisePower = active.reduce((sum, c) => {
+    const slope = 2 * Math.PI * c.frequency * rmsJitter;
+    return sum + ((c.amplitude * c.amplitude) / 2) * slope * slope;
+  }, 0);
+  const fMax = Math.max(0, ...active.map(c => c.frequency));
+
+  return {
+    measured: signalPower > 0 ? 10 * Math.log10(signalPower / errorPower) : NaN,
+    theoretical: tonePower > 0 ? 10 * Math.log10(tonePower / noisePower) : NaN,
+    singleTone: -20 * Math.log10(2 * Math.PI * fMax * rmsJitter),
+  };
+}
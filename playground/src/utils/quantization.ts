@@ -0,0 +1,89 @@
+/**
+ * Uniform ADC quantizer: b bits over an input range [min, max]
+ * L = 2^b levels with step Δ = (max - min) / L; rounding maps each value to the centre of its
+ * cell (error within ±Δ/2), truncation to the bottom of the cell (error in [0, Δ))
+ */
+
+import { createRandom, DEFAULT_SEED, type RandomSource } from './random';
+
+export type QuantizerMode = 'round' | 'truncate';
+
+export const QUANTIZER_MODES: readonly QuantizerMode[] = ['round', 'truncate'];
+
+export interface QuantizerOptions {
+  bits: number;
+  range: [number, number];
+  mode: QuantizerMode;
+  dither: boolean;  // Add triangular (TPDF) dither of ±Δ before quantizing
+}
+
+export interface QuantizationResult {
+  quantized: number[];
+  error: number[];  // Quantized minus input
+  codes: number[];  // Integer codes 0..L-1
+  step: number;     // Δ
+  clipped: number;  // Samples outside the input range
+}
+
+export interface SqnrStats {
+  measured: number;     // 10 log₁₀(P_signal / P_error), dB
+  theoretical: number;  // 6.02·b + 1.76 dB, for a full-scale sinusoid
+  expected: number;     // 10 log₁₀(P_signal / (Δ²/12)), dB, for this signal
+  signalPower: number;  // Power of the input without its DC offset
+  errorPower: number;
+}
+
+export function quantizationStep({ bits, range: [min, max] }: QuantizerOptions): number {
+  return (max - min) / Math.pow(2, bits);
+}
+
+/**
+ * Quantize a list of samples; dither draws from the seeded random source
+ */
+export function quantizeSamples(
+  values: number[],
+  options: QuantizerOptions,
+  random: RandomSource = createRandom(DEFAULT_SEED)
+): QuantizationResult {
+  const [min] = options.range;
+  const levels = Math.pow(2, options.bits);
+  const step = quantizationStep(options);
+  let clipped = 0;
+
+  const codes = values.map(value => {
+    const dithered = options.dither ? value + (random() - random()) * step : value;
+    const cell = Math.floor((dithered - min) / step);
+    if (cell < 0 || cell >= levels) clipped++;
+    return Math.max(0, Math.min(levels - 1, cell));
+  });
+  const offset = options.mode === 'round' ? 0.5 : 0;
+  const quantized = codes.map(code => min + (code + offset) * step);
+
+  return {
+    quantized,
+    error: quantized.map((q, i) => q - values[i]),
+    codes,
+    step,
+    clipped,
+  };
+}
+
+/**
+ * Measured signal-to-quantization-noise ratio against the theoretical values
+ * The DC offset is excluded from the signal power: it carries no information. Without signal power (e.g. a
+ * constant input) the ratios are undefined and returned as NaN; without error the measured ratio is +∞
+ */
+export function sqnr(values: number[], result: QuantizationResult, bits: number): SqnrStats {
+  const n = Math.max(1, values.length);
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const signalPower = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / n;
+  const errorPower = result.error.reduce((sum, e) => sum + e * e, 0) / n;
+  const hasSignal = signalPower > 0;
+  return {
+    measured: hasSignal ? 10 * Math.log10(signalPower / errorPower) : NaN,
+    theoretical: 6.02 * bits + 1.76,
+    expected: hasSignal ? 10 * Math.log10(signalPower / ((result.step * result.step) / 12)) : NaN,
+    signalPower,
+    errorPower,
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  booleanParam,
+  enumParam,
+  integerParam,
+  numberChoiceParam,
+  numberListParam,
+  numberParam,
+  readQueryValues,
+  writeQueryValues,
+} from './queryParams';
+
+describe('numberParam', () => {
+  const param = numberParam({ defaultValue: 1, min: 0, max: 2, step: 0.1 });
+
+  it('clamps and snaps to the step without floating-point noise', () => {
+    expect(param.parse('0.3')).toBe(0.3);
+    expect(param.parse('0.34')).toBe(0.3);
+    expect(param.parse('0.36')).toBe(0.4);
+    expect(param.parse('-5')).toBe(0);
+    expect(param.parse('7')).toBe(2);
+  });
+
+  it('rejects empty and non-numeric values', () => {
+    expect(param.parse('')).toBeNull();
+    expect(param.parse('  ')).toBeNull();
+    expect(param.parse('abc')).toBeNull();
+    expect(param.parse('Infinity')).toBeNull();
+  });
+
+  it('round-trips through serialize', () => {
+    for (const value of [0, 0.1, 0.7, 1.3, 2]) {
+      expect(param.parse(param.serialize(value))).toBe(value);
+    }
+  });
+
+  it('rounds integers', () => {
+    const integer = integerParam({ defaultValue: 5, min: 1, max: 10 });
+    expect(integer.parse('3.6')).toBe(4);
+    expect(integer.parse('0')).toBe(1);
+  });
+});
+
+describe('booleanParam, enumParam and numberChoiceParam', () => {
+  it('accepts 1/0 and true/false', () => {
+    const param = booleanParam(false);
+    expect(param.parse('1')).toBe(true);
+    expect(param.parse('true')).toBe(true);
+    expect(param.parse('0')).toBe(false);
+    expect(param.parse('yes')).toBeNull();
+    expect(param.parse(param.serialize(true))).toBe(true);
+  });
+
+  it('only accepts the listed values', () => {
+    const param = enumParam(['a', 'b'] as const, 'a');
+    expect(param.parse('b')).toBe('b');
+    expect(param.parse('c')).toBeNull();
+  });
+
+  it('snaps to the nearest choice', () => {
+    const param = numberChoiceParam([1, 2, 4, 8], 2);
+    expect(param.parse('3.1')).toBe(4);
+    expect(param.parse('100')).toBe(8);
+    expect(param.parse('')).toBeNull();
+  });
+});
+
+describe('numberListParam', () => {
+  const param = numberListParam({ defaultValue: [0.5], min: -2, max: 2, maxLength: 3 });
+
+  it('parses and clamps every item', () => {
+    expect(param.parse('0.5,-0.3')).toEqual([0.5, -0.3]);
+    expect(param.parse('5, -5')).toEqual([2, -2]);
+  });
+
+  it('skips empty items instead of reading them as 0', () => {
+    expect(param.parse('0.5,,0.2,')).toEqual([0.5, 0.2]);
+    expect(param.parse('')).toBeNull();
+    expect(param.parse(' , ')).toBeNull();
+  });
+
+  it('rejects non-numeric items and lists of the wrong length', () => {
+    expect(param.parse('0.5,x')).toBeNull();
+    expect(param.parse('1,1,1,1')).toBeNull();
+    const fixed = numberListParam({ defaultValue: [0, 0], min: 0, max: 1, minLength: 2, maxLength: 2 });
+    expect(fixed.parse('1')).toBeNull();
+    expect(fixed.parse('1,0')).toEqual([1, 0]);
+  });
+
+  it('round-trips through serialize', () => {
+    expect(param.parse(param.serialize([0.25, -1.5, 2]))).toEqual([0.25, -1.5, 2]);
+  });
+});
+
+describe('readQueryValues and writeQueryValues', () => {
+  const schema = {
+    n: integerParam({ defaultValue: 10, min: 1, max: 100 }),
+    mode: enumParam(['x', 'y'] as const, 'x'),
+    list: numberListParam({ defaultValue: [1, 2], min: 0, max: 10 }),
+  };
+
+  it('falls back to the defaults for missing or invalid values', () => {
+    const values = readQueryValues(schema, new URLSearchParams('n=abc&mode=z'));
+    expect(values).toEqual({ n: 10, mode: 'x', list: [1, 2] });
+  });
+
+  it('writes only the values that differ from the defaults', () => {
+    const start = new URLSearchParams('n=20&other=keep');
+    const next = writeQueryValues(schema, start, { n: 10, mode: 'y', list: [1, 2] });
+    expect(next.get('n')).toBeNull();
+    expect(next.get('mode')).toBe('y');
+    expect(next.get('list')).toBeNull();
+    expect(next.get('other')).toBe('keep');
+    expect(start.get('n')).toBe('20');
+  });
+
+  it('reads back what it wrote', () => {
+    const changes = { n: 42, mode: 'y' as const, list: [3, 0.5, 7] };
+    const written = writeQueryValues(schema, new URLSearchParams(), changes);
+    expect(readQueryValues(schema, new URLSearchParams(written.toString()))).toEqual(changes);
+  });
+});
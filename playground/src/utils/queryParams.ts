@@ -0,0 +1,160 @@
+/**
+ * Typed query-parameter codecs
+ * Each codec parses and validates a raw URL value, clamping numbers into range,
+ * and falls back to its default when the value is missing or invalid
+ */
+
+export interface QueryParam<T> {
+  defaultValue: T;
+  parse(raw: string): T | null;  // null when the raw value is invalid
+  serialize(value: T): string;
+  equals?(a: T, b: T): boolean;
+}
+
+export type QuerySchema = Record<string, QueryParam<unknown>>;
+
+export type QueryValues<S extends QuerySchema> = {
+  [K in keyof S]: S[K] extends QueryParam<infer T> ? T : never;
+};
+
+interface NumberParamOptions {
+  defaultValue: number;
+  min: number;
+  max: number;
+  step?: number;  // Values are rounded to multiples of step (offset from min)
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Number clamped to [min, max] and optionally snapped to a step
+ */
+export function numberParam({ defaultValue, min, max, step }: NumberParamOptions): QueryParam<number> {
+  const snap = (value: number) => {
+    if (!step) return value;
+    // Round to the step, then trim floating-point noise (0.1 + 0.2 → 0.3)
+    const snapped = min + Math.round((value - min) / step) * step;
+    return parseFloat(snapped.toPrecision(12));
+  };
+  return {
+    defaultValue,
+    parse: raw => {
+      if (raw.trim() === '') return null;
+      const value = Number(raw);
+      return Number.isFinite(value) ? clamp(snap(value), min, max) : null;
+    },
+    serialize: value => value.toString(),
+  };
+}
+
+/**
+ * Integer clamped to [min, max]
+ */
+export function integerParam({ defaultValue, min, max }: Omit<NumberParamOptions, 'step'>): QueryParam<number> {
+  return numberParam({ defaultValue, min, max, step: 1 });
+}
+
+/**
+ * Boolean stored as 1 / 0 (true / false are accepted too)
+ */
+export function booleanParam(defaultValue: boolean): QueryParam<boolean> {
+  return {
+    defaultValue,
+    parse: raw => {
+      if (raw === '1' || raw === 'true') return true;
+      if (raw === '0' || raw === 'false') return false;
+      return null;
+    },
+    serialize: value => (value ? '1' : '0'),
+  };
+}
+
+/**
+ * One of a fixed set of string values
+ */
+export function enumParam<T extends string>(values: readonly T[], defaultValue: T): QueryParam<T> {
+  return {
+    defaultValue,
+    parse: raw => (values as readonly string[]).includes(raw) ? raw as T : null,
+    serialize: value => value,
+  };
+}
+
+/**
+ * One of a fixed set of numbers; other values snap to the nearest allowed one
+ */
+export function numberChoiceParam(values: readonly number[], defaultValue: number): QueryParam<number> {
+  return {
+    defaultValue,
+    parse: raw => {
+      const value = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) return null;
+      return values.reduce((best, v) => (Math.abs(v - value) < Math.abs(best - value) ? v : best));
+    },
+    serialize: value => value.toString(),
+  };
+}
+
+/**
+ * Comma-separated list of numbers, each clamped to [min, max]
+ * A list with fewer than minLength or more than maxLength items is rejected
+ */
+export function numberListParam({
+  defaultValue,
+  min,
+  max,
+  minLength = 1,
+  maxLength = 10,
+}: { defaultValue: number[]; min: number; max: number; minLength?: number; maxLength?: number }): QueryParam<number[]> {
+  return {
+    defaultValue,
+    parse: raw => {
+      // Number('') is 0: skip empty items, and fall back to the default when nothing is left
+      const values = raw.split(',').filter(item => item.trim() !== '').map(item => Number(item));
+      if (values.length < Math.max(1, minLength) || values.length > maxLength || !values.every(Number.isFinite)) {
+        return null;
+      }
+      return values.map(value => clamp(value, min, max));
+    },
+    serialize: value => value.join(','),
+    equals: (a, b) => a.length === b.length && a.every((value, i) => value === b[i]),
+  };
+}
+
+/**
+ * Read every parameter of a schema from URL search params
+ */
+export function readQueryValues<S extends QuerySchema>(schema: S, searchParams: URLSearchParams): QueryValues<S> {
+  const values: Record<string, unknown> = {};
+  for (const [key, param] of Object.entries(schema)) {
+    const raw = searchParams.get(key);
+    const parsed = raw === null ? null : param.parse(raw);
+    values[key] = parsed ?? param.defaultValue;
+  }
+  return values as QueryValues<S>;
+}
+
+/**
+ * Write changed parameters into a copy of the search params
+ * Default values are removed, so links only carry what differs from the page defaults
+ */
+export function writeQueryValues<S extends QuerySchema>(
+  schema: S,
+  searchParams: URLSearchParams,
+  changes: Partial<QueryValues<S>>
+): URLSearchParams {
+  const next = new URLSearchParams(searchParams);
+  for (const [key, value] of Object.entries(changes)) {
+    const param = schema[key];
+    if (!param || value === undefined) continue;
+    const equals = param.equals ?? Object.is;
+    if (equals(value, param.defaultValue)) {
+      next.delete(key);
+    } else {
+      next.set(key, param.serialize(value));
+    }
+  }
+  return next;
+}
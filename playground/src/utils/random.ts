@@ -0,0 +1,64 @@
+/**
+ * Seedable pseudo-random number generation
+ * The same seed always produces the same sequence, so signals and figures are reproducible
+ */
+
+/**
+ * Uniform random numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+export const DEFAULT_SEED = 42;
+export const MAX_SEED = 999999;
+
+/**
+ * Mulberry32 generator: small, fast and good enough for visualizations
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generator for item `index` of a seeded family, e.g. sample n of a clock
+ * Items drawn in any order, or only some of them, always get the same numbers
+ */
+export function createIndexedRandom(seed: number, index: number): RandomSource {
+  // Murmur3 finalizer over the seed and the index
+  let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(index | 0, 0xc2b2ae35);
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return createRandom((h ^ (h >>> 16)) >>> 0);
+}
+
+/**
+ * Standard normal sample (Box–Muller transform)
+ */
+export function gaussian(random: RandomSource): number {
+  const u1 = 1 - random(); // (0, 1] avoids log(0)
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Fresh seed for the "new seed" button
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * Parse a seed from user input or the URL, or null if it is not a valid seed
+ */
+export function parseSeed(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const seed = Number(value);
+  if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) return null;
+  return seed;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { createNonUniformReconstructor, RECONSTRUCTION_METHODS } from './reconstruction';
+
+describe('createNonUniformReconstructor', () => {
+  // Samples of x(t) = t² where jitter has swapped the instants of samples 2 and 3
+  const sorted = [0, 1, 2, 2.6, 4, 5];
+  const swapped = [0, 1, 2.6, 2, 4, 5];
+  const Ts = 1;
+
+  it.each(RECONSTRUCTION_METHODS)('keeps each value with its instant when times are out of order (%s)', method => {
+    const options = { method, halfWidth: 3 };
+    const expected = createNonUniformReconstructor(sorted, sorted.map(t => t * t), Ts, options);
+    const actual = createNonUniformReconstructor(swapped, swapped.map(t => t * t), Ts, options);
+    for (let t = 0; t <= 5; t += 0.25) {
+      expect(actual(t)).toBeCloseTo(expected(t), 12);
+    }
+  });
+
+  it('interpolates linearly between the true neighbours', () => {
+    const reconstruct = createNonUniformReconstructor(swapped, swapped.map(t => t * t), Ts, { method: 'linear', halfWidth: 1 });
+    expect(reconstruct(2.3)).toBeCloseTo(4 + (2.6 * 2.6 - 4) / 2, 12);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Reconstruction of a continuous signal from uniformly spaced samples, or from samples taken at
+ * arbitrary times (jittered or random sampling)
+ * Zero-order hold, linear, natural cubic spline, truncated sinc and Lanczos (windowed sinc)
+ */
+
+export type ReconstructionMethod = 'zoh' | 'linear' | 'cubic' | 'sinc' | 'lanczos';
+
+export const RECONSTRUCTION_METHODS: readonly ReconstructionMethod[] = ['zoh', 'linear', 'cubic', 'sinc', 'lanczos'];
+
+export const RECONSTRUCTION_LABELS: Record<ReconstructionMethod, string> = {
+  zoh: 'Zero-order hold',
+  linear: 'Linear interpolation',
+  cubic: 'Cubic spline',
+  sinc: 'Truncated sinc',
+  lanczos: 'Lanczos (windowed sinc)',
+};
+
+export interface ReconstructionOptions {
+  method: ReconstructionMethod;
+  halfWidth: number;  // Samples used on each side by 'sinc' and 'lanczos'
+}
+
+export const DEFAULT_HALF_WIDTH = 20;
+
+/**
+ * Normalized sinc function sin(πx) / (πx)
+ */
+export function sinc(x: number): number {
+  if (Math.abs(x) < 1e-10) return 1;
+  return Math.sin(Math.PI * x) / (Math.PI * x);
+}
+
+/**
+ * Lanczos kernel sinc(x) · sinc(x / a) for |x| < a, 0 elsewhere
+ */
+export function lanczosKernel(x: number, a: number): number {
+  return Math.abs(x) < a ? sinc(x) * sinc(x / a) : 0;
+}
+
+/**
+ * Second derivatives of the natural cubic spline through (x[i], y[i])
+ * Solves h[i-1]M[i-1] + 2(h[i-1] + h[i])M[i] + h[i]M[i+1] = 6(Δy[i]/h[i] - Δy[i-1]/h[i-1]) with
+ * M[0] = M[n-1] = 0 (Thomas algorithm); at unit spacing this is M[i-1] + 4M[i] + M[i+1] = 6Δ²y[i]
+ */
+function splineSecondDerivatives(x: number[], y: number[]): number[] {
+  const n = y.length;
+  const M = new Array(n).fill(0);
+  if (n < 3) return M;
+
+  const size = n - 2;
+  const c = new Array(size).fill(0);
+  const d = new Array(size).fill(0);
+  for (let i = 0; i < size; i++) {
+    const h0 = x[i + 1] - x[i];
+    const h1 = x[i + 2] - x[i + 1];
+    const rhs = 6 * ((y[i + 2] - y[i + 1]) / h1 - (y[i + 1] - y[i]) / h0);
+    const denominator = 2 * (h0 + h1) - (i > 0 ? h0 * c[i - 1] : 0);
+    c[i] = h1 / denominator;
+    d[i] = (rhs - (i > 0 ? h0 * d[i - 1] : 0)) / denominator;
+  }
+  for (let i = size - 1; i >= 0; i--) {
+    M[i + 1] = d[i] - (i < size - 1 ? c[i] * M[i + 2] : 0);
+  }
+  return M;
+}
+
+/**
+ * Build a reconstruction function x̂(t) from samples x[n] taken at t₀ + n·Ts
+ * Kernel methods sum over the same symmetric window everywhere, so edges are handled
+ * like the centre: samples that fall outside the record simply do not contribute
+ */
+export function createReconstructor(
+  sampleTimes: number[],
+  samples: number[],
+  Ts: number,
+  { method, halfWidth }: ReconstructionOptions
+): (t: number) => number {
+  const count = samples.length;
+  if (count === 0) return () => 0;
+  const t0 = sampleTimes[0];
+  const clampIndex = (i: number) => Math.max(0, Math.min(count - 1, i));
+  const kernelSum = (u: number, kernel: (x: number) => number, width: number) => {
+    let sum = 0;
+    const first = Math.max(0, Math.ceil(u - width));
+    const last = Math.min(count - 1, Math.floor(u + width));
+    for (let n = first; n <= last; n++) {
+      sum += samples[n] * kernel(u - n);
+    }
+    return sum;
+  };
+
+  switch (method) {
+    case 'zoh':
+      return t => samples[clampIndex(Math.floor((t - t0) / Ts + 1e-9))];
+
+    case 'linear':
+      return t => {
+        const u = (t - t0) / Ts;
+        const i = clampIndex(Math.floor(u));
+        const j = clampIndex(i + 1);
+        const fraction = Math.max(0, Math.min(1, u - i));
+        return samples[i] + (samples[j] - samples[i]) * fraction;
+      };
+
+    case 'cubic': {
+      const M = splineSecondDerivatives(samples.map((_, n) => n), samples);
+      return t => {
+        const u = (t - t0) / Ts;
+        if (count === 1) return samples[0];
+        const i = Math.max(0, Math.min(count - 2, Math.floor(u)));
+        const a = i + 1 - u;
+        const b = u - i;
+        return (
+          a * samples[i] + b * samples[i + 1] +
+          ((a * a * a - a) * M[i] + (b * b * b - b) * M[i + 1]) / 6
+        );
+      };
+    }
+
+    case 'lanczos': {
+      const a = Math.max(1, halfWidth);
+      return t => kernelSum((t - t0) / Ts, x => lanczosKernel(x, a), a);
+    }
+
+    default:
+      return t => kernelSum((t - t0) / Ts, sinc, Math.max(1, halfWidth));
+  }
+}
+
+/**
+ * Build a reconstruction function from samples at arbitrary times t_n
+ * Hold and linear interpolation use the neighbouring instants and the spline passes through
+ * every (t_n, x[n]); sinc and Lanczos centre each kernel on its own t_n, which is only exact
+ * when the times are uniform
+ */
+export function createNonUniformReconstructor(
+  rawTimes: number[],
+  rawSamples: number[],
+  Ts: number,
+  { method, halfWidth }: ReconstructionOptions
+): (t: number) => number {
+  // Jitter comparable to T_s can swap neighbouring instants: sort the (t_n, x[n]) pairs together
+  const order = rawTimes.map((_, n) => n).sort((a, b) => rawTimes[a] - rawTimes[b]);
+  const sampleTimes = order.map(n => rawTimes[n]);
+  const samples = order.map(n => rawSamples[n]);
+  const count = samples.length;
+  if (count === 0) return () => 0;
+  if (count === 1) return () => samples[0];
+
+  // Index of the last sample at or before t, -1 before the first one
+  const locate = (t: number) => {
+    let low = -1;
+    let high = count - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high + 1) / 2);
+      if (sampleTimes[mid] <= t + 1e-12) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  };
+  const segment = (t: number) => Math.max(0, Math.min(count - 2, locate(t)));
+  const kernelSum = (t: number, kernel: (x: number) => number, width: number) => {
+    let sum = 0;
+    const start = Math.max(0, locate(t));
+    for (let n = start; n >= 0 && t - sampleTimes[n] <= width * Ts; n--) {
+      sum += samples[n] * kernel((t - sampleTimes[n]) / Ts);
+    }
+    for (let n = start + 1; n < count && sampleTimes[n] - t <= width * Ts; n++) {
+      sum += samples[n] * kernel((t - sampleTimes[n]) / Ts);
+    }
+    return sum;
+  };
+
+  switch (method) {
+    case 'zoh':
+      return t => samples[Math.max(0, locate(t))];
+
+    case 'linear':
+      return t => {
+        const i = segment(t);
+        const fraction = Math.max(0, Math.min(1, (t - sampleTimes[i]) / (sampleTimes[i + 1] - sampleTimes[i])));
+        return samples[i] + (samples[i + 1] - samples[i]) * fraction;
+      };
+
+    case 'cubic': {
+      const M = splineSecondDerivatives(sampleTimes, samples);
+      return t => {
+        const i = segment(t);
+        const h = sampleTimes[i + 1] - sampleTimes[i];
+        const a = (sampleTimes[i + 1] - t) / h;
+        const b = (t - sampleTimes[i]) / h;
+        return (
+          a * samples[i] + b * samples[i + 1] +
+          ((a * a * a - a) * M[i] + (b * b * b - b) * M[i + 1]) * h * h / 6
+        );
+      };
+    }
+
+    case 'lanczos': {
+      const a = Math.max(1, halfWidth);
+      return t => kernelSum(t, x => lanczosKernel(x, a), a);
+    }
+
+    default:
+      return t => kernelSum(t, sinc, Math.max(1, halfWidth));
+  }
+}
+
+/**
+ * Reconstruct the signal at time t (see createReconstructor)
+ */
+export function reconstruct(
+  t: number,
+  sampleTimes: number[],
+  samples: number[],
+  Ts: number,
+  options: ReconstructionOptions
+): number {
+  return createReconstructor(sampleTimes, samples, Ts, options)(t);
+}
@@ -1,84 +1,160 @@
 /**
  * Utilities for sampling rate exercise
- * Signal: x(t) = cos(100πt) + sin(200πt) + cos(500πt + π/4) + 7
+ * The signal is a sum of sinusoidal components plus a DC offset, e.g. the lecture exercise
+ * x(t) = cos(100πt) + sin(200πt) + cos(500πt + π/4) + 7
  * Maximum frequency: f_max = 250 Hz
  * Nyquist rate: f_s = 2 * f_max = 500 Hz
  */
 
-export const SIGNAL_CONFIG = {
-  f1: 50,   // cos(100πt) = 50 Hz
-  f2: 100,  // sin(200πt) = 100 Hz
-  f3: 250,  // cos(500πt + π/4) = 250 Hz
-  fMax: 250,
-  nyquistRate: 500,
-  dc: 7,    // DC component
+import {
+  createNonUniformReconstructor,
+  createReconstructor,
+  RECONSTRUCTION_METHODS,
+  type ReconstructionMethod,
+  type ReconstructionOptions,
+} from './reconstruction';
+import { undersamplingRanges, type SignalBand, type UndersamplingRange } from './bandpass';
+
+export interface SignalComponent {
+  type: 'sin' | 'cos';
+  amplitude: number;
+  frequency: number; // Hz
+  phase: number;     // Radians
+}
+
+export interface SignalDefinition {
+  components: SignalComponent[];
+  dc: number;
+}
+
+export const MAX_COMPONENT_FREQUENCY = 500; // Hz
+
+export const DEFAULT_SIGNAL: SignalDefinition = {
+  components: [
+    { type: 'cos', amplitude: 1, frequency: 50, phase: 0 },            // cos(100πt) = 50 Hz
+    { type: 'sin', amplitude: 1, frequency: 100, phase: 0 },           // sin(200πt) = 100 Hz
+    { type: 'cos', amplitude: 1, frequency: 250, phase: Math.PI / 4 }, // cos(500πt + π/4) = 250 Hz
+  ],
+  dc: 7, // DC component
 };
 
+/**
+ * Maximum frequency and Nyquist rate of a signal
+ * Components with zero amplitude do not contribute
+ */
+export function getSignalConfig(signal: SignalDefinition): { fMax: number; nyquistRate: number } {
+  const fMax = Math.max(
+    0,
+    ...signal.components.filter(c => c.amplitude !== 0).map(c => c.frequency)
+  );
+  return { fMax, nyquistRate: 2 * fMax };
+}
+
+/**
+ * Value of a single component at time t
+ */
+export function evaluateComponent(component: SignalComponent, t: number): number {
+  const { type, amplitude, frequency, phase } = component;
+  const angle = 2 * Math.PI * frequency * t + phase;
+  return amplitude * (type === 'sin' ? Math.sin(angle) : Math.cos(angle));
+}
+
 /**
  * Calculate the original continuous signal
  */
-export function originalSignal(t: number): number {
-  const { f1, f2, f3, dc } = SIGNAL_CONFIG;
-  return (
-    Math.cos(2 * Math.PI * f1 * t) +
-    Math.sin(2 * Math.PI * f2 * t) +
-    Math.cos(2 * Math.PI * f3 * t + Math.PI / 4) +
-    dc
+export function originalSignal(t: number, signal: SignalDefinition = DEFAULT_SIGNAL): number {
+  return signal.components.reduce(
+    (sum, component) => sum + evaluateComponent(component, t),
+    signal.dc
   );
 }
 
 /**
  * Sample the signal at given time points
  */
-export function sampleSignal(timePoints: number[]): number[] {
-  return timePoints.map(t => originalSignal(t));
+export function sampleSignal(timePoints: number[], signal: SignalDefinition = DEFAULT_SIGNAL): number[] {
+  return timePoints.map(t => originalSignal(t, signal));
 }
 
 /**
- * Sinc function
+ * Format a number for LaTeX, dropping trailing zeros
  */
-function sinc(x: number): number {
-  if (Math.abs(x) < 1e-10) return 1;
-  return Math.sin(Math.PI * x) / (Math.PI * x);
+function formatNumber(value: number): string {
+  return parseFloat(value.toFixed(3)).toString();
 }
 
 /**
- * Reconstruct signal using sinc interpolation (Whittaker-Shannon)
- * Simplified version using a finite number of samples
- * x(t) = Σ x[n] * sinc((t - n*Ts) / Ts)
+ * Format a phase in radians as a multiple of π, e.g. \pi/4 or 3\pi/2
  */
-export function sincReconstruct(
-  t: number,
-  sampleTimes: number[],
-  samples: number[],
-  Ts: number
-): number {
-  let reconstructed = 0;
-  
-  // Use samples within a reasonable window around t
-  const windowSize = 20; // Number of samples to use on each side
-  const centerIndex = sampleTimes.findIndex(ts => ts >= t);
-  
-  if (centerIndex === -1) {
-    // If t is beyond all samples, use the last windowSize samples
-    const startIdx = Math.max(0, sampleTimes.length - windowSize);
-    for (let i = startIdx; i < sampleTimes.length; i++) {
-      const n = i;
-      const t_n = sampleTimes[i];
-      reconstructed += samples[i] * sinc((t - t_n) / Ts);
+export function phaseToLatex(phase: number): string {
+  const ratio = phase / Math.PI;
+  for (const denominator of [1, 2, 3, 4, 6, 8, 12]) {
+    const numerator = Math.round(ratio * denominator);
+    if (numerator !== 0 && Math.abs(numerator / denominator - ratio) < 1e-9) {
+      const top = Math.abs(numerator) === 1 ? '\\pi' : `${Math.abs(numerator)}\\pi`;
+      return (numerator < 0 ? '-' : '') + (denominator === 1 ? top : `${top}/${denominator}`);
     }
-  } else {
-    // Use samples around the center
-    const startIdx = Math.max(0, centerIndex - windowSize);
-    const endIdx = Math.min(sampleTimes.length, centerIndex + windowSize);
-    
-    for (let i = startIdx; i < endIdx; i++) {
-      const t_n = sampleTimes[i];
-      reconstructed += samples[i] * sinc((t - t_n) / Ts);
+  }
+  return formatNumber(phase);
+}
+
+/**
+ * LaTeX for a single component, e.g. \cos(500\pi t + \pi/4)
+ */
+export function componentToLatex(component: SignalComponent): string {
+  const { type, amplitude, frequency, phase } = component;
+  const omega = formatNumber(2 * frequency);
+  let argument = `${omega === '1' ? '' : omega}\\pi t`;
+  if (phase !== 0) {
+    const phaseLatex = phaseToLatex(phase);
+    argument += phaseLatex.startsWith('-') ? ` - ${phaseLatex.slice(1)}` : ` + ${phaseLatex}`;
+  }
+  const gain = amplitude === 1 ? '' : amplitude === -1 ? '-' : formatNumber(amplitude);
+  return `${gain}\\${type}(${argument})`;
+}
+
+/**
+ * LaTeX for the whole signal, e.g. x(t) = \cos(100\pi t) + \sin(200\pi t) + 7
+ */
+export function signalToLatex(signal: SignalDefinition): string {
+  const terms = signal.components.map(componentToLatex);
+  if (signal.dc !== 0 || terms.length === 0) terms.push(formatNumber(signal.dc));
+  const body = terms.reduce((latex, term, i) => {
+    if (i === 0) return term;
+    return term.startsWith('-') ? `${latex} - ${term.slice(1)}` : `${latex} + ${term}`;
+  }, '');
+  return `x(t) = ${body}`;
+}
+
+/**
+ * Serialize components for the URL as type,amplitude,frequency,phase/π separated by ;
+ */
+export function serializeComponents(components: SignalComponent[]): string {
+  return components
+    .map(c => [c.type, formatNumber(c.amplitude), formatNumber(c.frequency), formatNumber(c.phase / Math.PI)].join(','))
+    .join(';');
+}
+
+/**
+ * Parse components serialized by serializeComponents, or null if the value is invalid
+ */
+export function parseComponents(raw: string): SignalComponent[] | null {
+  if (raw === '') return [];
+  const components: SignalComponent[] = [];
+  for (const item of raw.split(';')) {
+    const [type, ...numbers] = item.split(',');
+    const [amplitude, frequency, phase] = numbers.map(Number);
+    if ((type !== 'sin' && type !== 'cos') || numbers.length !== 3 || ![amplitude, frequency, phase].every(Number.isFinite)) {
+      return null;
     }
+    components.push({
+      type,
+      amplitude,
+      frequency: Math.max(0, Math.min(MAX_COMPONENT_FREQUENCY, frequency)),
+      phase: phase * Math.PI,
+    });
   }
-  
-  return reconstructed;
+  return components;
 }
 
 /**
@@ -97,33 +173,50 @@ export function generateContinuousTimePoints(
   return points;
 }
 
+/**
+ * Number of continuous points for a window of the given duration
+ * Enough points per cycle of the highest component, and per sample period for the steps of a
+ * held or interpolated reconstruction, that curves stay smooth at any zoom level
+ */
+export function continuousPointCount(
+  duration: number,
+  fMax: number,
+  fs: number,
+  pointsPerCycle: number = 40,
+  [minPoints, maxPoints]: [number, number] = [200, 10000]
+): number {
+  const needed = Math.ceil(duration * Math.max(fMax * pointsPerCycle, fs * 8));
+  return Math.max(minPoints, Math.min(maxPoints, needed));
+}
+
 /**
  * Generate sample time points for a given sampling rate
+ * Samples fall on the grid t = offset + n·Ts, so the sampling phase does not depend on start
  */
 export function generateSampleTimePoints(
   start: number,
   end: number,
-  fs: number
+  fs: number,
+  offset: number = 0
 ): number[] {
   const points: number[] = [];
   const Ts = 1 / fs;
-  let t = start;
+  let n = Math.ceil((start - offset) / Ts - 1e-9);
   
-  while (t <= end + Ts / 2) { // Add small tolerance for floating point
-    points.push(t);
-    t += Ts;
+  while (offset + n * Ts <= end + Ts / 2) { // Add small tolerance for floating point
+    points.push(offset + n * Ts);
+    n++;
   }
   
   return points;
 }
 
 /**
- * Calculate reconstruction error (mean squared error)
+ * Calculate reconstruction error (root mean squared error)
  */
 export function calculateReconstructionError(
   original: number[],
-  reconstructed: number[],
-  timePoints: number[]
+  reconstructed: number[]
 ): number {
   if (original.length !== reconstructed.length) return Infinity;
   
@@ -136,28 +229,216 @@ export function calculateReconstructionError(
   return Math.sqrt(sumSquaredError / original.length);
 }
 
+export interface WindowReconstruction {
+  times: number[];
+  original: number[];
+  reconstructed: number[];
+  sampleTimes: number[];  // Samples inside the window, at the instants they were actually taken
+  samples: number[];      // After quantization, when a quantizer is given
+  exactSamples: number[]; // Before quantization
+  error: number;          // RMS error over the window
+}
+
+export interface SampleClock {
+  times: (nominal: number[]) => number[];  // Actual sample instants for the nominal grid, not always as many
+  assumeUniform: boolean;                  // Reconstruct as if the samples were taken on the grid
+}
+
+export interface WindowOptions {
+  numPoints?: number;
+  reference?: SignalDefinition;                // Signal the error is measured against
+  quantize?: (values: number[]) => number[];  // ADC model applied to the samples
+  offset?: number;                             // Sampling phase: grid t = offset + n·Ts
+  clock?: SampleClock;                         // Non-ideal sampling instants
+}
+
+/**
+ * Sample the signal at fs and reconstruct it over [tStart, tEnd]
+ * Samples extend halfWidth periods beyond the window, so the error measures the method
+ * rather than the edges of the record. The error is measured against reference, e.g. the
+ * unfiltered signal when signal is the output of an anti-aliasing filter. An optional quantize
+ * step models the ADC: reconstruction then starts from the quantized samples. Samples are
+ * taken at offset + n·Ts, or at the instants of a non-ideal clock; a naive reconstruction
+ * (assumeUniform) puts them back on a uniform grid from the first nominal instant
+ */
+export function reconstructWindow(
+  signal: SignalDefinition,
+  fs: number,
+  [tStart, tEnd]: [number, number],
+  options: ReconstructionOptions,
+  {
+    numPoints = 500,
+    reference = signal,
+    quantize,
+    offset = 0,
+    clock,
+  }: WindowOptions = {}
+): WindowReconstruction {
+  const Ts = 1 / fs;
+  const margin = Math.ceil(Math.max(1, options.halfWidth)) * Ts;
+  const nominalTimes = generateSampleTimePoints(tStart - margin, tEnd + margin, fs, offset);
+  const allTimes = clock ? clock.times(nominalTimes) : nominalTimes;
+  const exactSamples = sampleSignal(allTimes, signal);
+  const allSamples = quantize ? quantize(exactSamples) : exactSamples;
+  const reconstructor = !clock || clock.assumeUniform
+    ? createReconstructor(nominalTimes, allSamples, Ts, options)
+    : createNonUniformReconstructor(allTimes, allSamples, Ts, options);
+
+  const times = generateContinuousTimePoints(tStart, tEnd, numPoints);
+  const original = times.map(t => originalSignal(t, reference));
+  const reconstructed = times.map(reconstructor);
+  const inside = allTimes
+    .map((t, i) => ({ t, value: allSamples[i], exact: exactSamples[i] }))
+    .filter(({ t }) => t >= tStart - Ts * 1e-6 && t <= tEnd + Ts * 1e-6);
+
+  return {
+    times,
+    original,
+    reconstructed,
+    sampleTimes: inside.map(s => s.t),
+    samples: inside.map(s => s.value),
+    exactSamples: inside.map(s => s.exact),
+    error: calculateReconstructionError(original, reconstructed),
+  };
+}
+
+/**
+ * RMS reconstruction error of every method over the same window
+ */
+export function compareReconstructionMethods(
+  signal: SignalDefinition,
+  fs: number,
+  timeWindow: [number, number],
+  halfWidth: number,
+  windowOptions: WindowOptions = {}
+): Record<ReconstructionMethod, number> {
+  const errors = {} as Record<ReconstructionMethod, number>;
+  RECONSTRUCTION_METHODS.forEach(method => {
+    errors[method] = reconstructWindow(signal, fs, timeWindow, { method, halfWidth }, windowOptions).error;
+  });
+  return errors;
+}
+
+/**
+ * Apparent frequency of a sinusoid after sampling at fs, folded into [0, fs/2]
+ * f_a = |f - k * fs| with k the integer closest to f / fs
+ */
+export function aliasedFrequency(frequency: number, fs: number): number {
+  return Math.abs(frequency - fs * Math.round(frequency / fs));
+}
+
+export interface SpectralLine {
+  frequency: number;  // Hz, may be negative (two-sided spectrum)
+  magnitude: number;  // |X(f)|: A/2 for each side of a sinusoid, |dc| at 0 Hz
+  component: number;  // Index in signal.components, or -1 for the DC term
+  replica: number;    // k in f + k * fs; 0 is the original spectrum
+}
+
+/**
+ * Two-sided line spectrum of the sampled signal within [-maxFrequency, maxFrequency]
+ * Sampling at fs repeats every line of the original spectrum at multiples of fs
+ */
+export function sampledSpectrum(
+  signal: SignalDefinition,
+  fs: number,
+  maxFrequency: number
+): SpectralLine[] {
+  const base: Omit<SpectralLine, 'replica'>[] = [];
+  if (signal.dc !== 0) base.push({ frequency: 0, magnitude: Math.abs(signal.dc), component: -1 });
+  signal.components.forEach((c, component) => {
+    if (c.amplitude === 0) return;
+    const magnitude = Math.abs(c.amplitude) / 2;
+    if (c.frequency === 0) {
+      // A 0 Hz component is a constant: sin contributes nothing, cos adds A·cos(φ)
+      const value = c.type === 'cos' ? c.amplitude * Math.cos(c.phase) : c.amplitude * Math.sin(c.phase);
+      if (Math.abs(value) > 1e-12) base.push({ frequency: 0, magnitude: Math.abs(value), component });
+      return;
+    }
+    base.push({ frequency: c.frequency, magnitude, component });
+    base.push({ frequency: -c.frequency, magnitude, component });
+  });
+
+  const lines: SpectralLine[] = [];
+  const maxReplica = Math.ceil((maxFrequency + MAX_COMPONENT_FREQUENCY) / fs);
+  for (let replica = -maxReplica; replica <= maxReplica; replica++) {
+    base.forEach(line => {
+      const frequency = line.frequency + replica * fs;
+      if (Math.abs(frequency) <= maxFrequency) lines.push({ ...line, frequency, replica });
+    });
+  }
+  return lines;
+}
+
+export type RecoveryStatus = 'recovered' | 'critical' | 'aliased';
+
+export interface ComponentRecovery {
+  component: number;          // Index in signal.components
+  frequency: number;
+  alias: number;              // Apparent frequency after sampling, in [0, fs/2]
+  status: RecoveryStatus;
+  apparentAmplitude: number;  // Amplitude the samples carry at the alias frequency
+  samplePhase: number;        // θ: cosine phase of the component at the sample instants (rad)
+}
+
+/**
+ * What the samples t = offset + n·Ts keep of each component
+ * Below fs/2 a component is recovered; above it, it folds to its alias. A component that lands exactly
+ * on fs/2 (or on 0 Hz) is sampled as A·cos(θ)·(±1)^n: its phase is lost and its amplitude depends on
+ * where the samples fall, down to nothing for a sine sampled at its zero crossings
+ */
+export function componentRecovery(
+  signal: SignalDefinition,
+  fs: number,
+  offset: number = 0
+): ComponentRecovery[] {
+  const tolerance = 1e-9 * fs;
+  return signal.components
+    .map((c, component) => ({ c, component }))
+    .filter(({ c }) => c.amplitude !== 0)
+    .map(({ c, component }) => {
+      const alias = aliasedFrequency(c.frequency, fs);
+      const onEdge = alias < tolerance || Math.abs(alias - fs / 2) < tolerance;
+      const samplePhase = 2 * Math.PI * c.frequency * offset + c.phase - (c.type === 'sin' ? Math.PI / 2 : 0);
+      const status: RecoveryStatus = Math.abs(c.frequency - fs / 2) < tolerance
+        ? 'critical'
+        : c.frequency < fs / 2 ? 'recovered' : 'aliased';
+      return {
+        component,
+        frequency: c.frequency,
+        alias,
+        status,
+        apparentAmplitude: onEdge ? Math.abs(c.amplitude * Math.cos(samplePhase)) : Math.abs(c.amplitude),
+        samplePhase,
+      };
+    });
+}
+
 /**
  * Determine sampling status based on sampling rate
+ * The theorem needs the strict inequality fs > 2·fmax: at fs = 2·fmax the highest component sits on
+ * fs/2, where the samples cannot separate its amplitude from its phase. With a band, the bandpass
+ * rule applies instead: fs must fall strictly inside one of the undersampling ranges
  */
-export function getSamplingStatus(fs: number): {
+export function getSamplingStatus(fs: number, signal: SignalDefinition = DEFAULT_SIGNAL, band?: SignalBand): {
   status: 'adequate' | 'nyquist' | 'insufficient';
   color: string;
   message: string;
 } {
-  const { nyquistRate } = SIGNAL_CONFIG;
+  if (band) return getBandpassStatus(fs, band);
+  const { nyquistRate } = getSignalConfig(signal);
   
-  if (fs > nyquistRate) {
+  if (Math.abs(fs - nyquistRate) < 1e-9) {
+    return {
+      status: 'nyquist',
+      color: 'orange',
+      message: `Critical sampling (${fs} Hz = ${nyquistRate} Hz) - f_s > 2f_max fails, the highest component depends on the sampling phase`
+    };
+  } else if (fs > nyquistRate) {
     return {
       status: 'adequate',
       color: 'green',
       message: `Adequate sampling (${fs} Hz > ${nyquistRate} Hz)`
     };
-  } else if (Math.abs(fs - nyquistRate) < 1) {
-    return {
-      status: 'nyquist',
-      color: 'orange',
-      message: `Nyquist rate (${fs} Hz = ${nyquistRate} Hz)`
-    };
   } else {
     return {
       status: 'insufficient',
@@ -167,3 +448,29 @@ export function getSamplingStatus(fs: number): {
   }
 }
 
+function getBandpassStatus(fs: number, band: SignalBand): ReturnType<typeof getSamplingStatus> {
+  const tolerance = 1e-9 * fs;
+  const range = undersamplingRanges(band).find(r => fs >= r.min - tolerance && fs <= r.max + tolerance);
+  const formatRange = (r: UndersamplingRange) =>
+    r.max === Infinity ? `f_s ≥ ${r.min.toFixed(1)} Hz` : `${r.min.toFixed(1)}–${r.max.toFixed(1)} Hz`;
+
+  if (!range) {
+    return {
+      status: 'insufficient',
+      color: 'red',
+      message: `Invalid undersampling rate (${fs} Hz) - replicas of the ${band.low}–${band.high} Hz band overlap`
+    };
+  } else if (Math.abs(fs - range.min) < tolerance || Math.abs(fs - range.max) < tolerance) {
+    return {
+      status: 'nyquist',
+      color: 'orange',
+      message: `Critical undersampling (${fs} Hz, edge of ${formatRange(range)}) - a band edge sits on a multiple of f_s/2`
+    };
+  } else {
+    return {
+      status: 'adequate',
+      color: 'green',
+      message: `Valid undersampling (${fs} Hz in ${formatRange(range)}, n = ${range.n})`
+    };
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Stochastic process generators with their theoretical entropy
+ * Differential entropies are in bits; discrete ones apply to processes with a finite alphabet
+ */
+
+import type { SignalPoint } from './entropyCalculator';
+import { createRandom, gaussian, DEFAULT_SEED, type RandomSource } from './random';
+
+export type ProcessType =
+  | 'white-gaussian'
+  | 'uniform'
+  | 'bernoulli'
+  | 'ar'
+  | 'random-walk'
+  | 'sinusoid-in-noise'
+  | 'periodic';
+
+export interface ProcessParams {
+  variance: number;         // Noise / innovation variance σ²
+  probability: number;      // Bernoulli probability p of +1
+  arCoefficients: number[]; // AR(p) coefficients φ₁, ..., φ_p
+  snrDb: number;            // Sinusoid-to-noise power ratio
+  period: number;           // Samples per period of the sinusoid / periodic signal
+}
+
+export interface TheoreticalEntropy {
+  kind: 'differential' | 'discrete';
+  marginal: number;         // Entropy of one sample x₁ (bits)
+  rate: number;             // Entropy rate h = lim H(x_N | x_{N-1}, ..., x₁) (bits/sample)
+  note?: string;
+}
+
+export interface ProcessGenerator {
+  type: ProcessType;
+  name: string;
+  description: string;
+  generate: (N: number, params: ProcessParams, random?: RandomSource) => SignalPoint[];
+  entropy: (params: ProcessParams) => TheoreticalEntropy;
+}
+
+export const DEFAULT_PROCESS_PARAMS: ProcessParams = {
+  variance: 0.25,
+  probability: 0.5,
+  arCoefficients: [0.8],
+  snrDb: 10,
+  period: 10,
+};
+
+const AR_BURN_IN = 100;
+
+function toSignal(values: number[]): SignalPoint[] {
+  return values.map((value, i) => ({ index: i + 1, value }));
+}
+
+/**
+ * Differential entropy of a Gaussian with variance σ²: ½ log₂(2πeσ²)
+ */
+export function gaussianEntropy(variance: number): number {
+  return 0.5 * Math.log2(2 * Math.PI * Math.E * variance);
+}
+
+/**
+ * Binary entropy function H(p) = -p log₂ p - (1-p) log₂(1-p)
+ */
+export function binaryEntropy(p: number): number {
+  if (p <= 0 || p >= 1) return 0;
+  return -p * Math.log2(p) - (1 - p) * Math.log2(1 - p);
+}
+
+/**
+ * Stationary variance of an AR(p) process, γ₀ = σ² Σ ψ_k², from its impulse response ψ
+ * Returns Infinity when the coefficients do not describe a stationary process
+ */
+export function arStationaryVariance(coefficients: number[], variance: number): number {
+  const psi: number[] = [1];
+  let sum = 1;
+  for (let k = 1; k < 2000; k++) {
+    let value = 0;
+    coefficients.forEach((phi, j) => {
+      if (k - j - 1 >= 0) value += phi * psi[k - j - 1];
+    });
+    psi.push(value);
+    sum += value * value;
+    if (!Number.isFinite(sum) || sum > 1e8) return Infinity;
+  }
+  return variance * sum;
+}
+
+/**
+ * Noise variance for a unit-amplitude sinusoid (power ½) at the given SNR
+ */
+function noiseVarianceForSnr(snrDb: number): number {
+  return 0.5 / Math.pow(10, snrDb / 10);
+}
+
+export const PROCESSES: Record<ProcessType, ProcessGenerator> = {
+  'white-gaussian': {
+    type: 'white-gaussian',
+    name: 'White Gaussian noise',
+    description: 'Independent samples x_i ~ N(0, σ²)',
+    generate: (N, { variance }, random = createRandom(DEFAULT_SEED)) =>
+      toSignal(Array.from({ length: N }, () => Math.sqrt(variance) * gaussian(random))),
+    entropy: ({ variance }) => ({
+      kind: 'differential',
+      marginal: gaussianEntropy(variance),
+      rate: gaussianEntropy(variance),
+    }),
+  },
+
+  uniform: {
+    type: 'uniform',
+    name: 'Uniform white noise',
+    description: 'Independent samples uniform on [-a, a], with a = √(3σ²)',
+    generate: (N, { variance }, random = createRandom(DEFAULT_SEED)) => {
+      const a = Math.sqrt(3 * variance);
+      return toSignal(Array.from({ length: N }, () => (2 * random() - 1) * a));
+    },
+    entropy: ({ variance }) => {
+      const h = Math.log2(2 * Math.sqrt(3 * variance));
+      return { kind: 'differential', marginal: h, rate: h };
+    },
+  },
+
+  bernoulli: {
+    type: 'bernoulli',
+    name: 'Bernoulli process',
+    description: 'Independent samples equal to +1 with probability p and -1 otherwise',
+    generate: (N, { probability }, random = createRandom(DEFAULT_SEED)) =>
+      toSignal(Array.from({ length: N }, () => (random() < probability ? 1 : -1))),
+    entropy: ({ probability }) => ({
+      kind: 'discrete',
+      marginal: binaryEntropy(probability),
+      rate: binaryEntropy(probability),
+    }),
+  },
+
+  ar: {
+    type: 'ar',
+    name: 'Autoregressive AR(p)',
+    description: 'x_n = φ₁x_{n-1} + ... + φ_p x_{n-p} + e_n, with Gaussian innovations e_n ~ N(0, σ²)',
+    generate: (N, { variance, arCoefficients }, random = createRandom(DEFAULT_SEED)) => {
+      const values: number[] = [];
+      for (let n = 0; n < N + AR_BURN_IN; n++) {
+        let value = Math.sqrt(variance) * gaussian(random);
+        arCoefficients.forEach((phi, k) => {
+          if (n - k - 1 >= 0) value += phi * values[n - k - 1];
+        });
+        values.push(value);
+      }
+      return toSignal(values.slice(AR_BURN_IN));
+    },
+    entropy: ({ variance, arCoefficients }) => {
+      const stationaryVariance = arStationaryVariance(arCoefficients, variance);
+      const stationary = Number.isFinite(stationaryVariance);
+      return {
+        kind: 'differential',
+        marginal: stationary ? gaussianEntropy(stationaryVariance) : Infinity,
+        rate: gaussianEntropy(variance),
+        note: stationary
+          ? 'The memory lowers the entropy rate below the marginal entropy'
+          : 'These coefficients do not give a stationary process',
+      };
+    },
+  },
+
+  'random-walk': {
+    type: 'random-walk',
+    name: 'Random walk',
+    description: 'x_n = x_{n-1} + e_n, with x₀ = 0 and steps e_n ~ N(0, σ²)',
+    generate: (N, { variance }, random = createRandom(DEFAULT_SEED)) => {
+      let position = 0;
+      return toSignal(Array.from({ length: N }, () => {
+        position += Math.sqrt(variance) * gaussian(random);
+        return position;
+      }));
+    },
+    entropy: ({ variance }) => ({
+      kind: 'differential',
+      marginal: gaussianEntropy(variance),
+      rate: gaussianEntropy(variance),
+      note: 'Non-stationary: the variance of x_n grows with n, but each step adds the same information',
+    }),
+  },
+
+  'sinusoid-in-noise': {
+    type: 'sinusoid-in-noise',
+    name: 'Sinusoid in noise',
+    description: 'x_n = sin(2πn / P) + e_n, with Gaussian noise at the chosen SNR',
+    generate: (N, { snrDb, period }, random = createRandom(DEFAULT_SEED)) => {
+      const sigma = Math.sqrt(noiseVarianceForSnr(snrDb));
+      return toSignal(Array.from({ length: N }, (_, i) =>
+        Math.sin((2 * Math.PI * (i + 1)) / period) + sigma * gaussian(random)
+      ));
+    },
+    entropy: ({ snrDb }) => {
+      const h = gaussianEntropy(noiseVarianceForSnr(snrDb));
+      return {
+        kind: 'differential',
+        marginal: h,
+        rate: h,
+        note: 'The deterministic sinusoid carries no information: only the noise contributes',
+      };
+    },
+  },
+
+  periodic: {
+    type: 'periodic',
+    name: 'Periodic deterministic signal',
+    description: 'x_n = sin(2πn / P), with no randomness',
+    generate: (N, { period }) =>
+      toSignal(Array.from({ length: N }, (_, i) => Math.sin((2 * Math.PI * (i + 1)) / period))),
+    entropy: () => ({
+      kind: 'discrete',
+      marginal: 0,
+      rate: 0,
+      note: 'A known deterministic signal has no uncertainty',
+    }),
+  },
+};
+
+export const PROCESS_TYPES = Object.keys(PROCESSES) as ProcessType[];
+
+/**
+ * Theoretical entropy of N samples quantized with bin width Δ (bits)
+ * Chain rule: H_N = H(x₁) + (N - 1)·h, exact for memoryless and first-order Markov processes
+ * Differential entropies are converted with H_Δ ≈ h - log₂ Δ, valid when Δ is small compared to σ
+ */
+export function theoreticalJointEntropy(
+  entropy: TheoreticalEntropy,
+  N: number,
+  binWidth: number
+): { jointEntropy: number; entropyRate: number } {
+  const offset = entropy.kind === 'differential' ? -Math.log2(binWidth) : 0;
+  const marginal = Math.max(0, entropy.marginal + offset);
+  const entropyRate = Math.max(0, entropy.rate + offset);
+  return {
+    jointEntropy: N > 0 ? marginal + (N - 1) * entropyRate : 0,
+    entropyRate,
+  };
+}